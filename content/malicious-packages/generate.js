@@ -0,0 +1,185 @@
+/**
+ * Generate malicious content packages for path traversal testing.
+ * Each fixture must be rejected when loaded; see verify.js.
+ *
+ * The archives are written by hand rather than with JSZip because zip libraries
+ * sanitize entry names, which is exactly what these fixtures must not do.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const MANIFEST = {
+  version: '1.0',
+  duration_ms: 1000,
+  metadata: { title: 'Malicious fixture' },
+  tracks: [
+    {
+      id: 'video-track',
+      type: 'video',
+      items: [{ id: 'clip', file: 'videos/clip.mp4', start_ms: 0, duration_ms: 1000 }],
+    },
+  ],
+};
+
+const withItemFile = (file) => ({
+  ...MANIFEST,
+  tracks: [{ ...MANIFEST.tracks[0], items: [{ ...MANIFEST.tracks[0].items[0], file }] }],
+});
+
+const PAYLOAD = Buffer.from('If you can read this outside the package, path traversal protection failed.\n');
+
+// A manifest followed by 16 MiB of whitespace still parses; DEFLATEd it is about 16 KB
+const MANIFEST_BYTES = Buffer.from(JSON.stringify(MANIFEST, null, 2) + '\n');
+const BOMB = Buffer.concat([MANIFEST_BYTES, Buffer.alloc(16 * 1024 * 1024, ' ')]);
+
+// name, entries ([entryName, content, options]), and the reason the loader should give
+const FIXTURES = [
+  {
+    name: 'zip-slip-parent.zip',
+    description: 'Entry name climbs out of the package with ../',
+    entries: [['manifest.json', MANIFEST], ['videos/clip.mp4', PAYLOAD], ['../../cbt-zip-slip.txt', PAYLOAD]],
+    reason: 'parent directory reference',
+  },
+  {
+    name: 'zip-slip-nested.zip',
+    description: 'Entry name climbs out from inside a subfolder',
+    entries: [['manifest.json', MANIFEST], ['videos/clip.mp4', PAYLOAD], ['videos/../../../cbt-zip-slip.txt', PAYLOAD]],
+    reason: 'parent directory reference',
+  },
+  {
+    name: 'zip-slip-absolute.zip',
+    description: 'Absolute POSIX entry name',
+    entries: [['manifest.json', MANIFEST], ['videos/clip.mp4', PAYLOAD], ['/tmp/cbt-zip-slip.txt', PAYLOAD]],
+    reason: 'absolute path',
+  },
+  {
+    name: 'zip-slip-backslash.zip',
+    description: 'Windows separators hiding a ../ sequence',
+    entries: [['manifest.json', MANIFEST], ['videos/clip.mp4', PAYLOAD], ['..\\..\\cbt-zip-slip.txt', PAYLOAD]],
+    reason: 'parent directory reference',
+  },
+  {
+    name: 'zip-slip-drive.zip',
+    description: 'Windows drive-letter entry name',
+    entries: [['manifest.json', MANIFEST], ['videos/clip.mp4', PAYLOAD], ['C:/Windows/Temp/cbt-zip-slip.txt', PAYLOAD]],
+    reason: 'drive-letter path',
+  },
+  {
+    name: 'manifest-parent-ref.zip',
+    description: 'Clean archive whose manifest references a file outside it',
+    entries: [['manifest.json', withItemFile('../../../etc/passwd')]],
+    reason: 'parent directory reference',
+  },
+  {
+    name: 'manifest-absolute-ref.pak',
+    description: 'Clean archive whose manifest references an absolute path',
+    entries: [['manifest.json', withItemFile('/etc/passwd')]],
+    reason: 'absolute path',
+  },
+  {
+    name: 'zip-bomb-manifest.zip',
+    description: 'DEFLATEd manifest that inflates far beyond the size its entry declares',
+    entries: [['manifest.json', BOMB, { deflate: true, declaredSize: MANIFEST_BYTES.length }]],
+    reason: 'inflates beyond its declared size',
+  },
+  {
+    name: 'manifest-escape-folder',
+    description: 'Unpacked package folder whose manifest references a sibling folder',
+    folder: { 'manifest.json': withItemFile('../sample-package/manifest.json') },
+    reason: 'parent directory reference',
+  },
+];
+
+// Minimal zip writer that keeps entry names byte-for-byte. Entries are STORED
+// unless deflate is set; declaredSize overrides the uncompressed size recorded.
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (entries) => {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const [entryName, value, options = {}] of entries) {
+    const name = Buffer.from(entryName, 'utf8');
+    const content = Buffer.isBuffer(value) ? value : Buffer.from(JSON.stringify(value, null, 2) + '\n');
+    const data = options.deflate ? zlib.deflateRawSync(content) : content;
+    const method = options.deflate ? 8 : 0;
+    const size = options.declaredSize ?? content.length;
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(0x28210000, 10); // 2000-01-01 00:00
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(0x28210000, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+};
+
+const generate = () => {
+  for (const fixture of FIXTURES) {
+    const target = path.join(__dirname, fixture.name);
+    if (fixture.folder) {
+      fs.mkdirSync(target, { recursive: true });
+      for (const [file, value] of Object.entries(fixture.folder)) {
+        fs.writeFileSync(path.join(target, file), JSON.stringify(value, null, 2) + '\n');
+      }
+    } else {
+      fs.writeFileSync(target, createZip(fixture.entries));
+    }
+    console.log(`Created ${fixture.name} - ${fixture.description}`);
+  }
+};
+
+module.exports = { FIXTURES };
+
+if (require.main === module) {
+  generate();
+}
@@ -0,0 +1,47 @@
+/**
+ * Check that every malicious fixture is rejected by the package loader.
+ * Runs the cbt-package CLI (build first with `npm run build`).
+ */
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { FIXTURES } = require('./generate');
+
+const CLI = path.join(__dirname, '..', '..', 'dist', 'cli', 'index.js');
+
+// Places a zip-slip payload would land if an entry escaped its extraction folder
+const ESCAPE_TARGETS = [
+  path.join(os.tmpdir(), 'cbt-zip-slip.txt'),
+  path.join(__dirname, '..', 'cbt-zip-slip.txt'),
+  path.join(__dirname, 'cbt-zip-slip.txt'),
+];
+
+let failures = 0;
+
+for (const fixture of FIXTURES) {
+  const result = spawnSync(process.execPath, [CLI, 'validate', path.join(__dirname, fixture.name)], { encoding: 'utf8' });
+  let report = {};
+  try {
+    report = JSON.parse(result.stdout);
+  } catch {
+    // Reported below as a failure
+  }
+
+  const rejected = result.status === 2 && typeof report.error === 'string' && report.error.includes(fixture.reason);
+  console.log(`${rejected ? 'PASS' : 'FAIL'} ${fixture.name} - ${report.error || result.stderr.trim() || 'accepted'}`);
+  if (!rejected) {
+    failures++;
+  }
+}
+
+for (const target of ESCAPE_TARGETS) {
+  if (fs.existsSync(target)) {
+    console.log(`FAIL payload escaped to ${target}`);
+    failures++;
+  }
+}
+
+console.log(failures === 0 ? 'All malicious fixtures rejected.' : `${failures} check(s) failed.`);
+process.exitCode = failures === 0 ? 0 : 1;
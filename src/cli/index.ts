@@ -0,0 +1,425 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ContentLoader, Manifest } from '../main/contentLoader';
+import { ManifestValidationError, MANIFEST_SCHEMA_ID } from '../main/manifestValidator';
+import { CURRENT_MANIFEST_VERSION } from '../main/manifestMigrations';
+import { normalizeManifest, writePackage } from '../main/packageWriter';
+import { SIGNATURE_FILE, computeKeyId, createSignature, hashEntries, loadTrustedKeys } from '../main/packageSignature';
+import {
+  KEY_FILE_EXTENSION,
+  PackageSecret,
+  computeKeyFileId,
+  generateKeyFile,
+  parseKeyFile,
+} from '../main/packageEncryption';
+import { ManifestLintFinding, ManifestValidationIssue, PackageSignatureStatus } from '../types/index';
+
+/**
+ * cbt-package - headless validator and packager for CBT content packages
+ *
+ *   cbt-package validate <package> [--strict] [--keys <dir>] [--verbose]
+ *   cbt-package pack <package> -o <output.zip|output.pak> [--force] [--sign <key>] [--encrypt] [--verbose]
+ *   cbt-package sign <package folder> --key <key> [--signer <name>] [--verbose]
+ *   cbt-package migrate <package folder> [--dry-run] [--verbose]
+ *   cbt-package keygen -o <name> [--encryption]
+ *
+ * migrate rewrites an older manifest in the current format, keeping the original
+ * as manifest.json.<version>.bak. Archives are upgraded by packing them again.
+ *
+ * Encrypted packages are opened, and packs encrypted, with --key-file or --passphrase.
+ *
+ * <package> is a package folder, a manifest.json, or a .zip/.pak archive.
+ * A JSON report is written to stdout; loader logging goes to stderr with --verbose.
+ *
+ * Exit codes: 0 = no errors, 1 = package has errors, 2 = usage or I/O failure
+ */
+
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_FAILURE = 2;
+
+const USAGE = `Usage:
+  cbt-package validate <package> [--strict] [--keys <dir>] [--verbose]
+  cbt-package pack <package> -o <output.zip|output.pak> [--force] [--sign <key>] [--encrypt] [--verbose]
+  cbt-package sign <package folder> --key <key> [--signer <name>] [--verbose]
+  cbt-package migrate <package folder> [--dry-run] [--verbose]
+  cbt-package keygen -o <name> [--encryption]
+
+Options:
+  --strict        Treat lint warnings as errors
+  --force         Pack even if the package has errors
+  -o, --output    Output archive path (pack), key file prefix (keygen)
+  --keys          Folder of trusted public keys (*.pem) to verify signature.json
+  --sign, --key   Ed25519 private key to sign with (pack, sign)
+  --signer        Publisher name recorded in signature.json
+  --encrypt       Encrypt the packed archive (needs --key-file or --passphrase)
+  --key-file      Encryption key file (.cbtkey) to open or encrypt a package
+  --passphrase    Passphrase to open or encrypt a package
+  --encryption    keygen: create an encryption key file instead of a signing key pair
+  --dry-run       migrate: report the migration steps without writing anything
+  --verbose       Print loader diagnostics to stderr
+`;
+
+interface CliArgs {
+  command: string | undefined;
+  input: string | undefined;
+  output?: string;
+  keysDir?: string;
+  signingKey?: string;
+  signer?: string;
+  keyFile?: string;
+  passphrase?: string;
+  encrypt: boolean;
+  encryption: boolean;
+  dryRun: boolean;
+  strict: boolean;
+  force: boolean;
+  verbose: boolean;
+}
+
+interface PackageReport {
+  package: string;
+  schema: string;
+  valid: boolean;
+  manifest?: {
+    version: string;
+    duration_ms: number;
+    title?: string;
+    tracks: Array<{ id: string; type: string; items: number }>;
+  };
+  // Set when the manifest is older than the current format and was upgraded on load
+  migration?: {
+    fromVersion: string;
+    toVersion: string;
+    steps: string[];
+  };
+  validationErrors: ManifestValidationIssue[];
+  lintFindings: ManifestLintFinding[];
+  summary: { errors: number; warnings: number };
+  signature?: PackageSignatureStatus;
+  encrypted?: boolean;
+  error?: string;
+  pack?: {
+    output: string;
+    bytes: number;
+    entries: Array<{ name: string; size: number; compression: string }>;
+    skipped: string[];
+  };
+  sign?: {
+    output: string;
+    keyId: string;
+    files: number;
+  };
+  migrate?: {
+    output: string;
+    backup?: string;
+    written: boolean;
+    // signature.json no longer matches the rewritten manifest; sign the package again
+    signatureInvalidated: boolean;
+  };
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: undefined,
+    input: undefined,
+    encrypt: false,
+    encryption: false,
+    dryRun: false,
+    strict: false,
+    force: false,
+    verbose: false,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--strict': args.strict = true; break;
+      case '--force': args.force = true; break;
+      case '--verbose': args.verbose = true; break;
+      case '-o':
+      case '--output':
+        args.output = argv[++i];
+        break;
+      case '--keys': args.keysDir = argv[++i]; break;
+      case '--sign':
+      case '--key':
+        args.signingKey = argv[++i];
+        break;
+      case '--signer': args.signer = argv[++i]; break;
+      case '--key-file': args.keyFile = argv[++i]; break;
+      case '--passphrase': args.passphrase = argv[++i]; break;
+      case '--encrypt': args.encrypt = true; break;
+      case '--encryption': args.encryption = true; break;
+      case '--dry-run': args.dryRun = true; break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        positional.push(arg);
+    }
+  }
+
+  [args.command, args.input] = positional;
+  return args;
+}
+
+async function inspectPackage(
+  loader: ContentLoader,
+  input: string,
+  strict: boolean,
+  secret: PackageSecret
+): Promise<{ report: PackageReport; manifest: Manifest | null }> {
+  const report: PackageReport = {
+    package: path.resolve(input),
+    schema: MANIFEST_SCHEMA_ID,
+    valid: false,
+    validationErrors: [],
+    lintFindings: [],
+    summary: { errors: 0, warnings: 0 },
+  };
+
+  let manifest: Manifest | null = null;
+  try {
+    manifest = await loader.loadPackage(path.resolve(input), secret);
+  } catch (error) {
+    if (error instanceof ManifestValidationError) {
+      report.schema = loader.getSchemaId() ?? report.schema;
+      report.validationErrors = error.issues;
+      report.summary.errors = error.issues.length;
+      return { report, manifest: null };
+    }
+    throw error;
+  }
+
+  // The schema of the version the manifest declares, before any migration
+  report.schema = loader.getSchemaId() ?? report.schema;
+  report.manifest = {
+    version: manifest.version,
+    duration_ms: manifest.duration_ms,
+    title: manifest.metadata?.title,
+    tracks: manifest.tracks.map(track => ({ id: track.id, type: track.type, items: track.items.length })),
+  };
+  const migration = loader.getMigration();
+  if (migration && migration.steps.length > 0) {
+    report.migration = { fromVersion: migration.fromVersion, toVersion: migration.toVersion, steps: migration.steps };
+  }
+  report.lintFindings = loader.getLintFindings();
+  report.signature = loader.getSignatureStatus() || undefined;
+  report.encrypted = loader.isEncrypted();
+
+  const warnings = report.lintFindings.filter(f => f.level === 'warning').length;
+  // A tampered package is an error however clean its timeline is
+  const errors = report.lintFindings.length - warnings + (report.signature?.state === 'tampered' ? 1 : 0);
+  report.summary = strict ? { errors: errors + warnings, warnings: 0 } : { errors, warnings };
+  report.valid = report.summary.errors === 0;
+
+  return { report, manifest };
+}
+
+async function readPrivateKey(keyPath: string): Promise<crypto.KeyObject> {
+  const key = crypto.createPrivateKey(await fs.readFile(path.resolve(keyPath)));
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Not an Ed25519 private key: ${keyPath}`);
+  }
+  return key;
+}
+
+/**
+ * Write <name>.key (private, keep secret) and <name>.pem (public, for trusted-keys folders)
+ */
+async function generateKeyPair(name: string): Promise<{ privateKey: string; publicKey: string; keyId: string }> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const privatePath = path.resolve(`${name}.key`);
+  const publicPath = path.resolve(`${name}.pem`);
+
+  await fs.mkdir(path.dirname(privatePath), { recursive: true });
+  await fs.writeFile(privatePath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag: 'wx' });
+  await fs.writeFile(publicPath, publicKey.export({ type: 'spki', format: 'pem' }), { flag: 'wx' });
+
+  return { privateKey: privatePath, publicKey: publicPath, keyId: computeKeyId(publicKey) };
+}
+
+/**
+ * Write <name>.cbtkey, a random key for encrypting packages
+ */
+async function generateEncryptionKey(name: string): Promise<{ keyFile: string; keyId: string }> {
+  const keyFile = path.resolve(`${name}${KEY_FILE_EXTENSION}`);
+  const contents = generateKeyFile();
+
+  await fs.mkdir(path.dirname(keyFile), { recursive: true });
+  await fs.writeFile(keyFile, contents, { mode: 0o600, flag: 'wx' });
+
+  return { keyFile, keyId: computeKeyFileId(parseKeyFile(Buffer.from(contents))) };
+}
+
+/**
+ * Rewrite the manifest of a package folder in the current format. The original
+ * is kept next to it; an existing backup is never overwritten.
+ */
+async function migrateManifest(
+  loader: ContentLoader,
+  manifest: Manifest,
+  basePath: string,
+  dryRun: boolean
+): Promise<NonNullable<PackageReport['migrate']>> {
+  const output = path.join(basePath, loader.getManifestEntryName());
+  const migration = loader.getMigration();
+  const signed = await fs.stat(path.join(basePath, SIGNATURE_FILE)).then(() => true, () => false);
+
+  if (!migration || migration.steps.length === 0 || dryRun) {
+    const pending = !!migration && migration.steps.length > 0;
+    return { output, written: false, signatureInvalidated: pending && signed };
+  }
+
+  const backup = `${output}.${migration.fromVersion}.bak`;
+  await fs.copyFile(output, backup, fs.constants.COPYFILE_EXCL);
+  await fs.writeFile(output, JSON.stringify(normalizeManifest(manifest, loader), null, 2) + '\n');
+  return { output, backup, written: true, signatureInvalidated: signed };
+}
+
+async function run(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+
+  if (args.command === 'keygen') {
+    if (!args.output) {
+      process.stderr.write(`keygen requires -o <name>\n\n${USAGE}`);
+      return EXIT_FAILURE;
+    }
+    try {
+      const result = args.encryption ? await generateEncryptionKey(args.output) : await generateKeyPair(args.output);
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+      return EXIT_OK;
+    } catch (error) {
+      process.stderr.write(`${(error as Error).message}\n`);
+      return EXIT_FAILURE;
+    }
+  }
+
+  if (!args.command || !args.input || !['validate', 'pack', 'sign', 'migrate'].includes(args.command)) {
+    process.stderr.write(USAGE);
+    return EXIT_FAILURE;
+  }
+  if (args.command === 'pack' && !args.output) {
+    process.stderr.write(`pack requires -o <output>\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+  if (args.command === 'sign' && !args.signingKey) {
+    process.stderr.write(`sign requires --key <private key>\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+  if (args.encrypt && !args.keyFile && args.passphrase === undefined) {
+    process.stderr.write(`--encrypt requires --key-file or --passphrase\n\n${USAGE}`);
+    return EXIT_FAILURE;
+  }
+
+  // ContentLoader logs to the console; keep stdout for the JSON report
+  const log = (...values: unknown[]) => process.stderr.write(values.map(String).join(' ') + '\n');
+  const quiet = () => {};
+  console.log = args.verbose ? log : quiet;
+  console.warn = args.verbose ? log : quiet;
+  console.error = args.verbose ? log : quiet;
+
+  const loader = new ContentLoader();
+  let report: PackageReport | null = null;
+
+  try {
+    const signingKey = args.signingKey ? await readPrivateKey(args.signingKey) : undefined;
+    const secret: PackageSecret = {
+      keyFile: args.keyFile ? await fs.readFile(path.resolve(args.keyFile)) : undefined,
+      passphrase: args.passphrase,
+    };
+    if (args.keysDir) {
+      loader.setTrustedKeys(await loadTrustedKeys(path.resolve(args.keysDir)));
+    }
+    
+    const inspected = await inspectPackage(loader, args.input, args.strict, secret);
+    report = inspected.report;
+
+    if (args.command === 'pack') {
+      if (!inspected.manifest) {
+        report.error = 'Manifest is invalid; not packing';
+      } else if (!report.valid && !args.force) {
+        report.error = 'Package has errors; not packing (use --force to override)';
+      } else {
+        const result = await writePackage(
+          inspected.manifest,
+          loader,
+          path.resolve(args.output!),
+          {
+            skipMissing: args.force,
+            signingKey,
+            signer: args.signer,
+            encryption: args.encrypt ? secret : undefined,
+          }
+        );
+        report.pack = { output: result.outputPath, bytes: result.bytes, entries: result.entries, skipped: result.skipped };
+      }
+    }
+
+    if (args.command === 'sign') {
+      const basePath = loader.getBasePath();
+      if (!inspected.manifest) {
+        report.error = 'Manifest is invalid; not signing';
+      } else if (!basePath) {
+        report.error = 'Only package folders can be signed in place; use pack --sign for archives';
+      } else if (!report.valid && !args.force) {
+        report.error = 'Package has errors; not signing (use --force to override)';
+      } else {
+        const hashes = await hashEntries(loader.getSignatureSource(inspected.manifest));
+        const signature = createSignature(hashes, signingKey!, args.signer);
+        const output = path.join(basePath, SIGNATURE_FILE);
+        await fs.writeFile(output, JSON.stringify(signature, null, 2) + '\n');
+        report.sign = { output, keyId: signature.keyId, files: Object.keys(hashes).length };
+      }
+    }
+
+    if (args.command === 'migrate') {
+      const basePath = loader.getBasePath();
+      if (!inspected.manifest) {
+        report.error = 'Manifest is invalid; not migrating';
+      } else if (!basePath) {
+        report.error = `Only package folders can be migrated in place; pack archives again to upgrade them to ${CURRENT_MANIFEST_VERSION}`;
+      } else {
+        report.migrate = await migrateManifest(loader, inspected.manifest, basePath, args.dryRun);
+      }
+    }
+  } catch (error) {
+    report = report || {
+      package: path.resolve(args.input),
+      schema: MANIFEST_SCHEMA_ID,
+      valid: false,
+      validationErrors: [],
+      lintFindings: [],
+      summary: { errors: 1, warnings: 0 },
+    };
+    report.valid = false;
+    report.error = (error as Error).message;
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+    return EXIT_FAILURE;
+  } finally {
+    await loader.cleanup();
+  }
+
+  process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  if (report.error) {
+    return EXIT_INVALID;
+  }
+  return report.valid ? EXIT_OK : EXIT_INVALID;
+}
+
+run(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    process.stderr.write(`${(error as Error).stack || error}\n`);
+    process.exitCode = EXIT_FAILURE;
+  }
+);
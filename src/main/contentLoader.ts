@@ -1,7 +1,23 @@
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import JSZip from 'jszip';
+import { Readable } from 'stream';
+import { ZipArchive, ZipEntry, METHOD_STORED } from './zipArchive';
+import { toEntryName } from './packageWriter';
+import { assertRealPathInsideRoot, normalizeEntryName, resolveInsideRoot } from './pathSafety';
+import { validateManifestText, ManifestValidationError } from './manifestValidator';
+import { createDefaultMigrations, ManifestMigrationRegistry, ManifestMigrationResult } from './manifestMigrations';
+import { lintManifest } from './manifestLinter';
+import { SIGNATURE_FILE, SignatureSource, TrustedKey, verifyPackageSignature } from './packageSignature';
+import {
+  ENCRYPTION_FILE,
+  KEY_FILE_EXTENSION,
+  PackageCipher,
+  PackageSecret,
+  parseEncryptionHeader,
+} from './packageEncryption';
+import { ManifestLintFinding, PackageSignatureStatus } from '../types/index';
 
 export interface Manifest {
   version: string;
@@ -12,35 +28,133 @@ export interface Manifest {
     author?: string;
     created?: string;
   };
+  // What the master clock follows; 'video' when omitted
+  clock_source?: 'wall' | 'video' | 'audio';
   tracks: Track[];
 }
 
 export interface Track {
   id: string;
   type: 'video' | 'audio' | 'html' | 'subtitle';
+  settings: TrackSettings;
   items: TrackItem[];
 }
 
+export interface TrackSettings {
+  enabled: boolean;
+  volume: number;
+  muted: boolean;
+  role?: 'narration' | 'music' | 'sfx';
+  language?: string;
+  label?: string;
+  time_stretch?: 'native' | 'wsola' | 'soundtouch';
+}
+
 export interface TrackItem {
   id: string;
   file: string;
   start_ms: number;
   duration_ms?: number;
   end_ms?: number;
+  // Trim points within the media file; the item plays media_start_ms..media_end_ms
+  media_start_ms?: number;
+  media_end_ms?: number;
   layer?: number;
+  transition?: {
+    type: 'fade-through-black' | 'cross-dissolve' | 'wipe';
+    duration_ms: number;
+  };
+  fade_in_ms?: number;
+  fade_out_ms?: number;
+  volume?: Array<{ time_ms: number; value: number }>;
   metadata?: any;
 }
 
+// Default URL prefix for package files; mounted packages get content://pkg-<id>/
+export const PACKAGE_URL_PREFIX = 'content://package/';
+
+export function toPackageUrl(entryName: string, prefix: string = PACKAGE_URL_PREFIX): string {
+  return prefix + entryName.split('/').map(encodeURIComponent).join('/');
+}
+
+export function fromPackageUrl(url: string, prefix: string = PACKAGE_URL_PREFIX): string | null {
+  if (!url.startsWith(prefix)) {
+    return null;
+  }
+  return url.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+}
+
+export interface PackageEntryInfo {
+  size: number;
+  // Stored entries can be served at any byte range directly from the archive
+  rangeable: boolean;
+}
+
+export interface ContentLoaderOptions {
+  // Prefix of the content:// URLs item files are rewritten to
+  urlPrefix?: string;
+  // Upgrades older manifest versions; defaults to the built-in migrations
+  migrations?: ManifestMigrationRegistry;
+}
+
+/**
+ * Loads one content package (folder, manifest.json or .zip/.pak) and serves its
+ * files by entry name. Item files in the returned manifest are package URLs.
+ */
 export class ContentLoader {
+  readonly urlPrefix: string;
+  private readonly migrations: ManifestMigrationRegistry;
+  private migration: ManifestMigrationResult | null = null;
+  private schemaId: string | null = null;
   private currentPackagePath: string | null = null;
+  private archive: ZipArchive | null = null;
   private extractedPath: string | null = null;
+  private extractions = new Map<string, Promise<string>>();
+  private basePath: string | null = null;
+  // An unpacked package folder was opened, rather than an archive or a loose manifest
+  private isFolder = false;
+  private lintFindings: ManifestLintFinding[] = [];
+  private manifestEntryName = 'manifest.json';
+  private trustedKeys: TrustedKey[] = [];
+  private signatureStatus: PackageSignatureStatus | null = null;
+  private cipher: PackageCipher | null = null;
+  private keyFileDirs: string[] = [];
+
+  constructor(options: ContentLoaderOptions = {}) {
+    this.urlPrefix = options.urlPrefix || PACKAGE_URL_PREFIX;
+    this.migrations = options.migrations || createDefaultMigrations();
+  }
+
+  /**
+   * Public keys accepted for signature.json verification
+   */
+  setTrustedKeys(keys: TrustedKey[]): void {
+    this.trustedKeys = keys;
+  }
+
+  /**
+   * Folders searched for <keyId>.cbtkey files of encrypted packages
+   */
+  setKeyFileDirs(dirs: string[]): void {
+    this.keyFileDirs = dirs;
+  }
 
-  async loadPackage(packagePath: string): Promise<Manifest> {
+  async loadPackage(packagePath: string, secret: PackageSecret = {}): Promise<Manifest> {
     console.log('[ContentLoader] Loading package:', packagePath);
     const ext = path.extname(packagePath).toLowerCase();
     
+    // Release the previous package (archive handle, fallback extraction folder)
+    await this.cleanup();
+    
+    // Unpacked package folder containing manifest.json
+    const stats = await fs.stat(packagePath);
+    if (stats.isDirectory()) {
+      this.isFolder = true;
+      return this.loadManifest(path.join(packagePath, 'manifest.json'));
+    }
+    
     if (ext === '.zip' || ext === '.pak') {
-      return this.loadZipPackage(packagePath);
+      return this.loadZipPackage(packagePath, secret);
     } else if (ext === '.json') {
       return this.loadManifest(packagePath);
     }
@@ -48,106 +162,441 @@ export class ContentLoader {
     throw new Error(`Unsupported package format: ${ext}`);
   }
 
-  async loadZipPackage(zipPath: string): Promise<Manifest> {
+  /**
+   * Mount a ZIP package without extracting it. Only the central directory and
+   * manifest.json are read here; media is streamed from the archive on request.
+   */
+  async loadZipPackage(zipPath: string, secret: PackageSecret = {}): Promise<Manifest> {
     console.log('[ContentLoader] Loading ZIP package:', zipPath);
     
+    const archive = await ZipArchive.open(zipPath);
     try {
-      const data = await fs.readFile(zipPath);
-      console.log('[ContentLoader] ZIP file read, size:', data.length, 'bytes');
-      
-      const zip = await JSZip.loadAsync(data);
-      console.log('[ContentLoader] ZIP loaded, files:', Object.keys(zip.files).length);
-      
-      // Extract to temp directory
-      const tempDir = path.join(process.env.TEMP || '/tmp', `cbt-content-${Date.now()}`);
-      await fs.mkdir(tempDir, { recursive: true });
-      console.log('[ContentLoader] Extracting to:', tempDir);
+      console.log('[ContentLoader] ZIP opened, entries:', archive.entries.length);
       
-      // Extract all files
-      let extractedCount = 0;
-      for (const [fileName, file] of Object.entries(zip.files)) {
-        if (!file.dir) {
-          const filePath = path.join(tempDir, fileName);
-          const dirPath = path.dirname(filePath);
-          
-          await fs.mkdir(dirPath, { recursive: true });
-          const content = await file.async('nodebuffer');
-          await fs.writeFile(filePath, content);
-          extractedCount++;
-          console.log('[ContentLoader] Extracted:', fileName, '(' + content.length + ' bytes)');
-        }
+      // Reject the whole archive if any entry could land outside the package (zip-slip)
+      for (const entry of archive.entries) {
+        normalizeEntryName(entry.name);
       }
-      console.log('[ContentLoader] Extracted', extractedCount, 'files');
       
-      // Load manifest
-      const manifestPath = path.join(tempDir, 'manifest.json');
-      console.log('[ContentLoader] Loading manifest from:', manifestPath);
+      // Encrypted variant: unlock the content key before anything else is read
+      const encryptionEntry = archive.getEntry(ENCRYPTION_FILE);
+      this.cipher = encryptionEntry ? await this.unlockArchive(zipPath, archive, encryptionEntry, secret) : null;
       
-      const manifestExists = await fs.access(manifestPath).then(() => true).catch(() => false);
-      if (!manifestExists) {
+      const manifestEntry = archive.getEntry('manifest.json');
+      if (!manifestEntry) {
         throw new Error('manifest.json not found in ZIP package');
       }
       
-      const manifest = await this.loadManifest(manifestPath);
-      console.log('[ContentLoader] Manifest loaded, duration:', manifest.duration_ms, 'ms');
+      const content = (await this.readArchiveEntry(archive, manifestEntry)).toString('utf-8');
+      const manifest = this.parseManifest(content, `${zipPath}/manifest.json`);
       
-      // Don't update paths again - loadManifest already does this
-      // The paths are already updated to be absolute in loadManifest
+      // Point items at archive entries; the content:// handler serves them
+      for (const track of manifest.tracks) {
+        for (const item of track.items) {
+          item.file = toPackageUrl(normalizeEntryName(item.file), this.urlPrefix);
+        }
+      }
       
+      this.archive = archive;
       this.currentPackagePath = zipPath;
-      this.extractedPath = tempDir;
+      this.basePath = null;
+      this.manifestEntryName = 'manifest.json';
+      
+      this.runLint(manifest);
+      await this.verifySignature(manifest);
       
-      console.log('[ContentLoader] ZIP package loaded successfully');
+      console.log('[ContentLoader] ZIP package mounted, duration:', manifest.duration_ms, 'ms');
       return manifest;
     } catch (error) {
       console.error('[ContentLoader] Error loading ZIP package:', error);
+      this.cipher = null;
+      await archive.close();
       throw error;
     }
   }
 
+  private async unlockArchive(
+    zipPath: string,
+    archive: ZipArchive,
+    encryptionEntry: ZipEntry,
+    secret: PackageSecret
+  ): Promise<PackageCipher> {
+    const header = parseEncryptionHeader(await archive.readEntry(encryptionEntry));
+    
+    // Key files are looked up next to the package and in the configured key folders
+    if (header.key.kind === 'keyfile' && !secret.keyFile) {
+      const candidates = [
+        zipPath.slice(0, zipPath.length - path.extname(zipPath).length) + KEY_FILE_EXTENSION,
+        ...this.keyFileDirs.map(dir => path.join(dir, `${header.key.keyId}${KEY_FILE_EXTENSION}`)),
+      ];
+      for (const candidate of candidates) {
+        const keyFile = await fs.readFile(candidate).catch(() => null);
+        if (keyFile) {
+          console.log('[ContentLoader] Using key file:', candidate);
+          secret = { ...secret, keyFile };
+          break;
+        }
+      }
+    }
+    
+    const cipher = await PackageCipher.unlock(zipPath, header, secret);
+    
+    // Ciphertext must be stored so ranges can be decrypted without inflating
+    for (const entryName of cipher.entryNames) {
+      const entry = archive.getEntry(entryName);
+      if (entry && (entry.method !== METHOD_STORED || entry.size !== cipher.encryptedSize(entryName))) {
+        throw new Error(`Encrypted entry is not stored as expected: ${entryName}`);
+      }
+    }
+    console.log('[ContentLoader] Encrypted package unlocked,', cipher.entryNames.length, 'entries');
+    return cipher;
+  }
+
+  /**
+   * Whole plaintext of an archive entry, decrypting it if the package is encrypted
+   */
+  private async readArchiveEntry(archive: ZipArchive, entry: ZipEntry): Promise<Buffer> {
+    const data = await archive.readEntry(entry);
+    return this.cipher?.getEntry(entry.name) ? this.cipher.decryptBuffer(entry.name, data) : data;
+  }
+
+  private async streamArchiveEntry(archive: ZipArchive, entry: ZipEntry, range?: { start: number; end: number }): Promise<Readable> {
+    if (this.cipher?.getEntry(entry.name)) {
+      return this.cipher.createDecryptStream(
+        entry.name,
+        (start, end) => archive.createReadStream(entry, { start, end }),
+        range
+      );
+    }
+    return archive.createReadStream(entry, range);
+  }
+
   async loadManifest(manifestPath: string): Promise<Manifest> {
     console.log('[ContentLoader] Loading manifest:', manifestPath);
     
     const content = await fs.readFile(manifestPath, 'utf-8');
-    const manifest = JSON.parse(content) as Manifest;
-    
-    console.log('[ContentLoader] Manifest parsed, tracks:', manifest.tracks.length);
-    
-    // Validate manifest structure
-    this.validateManifest(manifest);
+    const manifest = this.parseManifest(content, manifestPath);
     
-    // Update paths to be absolute
+    // Point items at package URLs resolved against the manifest folder
     const basePath = path.dirname(manifestPath);
     console.log('[ContentLoader] Base path for files:', basePath);
     this.updateManifestPaths(manifest, basePath);
+    this.basePath = basePath;
+    this.currentPackagePath = manifestPath;
+    this.manifestEntryName = path.basename(manifestPath);
     
+    this.runLint(manifest);
+    await this.verifySignature(manifest);
     return manifest;
   }
 
-  private validateManifest(manifest: Manifest): void {
-    if (!manifest.version) {
-      throw new Error('Manifest missing version');
-    }
+  private parseManifest(content: string, source: string): Manifest {
+    this.lintFindings = [];
+    this.signatureStatus = null;
+    this.migration = null;
     
-    if (!manifest.duration_ms || manifest.duration_ms <= 0) {
-      throw new Error('Invalid duration_ms in manifest');
+    // Validate against the schema of the declared version, collecting every error with its location
+    const { value, issues, schemaId } = validateManifestText(content);
+    this.schemaId = schemaId;
+    if (issues.length > 0) {
+      throw new ManifestValidationError(source, issues);
     }
     
-    if (!manifest.tracks || !Array.isArray(manifest.tracks)) {
-      throw new Error('Manifest missing tracks array');
+    // Older versions are upgraded in memory; the package itself is left untouched
+    this.migration = this.migrations.migrate(value as Manifest, source);
+    const manifest = this.migration.manifest as Manifest;
+    if (this.migration.steps.length > 0) {
+      console.log('[ContentLoader] Manifest migrated:', this.migration.steps.join('; '));
     }
     
-    for (const track of manifest.tracks) {
-      if (!track.id || !track.type || !track.items) {
-        throw new Error(`Invalid track structure: ${track.id}`);
+    console.log('[ContentLoader] Manifest parsed, tracks:', manifest.tracks.length);
+    return manifest;
+  }
+
+  private runLint(manifest: Manifest): void {
+    const fileExists = (file: string) => {
+      try {
+        return this.getPackageEntry(this.getEntryName(file)) !== null;
+      } catch {
+        return false;
       }
-      
-      for (const item of track.items) {
-        if (!item.id || !item.file || item.start_ms === undefined) {
-          throw new Error(`Invalid item in track ${track.id}: ${item.id}`);
+    };
+    // Findings name files as the manifest does, not by their content:// URL
+    const describeFile = (file: string) => {
+      try {
+        return this.getEntryName(file);
+      } catch {
+        return file;
+      }
+    };
+    
+    // Semantic timeline checks; findings are reported, not thrown
+    this.lintFindings = lintManifest(manifest, { fileExists, describeFile });
+    const lintErrors = this.lintFindings.filter(f => f.level === 'error').length;
+    console.log('[ContentLoader] Lint:', lintErrors, 'errors,', this.lintFindings.length - lintErrors, 'warnings');
+  }
+
+  private async verifySignature(manifest: Manifest): Promise<PackageSignatureStatus> {
+    this.signatureStatus = await verifyPackageSignature(this.getSignatureSource(manifest), this.trustedKeys);
+    console.log('[ContentLoader] Signature:', this.signatureStatus.state, '-', this.signatureStatus.reason);
+    return this.signatureStatus;
+  }
+
+  /**
+   * Check the files of the loaded package against its signature again, e.g.
+   * after files of an unpacked package changed on disk
+   */
+  reverifySignature(manifest: Manifest): Promise<PackageSignatureStatus> {
+    return this.verifySignature(manifest);
+  }
+
+  /**
+   * Package files as seen by signature creation and verification
+   */
+  getSignatureSource(manifest: Manifest): SignatureSource {
+    return {
+      readSignature: async () => {
+        const stream = await this.openEntry(SIGNATURE_FILE);
+        if (!stream) {
+          return null;
         }
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+          chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+      },
+      requiredEntries: async () => {
+        const names = new Set([this.manifestEntryName]);
+        for (const track of manifest.tracks) {
+          for (const item of track.items) {
+            names.add(this.getEntryName(item.file));
+          }
+        }
+        // Everything shipped in the package is covered, not just what the manifest references.
+        // encryption.json needs no hash: altering it makes decryption fail. The folder around
+        // a loose manifest is not the package: only the manifest and its files are covered.
+        const shipped = this.archive
+          ? this.archive.entries.filter(entry => !entry.isDirectory).map(entry => entry.name)
+          : this.isFolder ? await this.listFolderEntries() : [];
+        for (const entryName of shipped) {
+          if (entryName !== SIGNATURE_FILE && entryName !== ENCRYPTION_FILE) {
+            names.add(entryName);
+          }
+        }
+        return [...names].sort();
+      },
+      openEntry: entryName => this.openEntry(entryName),
+    };
+  }
+
+  private async openEntry(entryName: string): Promise<Readable | null> {
+    if (this.archive) {
+      const entry = this.archive.getEntry(normalizeEntryName(entryName));
+      return entry && !entry.isDirectory ? this.streamArchiveEntry(this.archive, entry) : null;
+    }
+    const filePath = this.resolveFolderEntry(entryName);
+    return filePath && fsSync.existsSync(filePath) ? fsSync.createReadStream(filePath) : null;
+  }
+
+  /**
+   * Entry names of every file under an unpacked package folder. Symlinked
+   * folders are not followed, as by the package watcher.
+   */
+  private async listFolderEntries(folder: string | null = this.basePath): Promise<string[]> {
+    if (!this.basePath || !folder) {
+      return [];
+    }
+    const entryNames: string[] = [];
+    for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+      const filePath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        entryNames.push(...await this.listFolderEntries(filePath));
+      } else if (entry.isFile()) {
+        entryNames.push(toEntryName(this.basePath, filePath));
+      }
+    }
+    return entryNames;
+  }
+
+  /**
+   * Path of an entry of an unpacked package folder, confined to the folder
+   */
+  private resolveFolderEntry(entryName: string): string | null {
+    if (!this.basePath) {
+      return null;
+    }
+    const filePath = resolveInsideRoot(this.basePath, entryName);
+    assertRealPathInsideRoot(this.basePath, filePath);
+    return filePath;
+  }
+
+  /**
+   * Whether the mounted package is encrypted (content is decrypted in memory only)
+   */
+  isEncrypted(): boolean {
+    return this.cipher !== null;
+  }
+
+  /**
+   * Integrity state of the most recently loaded package
+   */
+  getSignatureStatus(): PackageSignatureStatus | null {
+    return this.signatureStatus;
+  }
+
+  /**
+   * Whether the package came with a signature, whatever its state
+   */
+  isSigned(): boolean {
+    const status = this.signatureStatus;
+    return status !== null && (status.state !== 'unverified' || status.keyId !== undefined);
+  }
+
+  /**
+   * Folder of an unpacked package, which item entry names resolve against
+   * (null for ZIP packages)
+   */
+  getBasePath(): string | null {
+    return this.basePath;
+  }
+
+  /**
+   * Whether the package is an unpacked package folder. A loose manifest also
+   * has a base path, but the folder around it (e.g. Downloads) is not the package.
+   */
+  isPackageFolder(): boolean {
+    return this.isFolder;
+  }
+
+  /**
+   * Entry name of the loaded manifest (manifest.json, or the file name of a loose manifest)
+   */
+  getManifestEntryName(): string {
+    return this.manifestEntryName;
+  }
+
+  /**
+   * Findings from the lint pass of the most recently loaded manifest
+   */
+  getLintFindings(): ManifestLintFinding[] {
+    return this.lintFindings;
+  }
+
+  /**
+   * Id of the schema the last manifest read was validated against, also when it
+   * failed validation (null before any manifest was read)
+   */
+  getSchemaId(): string | null {
+    return this.schemaId;
+  }
+
+  /**
+   * How the loaded manifest was upgraded to the current version (no steps if it already was)
+   */
+  getMigration(): ManifestMigrationResult | null {
+    return this.migration;
+  }
+
+  /**
+   * Package-relative entry name for an item file
+   */
+  getEntryName(file: string): string {
+    const entryName = fromPackageUrl(file, this.urlPrefix);
+    if (entryName !== null) {
+      return entryName;
+    }
+    if (!this.basePath) {
+      throw new Error(`No package folder to resolve file against: ${file}`);
+    }
+    return toEntryName(this.basePath, file);
+  }
+
+  /**
+   * Read an item file from the loaded package; null if it does not exist
+   */
+  async readItemFile(file: string): Promise<Buffer | null> {
+    const entryName = this.getEntryName(file);
+    if (this.archive) {
+      const entry = this.archive.getEntry(entryName);
+      return entry ? this.readArchiveEntry(this.archive, entry) : null;
+    }
+    const filePath = this.resolveFolderEntry(entryName);
+    return filePath ? fs.readFile(filePath).catch(() => null) : null;
+  }
+
+  /**
+   * Size and streaming capability of a package entry, or null if it does not exist
+   */
+  getPackageEntry(entryName: string): PackageEntryInfo | null {
+    if (!this.archive) {
+      const filePath = this.resolveFolderEntry(entryName);
+      const stats = filePath ? fsSync.statSync(filePath, { throwIfNoEntry: false }) : undefined;
+      return stats?.isFile() ? { size: stats.size, rangeable: true } : null;
+    }
+    
+    const entry = this.archive.getEntry(normalizeEntryName(entryName));
+    if (!entry || entry.isDirectory) {
+      return null;
+    }
+    // Encrypted entries are decrypted chunk by chunk for any range
+    const encrypted = this.cipher?.getEntry(entry.name);
+    if (encrypted) {
+      return { size: encrypted.size, rangeable: true };
+    }
+    return { size: entry.size, rangeable: this.archive.isRangeable(entry) };
+  }
+
+  /**
+   * Stream a package entry, optionally an inclusive byte range of a rangeable entry
+   */
+  async createEntryStream(entryName: string, range?: { start: number; end: number }): Promise<Readable> {
+    if (!this.archive) {
+      const filePath = this.resolveFolderEntry(entryName);
+      if (!filePath) {
+        throw new Error(`Entry not found in package: ${entryName}`);
       }
+      return fsSync.createReadStream(filePath, range);
+    }
+    
+    const entry = this.archive.getEntry(normalizeEntryName(entryName));
+    if (!entry) {
+      throw new Error(`Entry not found in package: ${entryName}`);
+    }
+    return this.streamArchiveEntry(this.archive, entry, range);
+  }
+
+  /**
+   * Fallback for compressed entries that need random access (e.g. seeking in
+   * DEFLATEd media): extract the entry once to the temp folder and return its path.
+   */
+  async extractEntry(entryName: string): Promise<string> {
+    entryName = normalizeEntryName(entryName);
+    const entry = this.archive?.getEntry(entryName);
+    if (!entry) {
+      throw new Error(`Entry not found in package: ${entryName}`);
+    }
+    // Plaintext of encrypted packages must never be written to disk
+    if (this.cipher?.getEntry(entryName)) {
+      throw new Error(`Refusing to extract encrypted entry: ${entryName}`);
+    }
+    
+    let extraction = this.extractions.get(entryName);
+    if (!extraction) {
+      extraction = (async () => {
+        if (!this.extractedPath) {
+          this.extractedPath = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-content-'));
+        }
+        const filePath = resolveInsideRoot(this.extractedPath, entryName);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await this.archive!.extractEntry(entry, filePath);
+        console.log('[ContentLoader] Extracted compressed entry:', entryName, '(' + entry.size + ' bytes)');
+        return filePath;
+      })();
+      this.extractions.set(entryName, extraction);
+      extraction.catch(() => this.extractions.delete(entryName));
     }
+    return extraction;
   }
 
   private updateManifestPaths(manifest: Manifest, basePath: string): void {
@@ -157,24 +606,38 @@ export class ContentLoader {
       console.log(`[ContentLoader] Processing track: ${track.type} with ${track.items.length} items`);
       
       for (const item of track.items) {
-        if (!path.isAbsolute(item.file)) {
-          const originalPath = item.file;
-          // Use path.resolve to get the absolute path correctly
-          item.file = path.resolve(basePath, item.file);
-          
-          // Check if file exists
-          const exists = fsSync.existsSync(item.file);
-          console.log(`[ContentLoader] Updated path: ${originalPath} -> ${item.file} (exists: ${exists})`);
-          
-          if (!exists) {
-            console.error(`[ContentLoader] WARNING: File does not exist: ${item.file}`);
-          }
+        const originalPath = item.file;
+        // Use path.resolve to get the absolute path correctly
+        const filePath = path.isAbsolute(item.file) ? item.file : resolveInsideRoot(basePath, item.file);
+        
+        // Absolute references and symlinks must not reach outside the package either
+        assertRealPathInsideRoot(basePath, filePath);
+        item.file = toPackageUrl(toEntryName(basePath, filePath), this.urlPrefix);
+        
+        // Check if file exists
+        const exists = fsSync.existsSync(filePath);
+        console.log(`[ContentLoader] Updated path: ${originalPath} -> ${item.file} (exists: ${exists})`);
+        
+        if (!exists) {
+          console.error(`[ContentLoader] WARNING: File does not exist: ${filePath}`);
         }
       }
     }
   }
 
   async cleanup(): Promise<void> {
+    if (this.archive) {
+      try {
+        await this.archive.close();
+      } catch (error) {
+        console.error('Failed to close package archive:', error);
+      }
+      this.archive = null;
+    }
+    this.cipher = null;
+    this.isFolder = false;
+    this.extractions.clear();
+    
     if (this.extractedPath) {
       try {
         await fs.rm(this.extractedPath, { recursive: true, force: true });
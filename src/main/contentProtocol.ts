@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ContentLoader } from './contentLoader';
+import { PackageRegistry } from './packageRegistry';
+import { PathTraversalError } from './pathSafety';
+
+/**
+ * content:// protocol handler.
+ *
+ * Files are served as content://pkg-<id>/<entry>, where <id> is a package
+ * mounted in the PackageRegistry and <entry> is a path inside that package
+ * (archive entry or file below the package folder).
+ *
+ * Stored archive entries and folder files are streamed with byte-range support.
+ * Compressed entries cannot be seeked into, so they are extracted to the temp
+ * folder on first request and then served like files on disk.
+ *
+ * Requests are confined to their package: entry names that escape the package
+ * root and any URL that is not a package URL get 403 Forbidden; packages that
+ * are not (or no longer) mounted get 404.
+ */
+
+const RANGE_EXTENSIONS = ['.mp4', '.webm', '.mp3', '.wav', '.m4a'];
+
+export function getMimeType(ext: string): string {
+  switch (ext) {
+    case '.mp4':
+      return 'video/mp4';
+    case '.webm':
+      return 'video/webm';
+    case '.ogg':
+    case '.ogv':
+      return 'video/ogg';
+    case '.wav':
+      return 'audio/wav';
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.m4a':
+      return 'audio/mp4';
+    case '.vtt':
+      return 'text/vtt';
+    case '.html':
+      return 'text/html';
+    case '.css':
+      return 'text/css';
+    case '.js':
+      return 'application/javascript';
+    case '.json':
+      return 'application/json';
+    case '.png':
+      return 'image/png';
+    case '.jpg':
+    case '.jpeg':
+      return 'image/jpeg';
+    default:
+      return 'application/octet-stream';
+  }
+}
+
+// Helper function to parse Range header
+export function parseRangeHeader(rangeHeader: string, fileSize: number): { start: number; end: number } | null {
+  const matches = rangeHeader.match(/bytes=(\d*)-(\d*)/);
+
+  if (!matches) {
+    return null;
+  }
+
+  const startStr = matches[1];
+  const endStr = matches[2];
+
+  let start: number;
+  let end: number;
+
+  if (startStr === '' && endStr === '') {
+    return null;
+  } else if (startStr === '') {
+    // Range: bytes=-100 (last 100 bytes)
+    const suffixLength = parseInt(endStr, 10);
+    if (suffixLength === 0) {
+      return null;
+    }
+    start = Math.max(0, fileSize - suffixLength);
+    end = fileSize - 1;
+  } else if (endStr === '') {
+    // Range: bytes=100- (from byte 100 to end)
+    start = parseInt(startStr, 10);
+    end = fileSize - 1;
+  } else {
+    // Range: bytes=100-200
+    start = parseInt(startStr, 10);
+    end = Math.min(parseInt(endStr, 10), fileSize - 1);
+  }
+
+  // Validate range
+  if (start < 0 || end >= fileSize || start > end) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+function baseHeaders(ext: string, size: number): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': getMimeType(ext),
+    'Content-Length': size.toString(),
+    'Cache-Control': 'no-cache',
+    'Accept-Ranges': 'bytes'
+  };
+
+  // Audio is played through Web Audio from a crossorigin element, which needs a CORS response
+  if (headers['Content-Type'].startsWith('audio/')) {
+    headers['Access-Control-Allow-Origin'] = '*';
+  }
+
+  // Add headers for HTML files to allow iframe embedding
+  if (ext === '.html') {
+    headers['X-Frame-Options'] = 'SAMEORIGIN';
+    // Allow content:// protocol in CSP
+    headers['Content-Security-Policy'] = "default-src 'self' 'unsafe-inline' 'unsafe-eval' content: file: data:; frame-ancestors 'self' content: file:;";
+  }
+  return headers;
+}
+
+function rangeNotSatisfiable(size: number): Response {
+  return new Response('Range Not Satisfiable', {
+    status: 416,
+    statusText: 'Range Not Satisfiable',
+    headers: {
+      'Content-Range': `bytes */${size}`
+    }
+  });
+}
+
+function forbidden(): Response {
+  return new Response('Forbidden', {
+    status: 403,
+    statusText: 'Forbidden'
+  });
+}
+
+function notFound(): Response {
+  return new Response('File not found', {
+    status: 404,
+    statusText: 'Not Found'
+  });
+}
+
+function streamBody(stream: Readable): ReadableStream {
+  return Readable.toWeb(stream) as ReadableStream;
+}
+
+async function servePackageEntry(request: Request, contentLoader: ContentLoader, entryName: string): Promise<Response> {
+  const entry = contentLoader.getPackageEntry(entryName);
+  if (!entry) {
+    console.error('[Protocol] Entry not found in package:', entryName);
+    return notFound();
+  }
+
+  if (!entry.rangeable) {
+    // Compressed entry: extract once, then serve from disk with full range support
+    return serveFile(request, await contentLoader.extractEntry(entryName));
+  }
+
+  const ext = path.extname(entryName).toLowerCase();
+  const rangeHeader = request.headers.get('range');
+
+  if (rangeHeader) {
+    const range = parseRangeHeader(rangeHeader, entry.size);
+    if (!range) {
+      return rangeNotSatisfiable(entry.size);
+    }
+
+    const stream = await contentLoader.createEntryStream(entryName, range);
+    return new Response(streamBody(stream), {
+      status: 206,
+      statusText: 'Partial Content',
+      headers: {
+        ...baseHeaders(ext, range.end - range.start + 1),
+        'Content-Range': `bytes ${range.start}-${range.end}/${entry.size}`
+      }
+    });
+  }
+
+  const stream = await contentLoader.createEntryStream(entryName);
+  return new Response(streamBody(stream), {
+    status: 200,
+    statusText: 'OK',
+    headers: baseHeaders(ext, entry.size)
+  });
+}
+
+function serveFile(request: Request, filePath: string): Response {
+  // Check if file exists
+  if (!fs.existsSync(filePath)) {
+    console.error('[Protocol] File not found:', filePath);
+    return notFound();
+  }
+
+  const fileSize = fs.statSync(filePath).size;
+  const ext = path.extname(filePath).toLowerCase();
+
+  // Check for Range header (for media seeking support)
+  const rangeHeader = request.headers.get('range');
+
+  if (rangeHeader && RANGE_EXTENSIONS.includes(ext)) {
+    const range = parseRangeHeader(rangeHeader, fileSize);
+    if (!range) {
+      return rangeNotSatisfiable(fileSize);
+    }
+
+    // Read only the requested range
+    const stream = fs.createReadStream(filePath, { start: range.start, end: range.end });
+    return new Response(streamBody(stream), {
+      status: 206,
+      statusText: 'Partial Content',
+      headers: {
+        ...baseHeaders(ext, range.end - range.start + 1),
+        'Content-Range': `bytes ${range.start}-${range.end}/${fileSize}`
+      }
+    });
+  }
+
+  return new Response(fs.readFileSync(filePath), {
+    status: 200,
+    statusText: 'OK',
+    headers: baseHeaders(ext, fileSize)
+  });
+}
+
+export function createContentHandler(registry: PackageRegistry): (request: Request) => Promise<Response> {
+  return async (request) => {
+    // console.log('[Protocol] Request:', request.method, request.url, request.headers.get('range'));
+
+    try {
+      // Relative links inside packaged HTML may carry a query or fragment
+      const resolved = registry.resolveUrl(request.url.split(/[?#]/)[0]);
+      if (resolved === undefined) {
+        console.error('[Protocol] Package is not mounted:', request.url);
+        return notFound();
+      }
+      
+      // The renderer controls the URL; only entries of mounted packages are served
+      if (resolved === null) {
+        console.error('[Protocol] Blocked request outside any package:', request.url);
+        return forbidden();
+      }
+      
+      return await servePackageEntry(request, resolved.loader, resolved.entryName);
+    } catch (error) {
+      if (error instanceof PathTraversalError) {
+        console.error('[Protocol] Blocked request outside the package:', request.url, '-', error.reason);
+        return forbidden();
+      }
+
+      console.error('[Protocol] Error loading file:', error);
+      return new Response('File read error', {
+        status: 500,
+        statusText: 'Internal Server Error'
+      });
+    }
+  };
+}
@@ -1,13 +1,25 @@
 import { app, BrowserWindow, ipcMain, dialog, protocol, net, Menu, globalShortcut } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ContentLoader } from './contentLoader';
+import { toPackageUrl } from './contentLoader';
+import { createContentHandler } from './contentProtocol';
+import { MountedPackage, PackageRegistry } from './packageRegistry';
+import { RecentPackages } from './recentPackages';
+import { PreferencesStore } from './userPreferences';
+import { ManifestValidationError } from './manifestValidator';
+import { ManifestVersionError } from './manifestMigrations';
+import { PathTraversalError } from './pathSafety';
+import { loadTrustedKeys } from './packageSignature';
+import { KEY_FILE_EXTENSION, PackageKeyError, PackageLockedError, PackageSecret } from './packageEncryption';
+import { PackageSession, SyncReportFormat, UserPreferences } from '../types/index';
 import { FileServer } from './fileServer';
 // MediaProtocolHandlerLegacy is no longer needed - using unified content:// protocol
 // import { MediaProtocolHandlerLegacy } from './protocols/mediaProtocolHandlerLegacy';
 
 let mainWindow: BrowserWindow | null = null;
-let contentLoader: ContentLoader;
+let packageRegistry: PackageRegistry;
+let recentPackages: RecentPackages;
+let preferences: PreferencesStore;
 let fileServer: FileServer;
 
 const isDev = process.argv.includes('--dev');
@@ -25,7 +37,7 @@ protocol.registerSchemesAsPrivileged([
       supportFetchAPI: true,
       stream: true,
       bypassCSP: true,
-      corsEnabled: false
+      corsEnabled: true
     }
   }
 ]);
@@ -84,6 +96,14 @@ function createWindow() {
     : `file://${path.join(__dirname, '../renderer/index.html')}`;
 
   mainWindow.loadURL(indexPath);
+  
+  // A file dropped outside the drop target would replace the app; App opens drops itself
+  mainWindow.webContents.on('will-navigate', (event, url) => {
+    if (url !== indexPath) {
+      console.warn('[Main] Blocked navigation to:', url);
+      event.preventDefault();
+    }
+  });
 
   if (isDev) {
     mainWindow.webContents.openDevTools();
@@ -118,225 +138,14 @@ function createWindow() {
   });
 }
 
-// Protocol for serving local content files with byte-range support for media
+// Protocol for serving package files with byte-range support for media
 function setupProtocol() {
-  // console.log('[Protocol] Setting up content:// protocol handler with byte-range support');
-  
-  protocol.handle('content', async (request) => {
-    // console.log('[Protocol] ========== REQUEST START ==========');
-    // console.log('[Protocol] Full request URL:', request.url);
-    // console.log('[Protocol] Request method:', request.method);
-    // console.log('[Protocol] Request headers:', JSON.stringify(request.headers));
-    
-    const url = request.url.replace('content://', '');
-    const decodedUrl = decodeURIComponent(url);
-    
-    // Handle Windows paths correctly
-    let filePath = decodedUrl;
-    
-    // Remove any leading slashes for Windows absolute paths
-    if (process.platform === 'win32' && filePath.startsWith('/')) {
-      filePath = filePath.substring(1);
-    }
-    
-    // console.log('[Protocol] Decoded URL:', decodedUrl);
-    // console.log('[Protocol] Final file path:', filePath);
-    // console.log('[Protocol] File extension:', path.extname(filePath));
-    
-    try {
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        console.error('[Protocol] File not found:', filePath);
-        return new Response('File not found', { 
-          status: 404,
-          statusText: 'Not Found'
-        });
-      }
-      
-      const stats = fs.statSync(filePath);
-      const fileSize = stats.size;
-      
-      // Determine MIME type based on file extension
-      const ext = path.extname(filePath).toLowerCase();
-      let mimeType = 'application/octet-stream';
-      
-      switch (ext) {
-        case '.mp4':
-          mimeType = 'video/mp4';
-          break;
-        case '.webm':
-          mimeType = 'video/webm';
-          break;
-        case '.ogg':
-        case '.ogv':
-          mimeType = 'video/ogg';
-          break;
-        case '.wav':
-          mimeType = 'audio/wav';
-          break;
-        case '.mp3':
-          mimeType = 'audio/mpeg';
-          break;
-        case '.m4a':
-          mimeType = 'audio/mp4';
-          break;
-        case '.vtt':
-          mimeType = 'text/vtt';
-          break;
-        case '.html':
-          mimeType = 'text/html';
-          break;
-        case '.css':
-          mimeType = 'text/css';
-          break;
-        case '.js':
-          mimeType = 'application/javascript';
-          break;
-        case '.json':
-          mimeType = 'application/json';
-          break;
-      }
-      
-      // Check for Range header (for media seeking support)
-      const rangeHeader = request.headers.get('range');
-      
-      if (rangeHeader && (ext === '.mp4' || ext === '.webm' || ext === '.mp3' || ext === '.wav' || ext === '.m4a')) {
-        // Handle byte-range request for media files
-        // console.log('[Protocol] Range request detected:', rangeHeader);
-        
-        const range = parseRangeHeader(rangeHeader, fileSize);
-        if (!range) {
-          return new Response('Range Not Satisfiable', {
-            status: 416,
-            statusText: 'Range Not Satisfiable',
-            headers: {
-              'Content-Range': `bytes */${fileSize}`
-            }
-          });
-        }
-        
-        // console.log('[Protocol] Range request - start:', range.start, 'end:', range.end, 'total:', fileSize);
-        
-        // Read only the requested range
-        const contentLength = range.end - range.start + 1;
-        const buffer = Buffer.alloc(contentLength);
-        const fd = fs.openSync(filePath, 'r');
-        
-        try {
-          fs.readSync(fd, buffer, 0, contentLength, range.start);
-        } finally {
-          fs.closeSync(fd);
-        }
-        
-        // console.log('[Protocol] Serving partial content:', contentLength, 'bytes');
-        
-        return new Response(buffer, {
-          status: 206,
-          statusText: 'Partial Content',
-          headers: {
-            'Content-Type': mimeType,
-            'Content-Length': contentLength.toString(),
-            'Content-Range': `bytes ${range.start}-${range.end}/${fileSize}`,
-            'Accept-Ranges': 'bytes',
-            'Cache-Control': 'no-cache'
-          }
-        });
-      } else {
-        // Handle full file request
-        // console.log('[Protocol] Full file request, size:', fileSize, 'MIME:', mimeType);
-        
-        // Read entire file
-        const fileData = fs.readFileSync(filePath);
-        
-        // Log first few bytes for debugging audio files
-        if (ext === '.wav') {
-          const header = fileData.slice(0, 4).toString('ascii');
-          const fmt = fileData.slice(8, 12).toString('ascii');
-          // console.log('[Protocol] WAV file header:', header, '(should be RIFF)');
-          // console.log('[Protocol] WAV format chunk:', fmt, '(should be WAVE)');
-        }
-        
-        // Return response with proper headers
-        const headers: any = {
-          'Content-Type': mimeType,
-          'Content-Length': fileSize.toString(),
-          'Cache-Control': 'no-cache',
-          'Accept-Ranges': 'bytes'
-        };
-        
-        // Add headers for HTML files to allow iframe embedding
-        if (ext === '.html') {
-          headers['X-Frame-Options'] = 'SAMEORIGIN';
-          // Allow content:// protocol in CSP
-          headers['Content-Security-Policy'] = "default-src 'self' 'unsafe-inline' 'unsafe-eval' content: file: data:; frame-ancestors 'self' content: file:;";
-        }
-        
-        const response = new Response(fileData, {
-          status: 200,
-          statusText: 'OK',
-          headers
-        });
-        
-        // console.log('[Protocol] ========== REQUEST END (SUCCESS) ==========');
-        return response;
-      }
-    } catch (error) {
-      console.error('[Protocol] Error loading file:', error);
-      // console.log('[Protocol] ========== REQUEST END (ERROR) ==========');
-      return new Response('File read error', { 
-        status: 500,
-        statusText: 'Internal Server Error'
-      });
-    }
-  });
-  
-  // console.log('[Protocol] content:// protocol handler registered with byte-range support');
-}
-
-// Helper function to parse Range header
-function parseRangeHeader(rangeHeader: string, fileSize: number): { start: number; end: number } | null {
-  const matches = rangeHeader.match(/bytes=(\d*)-(\d*)/);
-  
-  if (!matches) {
-    return null;
-  }
-
-  const startStr = matches[1];
-  const endStr = matches[2];
-
-  let start: number;
-  let end: number;
-
-  if (startStr === '' && endStr === '') {
-    return null;
-  } else if (startStr === '') {
-    // Range: bytes=-100 (last 100 bytes)
-    const suffixLength = parseInt(endStr, 10);
-    if (suffixLength === 0) {
-      return null;
-    }
-    start = Math.max(0, fileSize - suffixLength);
-    end = fileSize - 1;
-  } else if (endStr === '') {
-    // Range: bytes=100- (from byte 100 to end)
-    start = parseInt(startStr, 10);
-    end = fileSize - 1;
-  } else {
-    // Range: bytes=100-200
-    start = parseInt(startStr, 10);
-    end = parseInt(endStr, 10);
-  }
-
-  // Validate range
-  if (start < 0 || end >= fileSize || start > end) {
-    return null;
-  }
-
-  return { start, end };
+  protocol.handle('content', createContentHandler(packageRegistry));
 }
 
-// Create application menu
+// Create application menu (rebuilt whenever the recent packages change)
 function createMenu() {
+  const recent = recentPackages.list();
   const template: any[] = [
     {
       label: 'File',
@@ -348,6 +157,38 @@ function createMenu() {
             mainWindow?.webContents.send('menu-open-content');
           }
         },
+        {
+          label: 'Open Recent',
+          submenu: recent.length > 0
+            ? [
+                ...recent.map(entry => ({
+                  label: entry.title,
+                  sublabel: entry.packagePath,
+                  click: () => {
+                    mainWindow?.webContents.send('menu-open-recent', entry.packagePath);
+                  }
+                })),
+                { type: 'separator' },
+                {
+                  label: 'Clear Recently Opened',
+                  click: () => {
+                    recentPackages.clear();
+                    createMenu();
+                  }
+                }
+              ]
+            : [{ label: 'No Recent Packages', enabled: false }]
+        },
+        {
+          label: 'Reopen Last Session',
+          accelerator: 'CmdOrCtrl+Shift+T',
+          enabled: recent.length > 0,
+          click: () => {
+            if (recent[0]) {
+              mainWindow?.webContents.send('menu-open-recent', recent[0].packagePath);
+            }
+          }
+        },
         { type: 'separator' },
         {
           label: 'Exit',
@@ -417,19 +258,38 @@ function createMenu() {
   Menu.setApplicationMenu(menu);
 }
 
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
   // console.log('[Main] App ready, setting up protocol handlers...');
   
+  // Public keys that signature.json of a package may be signed with
+  const trustedKeysDir = path.join(app.getPath('userData'), 'trusted-keys');
+  const trustedKeys = await loadTrustedKeys(trustedKeysDir);
+  console.log('[Main] Trusted package keys:', trustedKeys.length, 'from', trustedKeysDir);
+  
+  // Key files for encrypted packages, named <keyId>.cbtkey
+  const keyFileDirs = [path.join(app.getPath('userData'), 'package-keys')];
+  
+  // Initialize services
+  packageRegistry = new PackageRegistry(loader => {
+    loader.setTrustedKeys(trustedKeys);
+    loader.setKeyFileDirs(keyFileDirs);
+  });
+  fileServer = new FileServer();
+  
+  // File > Open Recent, with the saved session of each package
+  recentPackages = new RecentPackages(path.join(app.getPath('userData'), 'recent-packages.json'));
+  recentPackages.load();
+  
+  // Learner preferences shared by all packages (audio and subtitle language)
+  preferences = new PreferencesStore(path.join(app.getPath('userData'), 'preferences.json'));
+  preferences.load();
+  
   // Setup unified content:// protocol with byte-range support for all files
   setupProtocol();
   
   // NOTE: MediaProtocolHandlerLegacy is no longer needed - content:// handles everything
   // MediaProtocolHandlerLegacy.setupHandlers(); // DISABLED - using content:// instead
   
-  // Initialize services
-  contentLoader = new ContentLoader();
-  fileServer = new FileServer();
-  
   // Create menu
   createMenu();
   
@@ -448,7 +308,148 @@ app.on('window-all-closed', () => {
   }
 });
 
+// Close every mounted package (archive handles, temp extractions) before exiting
+let packagesReleased = false;
+app.on('will-quit', (event) => {
+  if (packagesReleased || !packageRegistry) {
+    return;
+  }
+  
+  event.preventDefault();
+  packageRegistry.unmountAll()
+    .catch(error => console.error('[Main] Error closing packages:', error))
+    .finally(() => {
+      packagesReleased = true;
+      app.quit();
+    });
+});
+
 // IPC Handlers
+function packageResult(mounted: MountedPackage) {
+  // Item paths are content://pkg-<id>/ URLs served from the mounted package
+  return {
+    success: true,
+    packageId: mounted.id,
+    manifest: mounted.manifest,
+    // The folder of an unpacked package is the package root, not its parent
+    basePath: mounted.loader.getBasePath() ?? path.dirname(mounted.packagePath),
+    lintFindings: mounted.loader.getLintFindings(),
+    signature: mounted.loader.getSignatureStatus(),
+    encrypted: mounted.loader.isEncrypted(),
+    session: recentPackages.get(mounted.packagePath)?.session,
+  };
+}
+
+async function loadContentPackage(packagePath: string, secret: PackageSecret = {}) {
+  try {
+    const mounted = await packageRegistry.mount(packagePath, secret);
+    // console.log('[Main] Package loaded successfully');
+    // console.log('[Main] Manifest tracks:', mounted.manifest.tracks.map(t => `${t.type}(${t.items.length} items)`).join(', '));
+    
+    // Tampered packages are refused by the renderer; do not keep them mounted
+    if (mounted.loader.getSignatureStatus()?.state === 'tampered') {
+      const result = packageResult(mounted);
+      await packageRegistry.unmount(mounted.id);
+      return result;
+    }
+    
+    recentPackages.touch(mounted.packagePath, mounted.manifest.metadata?.title || path.basename(mounted.packagePath));
+    createMenu();
+    
+    // Unpacked packages are reloaded as authors edit them
+    if (!mounted.watcher) {
+      packageRegistry.watch(mounted.id, entryNames => handlePackageChange(mounted.id, entryNames));
+    }
+    return packageResult(mounted);
+  } catch (error) {
+    console.error('[Main] Error loading package:', error);
+    return packageErrorResult(error, packagePath);
+  }
+}
+
+function packageErrorResult(error: unknown, packagePath: string) {
+  // Schema errors are reported individually; the stack adds nothing for authors
+  if (error instanceof ManifestValidationError) {
+    return { success: false, error: 'Manifest validation failed', validationErrors: error.issues };
+  }
+  if (error instanceof PathTraversalError) {
+    return { success: false, error: `Unsafe content package: ${error.message}` };
+  }
+  if (error instanceof ManifestVersionError) {
+    return { success: false, error: error.message };
+  }
+  // Encrypted package without a (correct) key: the renderer asks for one and retries
+  if (error instanceof PackageLockedError || error instanceof PackageKeyError) {
+    return {
+      success: false,
+      error: error.message,
+      locked: {
+        packagePath,
+        keyKind: error.keyKind,
+        keyId: error instanceof PackageLockedError ? error.keyId : undefined,
+      },
+    };
+  }
+  return { success: false, error: (error as Error).message + '\n' + (error as Error).stack };
+}
+
+/**
+ * Files of a watched package changed on disk: reload the manifest if it was
+ * edited, and tell the renderer which item files to reload. A signed package
+ * is checked against its signature on every change and closed once it no
+ * longer matches.
+ */
+async function handlePackageChange(packageId: number, entryNames: string[]) {
+  const mounted = packageRegistry.get(packageId);
+  if (!mounted) {
+    return;
+  }
+  
+  const manifestEntryName = mounted.loader.getManifestEntryName();
+  let isVerified = false;
+  if (entryNames.includes(manifestEntryName)) {
+    console.log('[Main] Manifest changed, reloading package', packageId);
+    try {
+      // Reloading verifies the signature again
+      const reloaded = await packageRegistry.reload(packageId);
+      if (reloaded.loader.getSignatureStatus()?.state === 'tampered') {
+        return closeTamperedPackage(reloaded);
+      }
+      isVerified = true;
+      mainWindow?.webContents.send('manifest-changed', packageResult(reloaded));
+    } catch (error) {
+      // Usually a save in progress; the package keeps serving its previous state
+      console.error('[Main] Error reloading manifest:', error);
+      mainWindow?.webContents.send('manifest-changed', { ...packageErrorResult(error, mounted.packagePath), packageId });
+    }
+  }
+  
+  if (!isVerified && mounted.loader.isSigned()) {
+    const status = await mounted.loader.reverifySignature(mounted.manifest);
+    if (status.state === 'tampered') {
+      return closeTamperedPackage(mounted);
+    }
+  }
+  
+  const assets = entryNames.filter(entryName => entryName !== manifestEntryName);
+  if (assets.length > 0) {
+    mainWindow?.webContents.send('asset-changed', {
+      packageId,
+      files: assets.map(entryName => toPackageUrl(entryName, mounted.loader.urlPrefix)),
+    });
+  }
+}
+
+/**
+ * A package changed after it was opened and no longer matches its signature:
+ * the renderer refuses it as it would on opening, and it is unmounted
+ */
+async function closeTamperedPackage(mounted: MountedPackage) {
+  console.warn('[Main] Package no longer matches its signature, closing', mounted.id, mounted.loader.getSignatureStatus()?.problems);
+  mainWindow?.webContents.send('manifest-changed', packageResult(mounted));
+  await packageRegistry.unmount(mounted.id);
+}
+
 ipcMain.handle('open-content-package', async () => {
   // console.log('[Main] Opening content package dialog');
   
@@ -462,75 +463,107 @@ ipcMain.handle('open-content-package', async () => {
 
   if (!result.canceled && result.filePaths[0]) {
     // console.log('[Main] File selected:', result.filePaths[0]);
-    
-    try {
-      const manifest = await contentLoader.loadPackage(result.filePaths[0]);
-      // console.log('[Main] Package loaded successfully');
-      // console.log('[Main] Manifest tracks:', manifest.tracks.map(t => `${t.type}(${t.items.length} items)`).join(', '));
-      
-      // For ZIP files, the basePath is handled by the content loader
-      // It updates all paths to absolute paths pointing to the extracted temp directory
-      const basePath = path.dirname(result.filePaths[0]);
-      
-      return { success: true, manifest, basePath };
-    } catch (error) {
-      console.error('[Main] Error loading package:', error);
-      return { success: false, error: (error as Error).message + '\n' + (error as Error).stack };
-    }
+    return loadContentPackage(result.filePaths[0]);
   }
   
   return { success: false, error: 'No file selected' };
 });
 
-ipcMain.handle('load-local-manifest', async (event, manifestPath: string) => {
-  // console.log('[Main] Loading local manifest:', manifestPath);
-  
+ipcMain.handle('open-dropped-package', async (event, packagePath: string) => {
+  // Dropped paths come from the renderer; accept only what the open dialog would
+  let stats: fs.Stats;
   try {
-    const manifest = await contentLoader.loadManifest(manifestPath);
-    // console.log('[Main] Local manifest loaded successfully');
-    
-    return { success: true, manifest, basePath: path.dirname(manifestPath) };
-  } catch (error) {
-    console.error('[Main] Error loading local manifest:', error);
-    return { success: false, error: (error as Error).message };
+    stats = fs.statSync(packagePath);
+  } catch {
+    return { success: false, error: `File not found: ${packagePath}` };
+  }
+  
+  if (stats.isDirectory()) {
+    if (!fs.existsSync(path.join(packagePath, 'manifest.json'))) {
+      return { success: false, error: `Folder does not contain manifest.json: ${packagePath}` };
+    }
+  } else if (!['.zip', '.pak', '.json'].includes(path.extname(packagePath).toLowerCase())) {
+    return { success: false, error: `Unsupported package format: ${path.basename(packagePath)}` };
   }
+  
+  return loadContentPackage(packagePath);
 });
 
-ipcMain.handle('get-file-url', (event, filePath: string) => {
-  // Now use content:// protocol for ALL files including media
-  const normalizedPath = filePath.replace(/\\/g, '/');
-  const url = `content://${encodeURIComponent(normalizedPath)}`;
+ipcMain.handle('unlock-content-package', async (event, packagePath: string, passphrase?: string) => {
+  if (passphrase !== undefined) {
+    return loadContentPackage(packagePath, { passphrase });
+  }
   
-  const ext = path.extname(filePath).toLowerCase();
-  if (['.mp4', '.webm', '.ogg', '.ogv', '.avi', '.mkv', '.mov'].includes(ext)) {
-    // console.log('[Main] Converting video file to content:// URL with byte-range support:');
-  } else if (['.mp3', '.wav', '.ogg', '.oga', '.m4a', '.aac', '.flac', '.weba'].includes(ext)) {
-    // console.log('[Main] Converting audio file to content:// URL with byte-range support:');
-  } else {
-    // console.log('[Main] Converting file path to content:// URL:');
+  // Key file packages: let the user pick the .cbtkey file
+  const result = await dialog.showOpenDialog({
+    title: 'Select Package Key File',
+    properties: ['openFile'],
+    filters: [{ name: 'Package Key', extensions: [KEY_FILE_EXTENSION.slice(1)] }],
+  });
+  if (result.canceled || !result.filePaths[0]) {
+    return { success: false, error: 'No key file selected' };
   }
-  // console.log('  Input:', filePath);
-  // console.log('  URL:', url);
-  return url;
+  
+  return loadContentPackage(packagePath, { keyFile: fs.readFileSync(result.filePaths[0]) });
 });
 
-// Add specific handlers for video and audio URLs - now using content:// protocol
-ipcMain.handle('get-video-url', (event, filePath: string) => {
-  // Use content:// protocol for all media files now
-  const normalizedPath = filePath.replace(/\\/g, '/');
-  const url = `content://${encodeURIComponent(normalizedPath)}`;
-  // console.log('[Main] Converting video file to content:// URL:');
-  // console.log('  Input:', filePath);
-  // console.log('  URL:', url);
-  return url;
+ipcMain.handle('load-local-manifest', async (event, manifestPath: string) => {
+  // console.log('[Main] Loading local manifest:', manifestPath);
+  return loadContentPackage(manifestPath);
 });
 
-ipcMain.handle('get-audio-url', (event, filePath: string) => {
-  // Use content:// protocol for all media files now
-  const normalizedPath = filePath.replace(/\\/g, '/');
-  const url = `content://${encodeURIComponent(normalizedPath)}`;
-  // console.log('[Main] Converting audio file to content:// URL:');
-  // console.log('  Input:', filePath);
-  // console.log('  URL:', url);
-  return url;
-});
\ No newline at end of file
+ipcMain.handle('open-recent-package', async (event, packagePath: string) => {
+  // Drop entries whose package was moved or deleted since
+  if (!fs.existsSync(packagePath)) {
+    recentPackages.remove(packagePath);
+    createMenu();
+    return { success: false, error: `Package no longer exists: ${packagePath}` };
+  }
+  return loadContentPackage(packagePath);
+});
+
+ipcMain.on('save-package-session', (event, packageId: number, session: PackageSession) => {
+  const mounted = packageRegistry.get(packageId);
+  if (mounted) {
+    recentPackages.saveSession(mounted.packagePath, session);
+  }
+});
+
+ipcMain.handle('get-preferences', () => {
+  return preferences.get();
+});
+
+ipcMain.handle('set-preferences', (event, changes: UserPreferences) => {
+  return preferences.update(changes);
+});
+
+ipcMain.handle('save-sync-report', async (event, content: string, format: SyncReportFormat) => {
+  const extension = format === 'csv' ? 'csv' : 'json';
+  const result = await dialog.showSaveDialog({
+    title: 'Export Sync Report',
+    defaultPath: `sync-report.${extension}`,
+    filters: [{ name: extension === 'csv' ? 'CSV' : 'JSON', extensions: [extension] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+  
+  await fs.promises.writeFile(result.filePath, content, 'utf8');
+  return result.filePath;
+});
+
+ipcMain.handle('list-packages', () => {
+  return packageRegistry.list();
+});
+
+ipcMain.handle('switch-package', (event, packageId: number) => {
+  const mounted = packageRegistry.get(packageId);
+  if (!mounted) {
+    return { success: false, error: `Package ${packageId} is not open` };
+  }
+  return packageResult(packageRegistry.setActive(packageId));
+});
+
+ipcMain.handle('close-package', (event, packageId: number) => {
+  return packageRegistry.unmount(packageId);
+});
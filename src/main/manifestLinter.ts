@@ -0,0 +1,223 @@
+import * as fsSync from 'fs';
+import { Manifest, Track, TrackItem } from './contentLoader';
+import { ManifestLintFinding } from '../types/index';
+import { getItemBoundaries, validateItemContinuity } from '../renderer/utils/timeUtils';
+
+/**
+ * Semantic timeline checks that the JSON Schema cannot express.
+ * Runs on a schema-valid manifest whose file paths have already been resolved.
+ */
+
+export interface LintOptions {
+  // Used to check that referenced media exists; defaults to the local filesystem
+  fileExists?: (file: string) => boolean;
+  // How a resolved file is named in findings, e.g. its path inside the package
+  describeFile?: (file: string) => string;
+}
+
+// Track types that are expected to cover the timeline without holes
+const CONTINUOUS_TRACK_TYPES: Track['type'][] = ['video', 'html'];
+
+export function lintManifest(manifest: Manifest, options: LintOptions = {}): ManifestLintFinding[] {
+  const fileExists = options.fileExists || ((file: string) => fsSync.existsSync(file));
+  const describeFile = options.describeFile || ((file: string) => file);
+  const findings: ManifestLintFinding[] = [];
+  const seenItemIds = new Map<string, string>();
+
+  manifest.tracks.forEach((track, trackIndex) => {
+    const trackPointer = `/tracks/${trackIndex}`;
+
+    track.items.forEach((item, itemIndex) => {
+      const pointer = `${trackPointer}/items/${itemIndex}`;
+      const at = { pointer, trackId: track.id, itemId: item.id };
+
+      if (seenItemIds.has(item.id)) {
+        findings.push({
+          level: 'warning',
+          code: 'duplicate-id',
+          message: `Item id "${item.id}" is also used in track "${seenItemIds.get(item.id)}"`,
+          ...at,
+        });
+      } else {
+        seenItemIds.set(item.id, track.id);
+      }
+
+      if (item.duration_ms !== undefined && item.end_ms !== undefined &&
+          item.start_ms + item.duration_ms !== item.end_ms) {
+        findings.push({
+          level: 'error',
+          code: 'duration-conflict',
+          message: `duration_ms (${item.duration_ms}) disagrees with end_ms (${item.end_ms}) for start_ms ${item.start_ms}`,
+          ...at,
+        });
+      }
+
+      const { start, end } = getItemBoundaries(item);
+      if (end <= start) {
+        findings.push({
+          level: 'error',
+          code: 'empty-item',
+          message: item.end_ms === undefined && item.duration_ms === undefined
+            ? 'Item has neither duration_ms nor end_ms'
+            : `Item ends at ${end}ms, before it starts at ${start}ms`,
+          ...at,
+        });
+      } else if (end > manifest.duration_ms) {
+        findings.push({
+          level: 'error',
+          code: 'out-of-range',
+          message: `Item ends at ${end}ms, after the manifest duration of ${manifest.duration_ms}ms`,
+          ...at,
+        });
+      }
+
+      if (item.transition && end > start && item.transition.duration_ms > end - start) {
+        findings.push({
+          level: 'error',
+          code: 'transition-length',
+          message: `Transition of ${item.transition.duration_ms}ms is longer than the item (${end - start}ms)`,
+          ...at,
+        });
+      }
+
+      const fadeLength = (item.fade_in_ms || 0) + (item.fade_out_ms || 0);
+      if (end > start && fadeLength > end - start) {
+        findings.push({
+          level: 'warning',
+          code: 'fade-length',
+          message: `Fades of ${fadeLength}ms together are longer than the item (${end - start}ms)`,
+          ...at,
+        });
+      }
+
+      if (item.media_end_ms !== undefined && item.media_end_ms <= (item.media_start_ms ?? 0)) {
+        findings.push({
+          level: 'error',
+          code: 'media-range',
+          message: `media_end_ms (${item.media_end_ms}) is not after media_start_ms (${item.media_start_ms ?? 0})`,
+          ...at,
+        });
+      }
+
+      if (!fileExists(item.file)) {
+        findings.push({
+          level: 'error',
+          code: 'missing-file',
+          message: `File not found: ${describeFile(item.file)}`,
+          ...at,
+        });
+      }
+    });
+
+    for (const layerItems of groupByLayer(track.items).values()) {
+      const sorted = [...layerItems].sort((a, b) => a.start_ms - b.start_ms);
+      const continuity = validateItemContinuity(sorted);
+      const pointerOf = (item: TrackItem) => `${trackPointer}/items/${track.items.indexOf(item)}`;
+
+      for (const index of continuity.overlaps) {
+        const current = sorted[index];
+        const next = sorted[index + 1];
+        // A transition may overlap the previous item for its whole duration
+        const overlap = getItemBoundaries(current).end - next.start_ms;
+        if (next.transition && overlap <= next.transition.duration_ms) {
+          continue;
+        }
+        findings.push({
+          level: 'error',
+          code: 'overlap',
+          message: `"${next.id}" starts at ${next.start_ms}ms before "${current.id}" ends at ${getItemBoundaries(current).end}ms on layer ${current.layer ?? 0}`,
+          pointer: pointerOf(next),
+          trackId: track.id,
+          itemId: next.id,
+        });
+      }
+
+      if (!CONTINUOUS_TRACK_TYPES.includes(track.type) || sorted.length === 0) {
+        continue;
+      }
+
+      for (const index of continuity.gaps) {
+        const current = sorted[index];
+        const next = sorted[index + 1];
+        const gapStart = getItemBoundaries(current).end;
+        findings.push({
+          level: 'warning',
+          code: 'gap',
+          message: `No ${track.type} content from ${gapStart}ms to ${next.start_ms}ms`,
+          pointer: pointerOf(next),
+          trackId: track.id,
+          itemId: next.id,
+        });
+      }
+
+      const first = sorted[0];
+      if (first.start_ms > 0) {
+        findings.push({
+          level: 'warning',
+          code: 'gap',
+          message: `No ${track.type} content from 0ms to ${first.start_ms}ms`,
+          pointer: pointerOf(first),
+          trackId: track.id,
+          itemId: first.id,
+        });
+      }
+
+      const lastEnd = Math.max(...sorted.map(item => getItemBoundaries(item).end));
+      if (lastEnd < manifest.duration_ms) {
+        findings.push({
+          level: 'warning',
+          code: 'gap',
+          message: `No ${track.type} content from ${lastEnd}ms to the end of the timeline at ${manifest.duration_ms}ms`,
+          pointer: trackPointer,
+          trackId: track.id,
+        });
+      }
+    }
+  });
+
+  // Of alternative tracks in the same language only the first is ever played
+  const languageTracks = new Map<string, string>();
+  manifest.tracks.forEach((track, trackIndex) => {
+    const { language, role } = track.settings;
+    if (!language) {
+      return;
+    }
+    const key = [track.type, role ?? '', language.toLowerCase()].join('/');
+    if (languageTracks.has(key)) {
+      findings.push({
+        level: 'warning',
+        code: 'duplicate-language',
+        message: `Track "${track.id}" has the same ${track.type} language "${language}" as track "${languageTracks.get(key)}" and is never played`,
+        pointer: `/tracks/${trackIndex}/settings/language`,
+        trackId: track.id,
+      });
+    } else {
+      languageTracks.set(key, track.id);
+    }
+  });
+
+  // A video or audio clock with nothing of that type to follow runs on the wall clock throughout
+  const clockSource = manifest.clock_source;
+  if ((clockSource === 'video' || clockSource === 'audio') && !manifest.tracks.some(track => track.type === clockSource)) {
+    findings.push({
+      level: 'warning',
+      code: 'clock-source',
+      message: `clock_source is "${clockSource}" but the manifest has no ${clockSource} track; the wall clock is used`,
+      pointer: '/clock_source',
+    });
+  }
+
+  return findings;
+}
+
+function groupByLayer(items: TrackItem[]): Map<number, TrackItem[]> {
+  const layers = new Map<number, TrackItem[]>();
+  for (const item of items) {
+    const layer = item.layer ?? 0;
+    if (!layers.has(layer)) {
+      layers.set(layer, []);
+    }
+    layers.get(layer)!.push(item);
+  }
+  return layers;
+}
@@ -0,0 +1,131 @@
+import { TrackSettings } from '../types/index';
+
+/**
+ * Manifest format versions and the migrations between them.
+ *
+ * Packages keep the manifest version they were authored with. On load, a
+ * manifest that passed validation against the schema of its own version is
+ * upgraded step by step (1.0 -> 2.0 -> ...) to CURRENT_MANIFEST_VERSION, the
+ * only shape the rest of the app has to understand.
+ *
+ * To change the format: add schemas/manifest-<version>.schema.json, bump
+ * CURRENT_MANIFEST_VERSION and register a migration from the previous version.
+ */
+
+export const CURRENT_MANIFEST_VERSION = '2.0';
+
+export const DEFAULT_TRACK_SETTINGS: TrackSettings = {
+  enabled: true,
+  volume: 1,
+  muted: false,
+};
+
+type ManifestData = Record<string, any>;
+
+export interface ManifestMigration {
+  from: string;
+  to: string;
+  description: string;
+  // Receives a private copy; may modify and return it
+  migrate(manifest: ManifestData): ManifestData;
+}
+
+export interface ManifestMigrationResult {
+  manifest: ManifestData;
+  fromVersion: string;
+  toVersion: string;
+  // Descriptions of the applied steps, empty if the manifest was current
+  steps: string[];
+}
+
+export class ManifestVersionError extends Error {
+  constructor(public readonly source: string, public readonly version: string, reason: string) {
+    super(`Unsupported manifest version "${version}" (${source}): ${reason}`);
+    this.name = 'ManifestVersionError';
+  }
+}
+
+export class ManifestMigrationRegistry {
+  private migrations = new Map<string, ManifestMigration>();
+
+  constructor(readonly currentVersion: string = CURRENT_MANIFEST_VERSION) {}
+
+  register(migration: ManifestMigration): this {
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`A migration from manifest version ${migration.from} is already registered`);
+    }
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  /**
+   * Versions that can be loaded: the current one and every version with a migration path to it
+   */
+  supportedVersions(): string[] {
+    return [...this.migrations.keys(), this.currentVersion].filter(version => this.canMigrate(version));
+  }
+
+  /**
+   * Upgrade a validated manifest to the current version. The input is not modified.
+   */
+  migrate(manifest: ManifestData, source: string): ManifestMigrationResult {
+    const fromVersion = String(manifest.version);
+    let migrated = structuredClone(manifest);
+    const steps: string[] = [];
+    const seen = new Set<string>();
+
+    while (migrated.version !== this.currentVersion) {
+      const version = String(migrated.version);
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new ManifestVersionError(
+          source,
+          fromVersion,
+          `supported versions are ${this.supportedVersions().join(', ')}`
+        );
+      }
+      if (seen.has(version)) {
+        throw new Error(`Manifest migrations loop at version ${version}`);
+      }
+      seen.add(version);
+
+      migrated = migration.migrate(migrated);
+      migrated.version = migration.to;
+      steps.push(`${migration.from} -> ${migration.to}: ${migration.description}`);
+    }
+
+    return { manifest: migrated, fromVersion, toVersion: this.currentVersion, steps };
+  }
+
+  private canMigrate(version: string): boolean {
+    const seen = new Set<string>();
+    while (version !== this.currentVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration || seen.has(version)) {
+        return false;
+      }
+      seen.add(version);
+      version = migration.to;
+    }
+    return true;
+  }
+}
+
+/**
+ * Registry with every migration of the built-in manifest formats
+ */
+export function createDefaultMigrations(): ManifestMigrationRegistry {
+  return new ManifestMigrationRegistry().register({
+    from: '1.0',
+    to: '2.0',
+    description: 'explicit per-track settings',
+    migrate: manifest => ({
+      ...manifest,
+      tracks: manifest.tracks.map(({ items, ...track }: ManifestData) => ({
+        ...track,
+        settings: { ...DEFAULT_TRACK_SETTINGS },
+        items,
+      })),
+    }),
+  });
+}
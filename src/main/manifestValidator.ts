@@ -0,0 +1,410 @@
+import manifestSchemaV1 from './schemas/manifest-1.0.schema.json';
+import manifestSchemaV2 from './schemas/manifest-2.0.schema.json';
+import { CURRENT_MANIFEST_VERSION } from './manifestMigrations';
+import { ManifestValidationIssue } from '../types/index';
+
+/**
+ * Manifest validation against the versioned JSON Schemas in schemas/manifest-<version>.schema.json.
+ *
+ * manifest.json is parsed with a small location-aware JSON parser so that every
+ * schema violation can be reported with a JSON pointer *and* the line/column in
+ * the original file. All issues are collected; nothing stops at the first error.
+ *
+ * A manifest is validated against the schema of the version it declares, before
+ * it is migrated; unknown versions are checked against the current schema.
+ */
+
+const MANIFEST_SCHEMAS: Record<string, JsonSchema> = {
+  '1.0': manifestSchemaV1,
+  '2.0': manifestSchemaV2,
+};
+
+export const MANIFEST_SCHEMA_ID: string = MANIFEST_SCHEMAS[CURRENT_MANIFEST_VERSION].$id as string;
+
+interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  pattern?: string;
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+export class ManifestValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: ManifestValidationIssue[]) {
+    super(
+      `Invalid manifest (${source}): ${issues.length} error${issues.length === 1 ? '' : 's'}\n` +
+      issues.map(formatIssue).join('\n')
+    );
+    this.name = 'ManifestValidationError';
+  }
+}
+
+export function formatIssue(issue: ManifestValidationIssue): string {
+  return `  ${issue.line}:${issue.column} ${issue.pointer || '/'} - ${issue.message}`;
+}
+
+/**
+ * Parse and validate manifest.json text.
+ * Returns the parsed value (undefined on syntax errors), every issue found and
+ * the id of the schema the manifest was checked against.
+ */
+export function validateManifestText(text: string): { value: unknown; issues: ManifestValidationIssue[]; schemaId: string } {
+  const parser = new LocatingJsonParser(text);
+  let value: unknown;
+
+  try {
+    value = parser.parse();
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return {
+        value: undefined,
+        issues: [{ pointer: '', line: error.line, column: error.column, keyword: 'syntax', message: error.message }],
+        schemaId: MANIFEST_SCHEMA_ID,
+      };
+    }
+    throw error;
+  }
+
+  const version = isPlainObject(value) ? value.version : undefined;
+  const root = (typeof version === 'string' && MANIFEST_SCHEMAS[version]) || MANIFEST_SCHEMAS[CURRENT_MANIFEST_VERSION];
+
+  const issues: ManifestValidationIssue[] = [];
+  validateNode(value, root, '', root, parser.locations, issues);
+  return { value, issues, schemaId: root.$id as string };
+}
+
+// ---------------------------------------------------------------------------
+// Schema evaluation (the subset of draft-07 used by the manifest schemas)
+// ---------------------------------------------------------------------------
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  pointer: string,
+  root: JsonSchema,
+  locations: Map<string, SourceLocation>,
+  issues: ManifestValidationIssue[]
+): void {
+  if (schema.$ref) {
+    schema = resolveRef(schema.$ref, root);
+  }
+
+  const report = (keyword: string, message: string, at: string = pointer) => {
+    const location = locations.get(at) || locations.get(pointer) || { line: 1, column: 1 };
+    issues.push({ pointer: at, line: location.line, column: location.column, keyword, message });
+  };
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(value, type))) {
+      report('type', `expected ${allowed.join(' or ')}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(candidate => candidate === value)) {
+    report('enum', `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report('minimum', `must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report('maximum', `must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      report('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    report('minLength', schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    report('pattern', `must match ${schema.pattern}, got ${JSON.stringify(value)}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((element, index) => {
+      validateNode(element, schema.items!, `${pointer}/${index}`, root, locations, issues);
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        report('required', `missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPointer = `${pointer}/${escapePointerSegment(key)}`;
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        validateNode(child, propertySchema, childPointer, root, locations, issues);
+      } else if (schema.additionalProperties === false) {
+        report('additionalProperties', `unknown property "${key}"`, childPointer);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, childPointer, root, locations, issues);
+      }
+    }
+  }
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const match = ref.match(/^#\/definitions\/(.+)$/);
+  const target = match ? root.definitions?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    default: return false;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// ---------------------------------------------------------------------------
+// Location-aware JSON parser
+// ---------------------------------------------------------------------------
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Minimal RFC 8259 parser that records the source location of every value,
+ * keyed by JSON pointer. Object members are recorded at their key so errors
+ * point at the line the author has to edit.
+ */
+class LocatingJsonParser {
+  readonly locations = new Map<string, SourceLocation>();
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(private readonly text: string) {
+    // Tolerate a UTF-8 BOM written by some editors
+    if (this.text.charCodeAt(0) === 0xfeff) {
+      this.pos = 1;
+    }
+  }
+
+  parse(): unknown {
+    this.skipWhitespace();
+    const value = this.parseValue('');
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected ${JSON.stringify(this.text[this.pos])} after end of JSON`);
+    }
+    return value;
+  }
+
+  private parseValue(pointer: string): unknown {
+    if (!this.locations.has(pointer)) {
+      this.locations.set(pointer, { line: this.line, column: this.column });
+    }
+
+    const char = this.text[this.pos];
+    switch (char) {
+      case '{': return this.parseObject(pointer);
+      case '[': return this.parseArray(pointer);
+      case '"': return this.parseString();
+      case 't': return this.parseLiteral('true', true);
+      case 'f': return this.parseLiteral('false', false);
+      case 'n': return this.parseLiteral('null', null);
+      default:
+        if (char === '-' || (char >= '0' && char <= '9')) {
+          return this.parseNumber();
+        }
+        return this.fail(char === undefined ? 'Unexpected end of JSON' : `Unexpected ${JSON.stringify(char)}`);
+    }
+  }
+
+  private parseObject(pointer: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.advance(); // {
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === '}') {
+      this.advance();
+      return result;
+    }
+
+    while (true) {
+      if (this.text[this.pos] !== '"') {
+        this.fail('Expected property name in double quotes');
+      }
+      const keyLocation = { line: this.line, column: this.column };
+      const key = this.parseString();
+      const childPointer = `${pointer}/${escapePointerSegment(key)}`;
+      this.locations.set(childPointer, keyLocation);
+
+      this.skipWhitespace();
+      this.expect(':');
+      this.skipWhitespace();
+      result[key] = this.parseValue(childPointer);
+      this.skipWhitespace();
+
+      if (this.text[this.pos] === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      this.expect('}');
+      return result;
+    }
+  }
+
+  private parseArray(pointer: string): unknown[] {
+    const result: unknown[] = [];
+    this.advance(); // [
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === ']') {
+      this.advance();
+      return result;
+    }
+
+    while (true) {
+      result.push(this.parseValue(`${pointer}/${result.length}`));
+      this.skipWhitespace();
+
+      if (this.text[this.pos] === ',') {
+        this.advance();
+        this.skipWhitespace();
+        continue;
+      }
+      this.expect(']');
+      return result;
+    }
+  }
+
+  private parseString(): string {
+    this.advance(); // opening quote
+    let result = '';
+
+    while (true) {
+      const char = this.text[this.pos];
+      if (char === undefined) {
+        this.fail('Unterminated string');
+      }
+      if (char === '"') {
+        this.advance();
+        return result;
+      }
+      if (char === '\n') {
+        this.fail('Unescaped line break in string');
+      }
+      if (char === '\\') {
+        this.advance();
+        const escape = this.text[this.pos];
+        const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+        if (escape in simple) {
+          result += simple[escape];
+          this.advance();
+        } else if (escape === 'u') {
+          const hex = this.text.slice(this.pos + 1, this.pos + 5);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            this.fail('Invalid unicode escape');
+          }
+          result += String.fromCharCode(parseInt(hex, 16));
+          for (let i = 0; i < 5; i++) this.advance();
+        } else {
+          this.fail(`Invalid escape sequence \\${escape ?? ''}`);
+        }
+        continue;
+      }
+      result += char;
+      this.advance();
+    }
+  }
+
+  private parseNumber(): number {
+    const match = this.text.slice(this.pos).match(/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/);
+    if (!match) {
+      this.fail('Invalid number');
+    }
+    for (let i = 0; i < match![0].length; i++) this.advance();
+    return Number(match![0]);
+  }
+
+  private parseLiteral<T>(literal: string, value: T): T {
+    if (this.text.slice(this.pos, this.pos + literal.length) !== literal) {
+      this.fail(`Unexpected ${JSON.stringify(this.text[this.pos])}`);
+    }
+    for (let i = 0; i < literal.length; i++) this.advance();
+    return value;
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.pos] !== char) {
+      const found = this.text[this.pos];
+      this.fail(`Expected "${char}" but found ${found === undefined ? 'end of JSON' : JSON.stringify(found)}`);
+    }
+    this.advance();
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /[ \t\r\n]/.test(this.text[this.pos])) {
+      this.advance();
+    }
+  }
+
+  private advance(): void {
+    if (this.text[this.pos] === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new JsonSyntaxError(message, this.line, this.column);
+  }
+}
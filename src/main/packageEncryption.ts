@@ -0,0 +1,346 @@
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+
+/**
+ * Encrypted content packages.
+ *
+ * An encrypted package is a normal .zip/.pak whose entries are stored
+ * (uncompressed) AES-256-GCM ciphertext, plus a plaintext encryption.json
+ * header. Each package has its own random content key, wrapped either with a
+ * key file (32 random bytes, base64) or with a passphrase through scrypt.
+ *
+ * Entries are encrypted in fixed-size chunks, each with its own nonce
+ * (8-byte random entry prefix + 4-byte chunk index) and tag, so any byte range
+ * can be decrypted by reading only the chunks it touches. The associated data
+ * binds every chunk to its entry name, index and whether it is the last chunk,
+ * so chunks cannot be reordered, swapped between entries or truncated.
+ */
+
+export const ENCRYPTION_FILE = 'encryption.json';
+export const KEY_FILE_EXTENSION = '.cbtkey';
+
+const ENCRYPTION_VERSION = 1;
+const CHUNK_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const KEY_WRAP_AAD = Buffer.from('cbt-package-key v1');
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+// The header is untrusted: scrypt costs above these are refused, not computed
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+const SCRYPT_MAX_P = 4;
+
+export type KeyKind = 'keyfile' | 'passphrase';
+
+export interface EncryptedEntry {
+  nonce: string; // 8-byte base64 prefix of every chunk nonce
+  size: number; // Plaintext size
+}
+
+export interface EncryptionHeader {
+  version: number;
+  cipher: 'aes-256-gcm';
+  chunkSize: number;
+  key: {
+    kind: KeyKind;
+    keyId?: string; // keyfile: identifies the key file to use
+    salt?: string; // passphrase: scrypt parameters
+    N?: number;
+    r?: number;
+    p?: number;
+    nonce: string;
+    wrapped: string; // Content key encrypted with the key-encryption key, tag appended
+  };
+  entries: Record<string, EncryptedEntry>;
+}
+
+/**
+ * The package is encrypted and no key was supplied
+ */
+export class PackageLockedError extends Error {
+  constructor(public readonly packagePath: string, public readonly keyKind: KeyKind, public readonly keyId?: string) {
+    super(keyKind === 'passphrase'
+      ? `Package is encrypted with a passphrase: ${packagePath}`
+      : `Package is encrypted; key file ${keyId}${KEY_FILE_EXTENSION} not found: ${packagePath}`);
+    this.name = 'PackageLockedError';
+  }
+}
+
+/**
+ * The supplied key or passphrase does not open the package
+ */
+export class PackageKeyError extends Error {
+  constructor(public readonly packagePath: string, public readonly keyKind: KeyKind) {
+    super(keyKind === 'passphrase' ? 'Wrong passphrase for encrypted package' : 'Key file does not match encrypted package');
+    this.name = 'PackageKeyError';
+  }
+}
+
+export interface PackageSecret {
+  keyFile?: Buffer; // Contents of a .cbtkey file
+  passphrase?: string;
+}
+
+export function generateKeyFile(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64') + '\n';
+}
+
+export function parseKeyFile(contents: Buffer): Buffer {
+  const key = Buffer.from(contents.toString('utf-8').trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Key file must contain ${KEY_LENGTH} base64-encoded bytes`);
+  }
+  return key;
+}
+
+export function computeKeyFileId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+export function parseEncryptionHeader(raw: Buffer): EncryptionHeader {
+  let header: EncryptionHeader;
+  try {
+    header = JSON.parse(raw.toString('utf-8'));
+  } catch {
+    throw new Error(`${ENCRYPTION_FILE} is not valid JSON`);
+  }
+  if (header.version !== ENCRYPTION_VERSION || header.cipher !== 'aes-256-gcm' ||
+      !header.key || !header.entries || !(header.chunkSize > 0)) {
+    throw new Error(`${ENCRYPTION_FILE} has an unsupported format`);
+  }
+  if (header.key.kind === 'passphrase' && !isSupportedScryptKey(header.key)) {
+    throw new Error(`${ENCRYPTION_FILE} has unsupported scrypt parameters`);
+  }
+  return header;
+}
+
+/**
+ * A salt, N a power of two and r, p small enough that deriving the key stays
+ * within SCRYPT_MAX_MEMORY and a few times the work of SCRYPT_PARAMS
+ */
+function isSupportedScryptKey({ salt, N, r, p }: EncryptionHeader['key']): boolean {
+  const isCount = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) > 0;
+  return typeof salt === 'string' && isCount(N) && isCount(r) && isCount(p) &&
+    N > 1 && (N & (N - 1)) === 0 && p <= SCRYPT_MAX_P && 128 * N * r <= SCRYPT_MAX_MEMORY;
+}
+
+async function deriveKeyEncryptionKey(header: EncryptionHeader, secret: PackageSecret): Promise<Buffer | null> {
+  if (header.key.kind === 'keyfile') {
+    return secret.keyFile ? parseKeyFile(secret.keyFile) : null;
+  }
+  if (secret.passphrase === undefined) {
+    return null;
+  }
+  const { salt, N, r, p } = header.key;
+  // Off the main thread: a passphrase takes a noticeable fraction of a second
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(secret.passphrase!, Buffer.from(salt!, 'base64'), KEY_LENGTH, {
+      N, r, p, maxmem: 256 * N! * r!,
+    }, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+function chunkNonce(prefix: Buffer, index: number): Buffer {
+  const nonce = Buffer.alloc(12);
+  prefix.copy(nonce, 0, 0, 8);
+  nonce.writeUInt32BE(index, 8);
+  return nonce;
+}
+
+function chunkAad(entryName: string, index: number, last: boolean): Buffer {
+  const position = Buffer.alloc(5);
+  position.writeUInt32BE(index, 0);
+  position[4] = last ? 1 : 0;
+  return Buffer.concat([Buffer.from(entryName, 'utf-8'), Buffer.from([0]), position]);
+}
+
+function chunkCount(size: number, chunkSize: number): number {
+  // Empty entries still get one (empty) authenticated chunk
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+/**
+ * Decrypts the entries of an unlocked package
+ */
+export class PackageCipher {
+  private constructor(private readonly header: EncryptionHeader, private readonly contentKey: Buffer) {}
+
+  /**
+   * Unwrap the content key; throws PackageLockedError without a usable secret
+   * and PackageKeyError if the secret is wrong
+   */
+  static async unlock(packagePath: string, header: EncryptionHeader, secret: PackageSecret): Promise<PackageCipher> {
+    const kek = await deriveKeyEncryptionKey(header, secret);
+    if (!kek) {
+      throw new PackageLockedError(packagePath, header.key.kind, header.key.keyId);
+    }
+
+    const wrapped = Buffer.from(header.key.wrapped, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', kek, Buffer.from(header.key.nonce, 'base64'));
+      decipher.setAAD(KEY_WRAP_AAD);
+      decipher.setAuthTag(wrapped.subarray(wrapped.length - TAG_LENGTH));
+      const contentKey = Buffer.concat([decipher.update(wrapped.subarray(0, wrapped.length - TAG_LENGTH)), decipher.final()]);
+      return new PackageCipher(header, contentKey);
+    } catch {
+      throw new PackageKeyError(packagePath, header.key.kind);
+    }
+  }
+
+  getEntry(entryName: string): EncryptedEntry | undefined {
+    return this.header.entries[entryName];
+  }
+
+  get entryNames(): string[] {
+    return Object.keys(this.header.entries);
+  }
+
+  /**
+   * Size of an entry's ciphertext as stored in the archive
+   */
+  encryptedSize(entryName: string): number {
+    const entry = this.header.entries[entryName];
+    return entry.size + chunkCount(entry.size, this.header.chunkSize) * TAG_LENGTH;
+  }
+
+  decryptBuffer(entryName: string, ciphertext: Buffer): Buffer {
+    const entry = this.requireEntry(entryName);
+    const chunks: Buffer[] = [];
+    const count = chunkCount(entry.size, this.header.chunkSize);
+    let offset = 0;
+    for (let index = 0; index < count; index++) {
+      const length = this.chunkCipherLength(entry, index);
+      chunks.push(this.decryptChunk(entryName, entry, index, ciphertext.subarray(offset, offset + length)));
+      offset += length;
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Decrypt an inclusive plaintext byte range (default: whole entry). Only the
+   * chunks covering the range are read, through readCiphertext(start, end).
+   */
+  async createDecryptStream(
+    entryName: string,
+    readCiphertext: (start: number, end: number) => Promise<Readable>,
+    range?: { start: number; end: number }
+  ): Promise<Readable> {
+    const entry = this.requireEntry(entryName);
+    const chunkSize = this.header.chunkSize;
+    if (entry.size === 0) {
+      return Readable.from([], { objectMode: false });
+    }
+
+    const start = range ? range.start : 0;
+    const end = range ? range.end : entry.size - 1;
+    const first = Math.floor(start / chunkSize);
+    const last = Math.floor(end / chunkSize);
+    const stride = chunkSize + TAG_LENGTH;
+    const source = await readCiphertext(first * stride, Math.min((last + 1) * stride, this.encryptedSize(entryName)) - 1);
+
+    const decryptChunk = this.decryptChunk.bind(this);
+    const chunkCipherLength = this.chunkCipherLength.bind(this);
+
+    async function* plaintext() {
+      let pending = Buffer.alloc(0);
+      let index = first;
+      for await (const data of source) {
+        pending = Buffer.concat([pending, data as Buffer]);
+        while (index <= last && pending.length >= chunkCipherLength(entry, index)) {
+          const length = chunkCipherLength(entry, index);
+          const plain = decryptChunk(entryName, entry, index, pending.subarray(0, length));
+          pending = pending.subarray(length);
+          const chunkStart = index * chunkSize;
+          yield plain.subarray(Math.max(0, start - chunkStart), Math.min(plain.length, end - chunkStart + 1));
+          index++;
+        }
+      }
+      if (index <= last) {
+        throw new Error(`Encrypted entry is truncated: ${entryName}`);
+      }
+    }
+
+    return Readable.from(plaintext(), { objectMode: false });
+  }
+
+  private requireEntry(entryName: string): EncryptedEntry {
+    const entry = this.header.entries[entryName];
+    if (!entry) {
+      throw new Error(`Entry is not encrypted: ${entryName}`);
+    }
+    return entry;
+  }
+
+  private chunkCipherLength(entry: EncryptedEntry, index: number): number {
+    return Math.min(this.header.chunkSize, entry.size - index * this.header.chunkSize) + TAG_LENGTH;
+  }
+
+  private decryptChunk(entryName: string, entry: EncryptedEntry, index: number, ciphertext: Buffer): Buffer {
+    const last = index === chunkCount(entry.size, this.header.chunkSize) - 1;
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.contentKey, chunkNonce(Buffer.from(entry.nonce, 'base64'), index));
+    decipher.setAAD(chunkAad(entryName, index, last));
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_LENGTH));
+    try {
+      return Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new Error(`Encrypted entry failed authentication: ${entryName} (chunk ${index})`);
+    }
+  }
+}
+
+/**
+ * Encrypts entries while a package is written
+ */
+export class PackageEncryptor {
+  private readonly contentKey = crypto.randomBytes(KEY_LENGTH);
+  private readonly entries: Record<string, EncryptedEntry> = {};
+
+  constructor(private readonly secret: PackageSecret) {
+    if (!secret.keyFile && secret.passphrase === undefined) {
+      throw new Error('Encryption needs a key file or a passphrase');
+    }
+  }
+
+  encryptEntry(entryName: string, plaintext: Buffer): Buffer {
+    const prefix = crypto.randomBytes(8);
+    const count = chunkCount(plaintext.length, CHUNK_SIZE);
+    const chunks: Buffer[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const cipher = crypto.createCipheriv('aes-256-gcm', this.contentKey, chunkNonce(prefix, index));
+      cipher.setAAD(chunkAad(entryName, index, index === count - 1));
+      chunks.push(cipher.update(plaintext.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)), cipher.final(), cipher.getAuthTag());
+    }
+
+    this.entries[entryName] = { nonce: prefix.toString('base64'), size: plaintext.length };
+    return Buffer.concat(chunks);
+  }
+
+  createHeader(): EncryptionHeader {
+    const nonce = crypto.randomBytes(12);
+    let kek: Buffer;
+    let key: Omit<EncryptionHeader['key'], 'nonce' | 'wrapped'>;
+
+    if (this.secret.keyFile) {
+      kek = parseKeyFile(this.secret.keyFile);
+      key = { kind: 'keyfile', keyId: computeKeyFileId(kek) };
+    } else {
+      const salt = crypto.randomBytes(16);
+      kek = crypto.scryptSync(this.secret.passphrase!, salt, KEY_LENGTH, {
+        ...SCRYPT_PARAMS, maxmem: 256 * SCRYPT_PARAMS.N * SCRYPT_PARAMS.r,
+      });
+      key = { kind: 'passphrase', salt: salt.toString('base64'), ...SCRYPT_PARAMS };
+    }
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', kek, nonce);
+    cipher.setAAD(KEY_WRAP_AAD);
+    const wrapped = Buffer.concat([cipher.update(this.contentKey), cipher.final(), cipher.getAuthTag()]);
+
+    return {
+      version: ENCRYPTION_VERSION,
+      cipher: 'aes-256-gcm',
+      chunkSize: CHUNK_SIZE,
+      key: { ...key, nonce: nonce.toString('base64'), wrapped: wrapped.toString('base64') },
+      entries: this.entries,
+    };
+  }
+}
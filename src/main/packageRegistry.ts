@@ -0,0 +1,193 @@
+import * as path from 'path';
+import { ContentLoader } from './contentLoader';
+import { PackageSecret } from './packageEncryption';
+import { PackageWatcher } from './packageWatcher';
+import { Manifest, PackageSummary } from '../types/index';
+
+/**
+ * Mounted content packages.
+ *
+ * Every package gets its own ContentLoader and URL namespace
+ * (content://pkg-<id>/<entry>), so several packages can stay open at once and
+ * the renderer can switch between them without reopening anything. Ids are
+ * never reused, so a stale URL of a closed package cannot reach a newer one.
+ */
+
+const PACKAGE_HOST_PREFIX = 'pkg-';
+
+export function packageUrlPrefix(id: number): string {
+  return `content://${PACKAGE_HOST_PREFIX}${id}/`;
+}
+
+export interface MountedPackage {
+  id: number;
+  packagePath: string;
+  manifest: Manifest;
+  loader: ContentLoader;
+  mountedAt: number;
+  // Set while authoring changes of an unpacked package are watched
+  watcher?: PackageWatcher;
+}
+
+export class PackageRegistry {
+  private packages = new Map<number, MountedPackage>();
+  private nextId = 1;
+  private activeId: number | null = null;
+
+  /**
+   * @param configure applies app-wide settings (trusted keys, key folders) to each new loader
+   */
+  constructor(private readonly configure: (loader: ContentLoader) => void = () => {}) {}
+
+  /**
+   * Mount a package and make it active. A package that is already mounted is
+   * reused rather than opened twice.
+   */
+  async mount(packagePath: string, secret: PackageSecret = {}): Promise<MountedPackage> {
+    const resolvedPath = path.resolve(packagePath);
+    const existing = this.findByPath(resolvedPath);
+    if (existing) {
+      this.activeId = existing.id;
+      return existing;
+    }
+
+    const id = this.nextId++;
+    const { loader, manifest } = await this.load(id, resolvedPath, secret);
+    const mounted: MountedPackage = { id, packagePath: resolvedPath, manifest, loader, mountedAt: Date.now() };
+    this.packages.set(id, mounted);
+    this.activeId = id;
+    console.log('[PackageRegistry] Mounted package', id, resolvedPath);
+    return mounted;
+  }
+
+  /**
+   * Load the package again after its files changed on disk. The new manifest is
+   * loaded with a fresh loader, so a broken intermediate save throws here and
+   * leaves the mounted package serving its previous state.
+   */
+  async reload(id: number, secret: PackageSecret = {}): Promise<MountedPackage> {
+    const mounted = this.packages.get(id);
+    if (!mounted) {
+      throw new Error(`Package ${id} is not mounted`);
+    }
+
+    const { loader, manifest } = await this.load(id, mounted.packagePath, secret);
+    const previousLoader = mounted.loader;
+    mounted.loader = loader;
+    mounted.manifest = manifest;
+    await previousLoader.cleanup();
+    console.log('[PackageRegistry] Reloaded package', id, mounted.packagePath);
+    return mounted;
+  }
+
+  /**
+   * Report changes to the files of an unpacked package folder. Archives are not
+   * edited in place, and the folder of a loose manifest is not the package's to
+   * watch; returns false for them.
+   */
+  watch(id: number, onChange: (entryNames: string[]) => void): boolean {
+    const mounted = this.packages.get(id);
+    const root = mounted?.loader.getBasePath();
+    if (!mounted || !root || !mounted.loader.isPackageFolder()) {
+      return false;
+    }
+
+    mounted.watcher?.close();
+    mounted.watcher = new PackageWatcher(root, onChange);
+    mounted.watcher.start();
+    return true;
+  }
+
+  get(id: number): MountedPackage | undefined {
+    return this.packages.get(id);
+  }
+
+  getActive(): MountedPackage | undefined {
+    return this.activeId === null ? undefined : this.packages.get(this.activeId);
+  }
+
+  setActive(id: number): MountedPackage {
+    const mounted = this.packages.get(id);
+    if (!mounted) {
+      throw new Error(`Package ${id} is not mounted`);
+    }
+    this.activeId = id;
+    return mounted;
+  }
+
+  list(): PackageSummary[] {
+    return [...this.packages.values()]
+      .sort((a, b) => a.mountedAt - b.mountedAt)
+      .map(mounted => ({
+        id: mounted.id,
+        packagePath: mounted.packagePath,
+        title: mounted.manifest.metadata?.title || path.basename(mounted.packagePath),
+        encrypted: mounted.loader.isEncrypted(),
+        signatureState: mounted.loader.getSignatureStatus()?.state,
+        active: mounted.id === this.activeId,
+      }));
+  }
+
+  /**
+   * Close a package and release its archive handle and temp files. Returns
+   * false if the id is not mounted.
+   */
+  async unmount(id: number): Promise<boolean> {
+    const mounted = this.packages.get(id);
+    if (!mounted) {
+      return false;
+    }
+
+    this.packages.delete(id);
+    if (this.activeId === id) {
+      this.activeId = null;
+    }
+    mounted.watcher?.close();
+    await mounted.loader.cleanup();
+    console.log('[PackageRegistry] Unmounted package', id, mounted.packagePath);
+    return true;
+  }
+
+  async unmountAll(): Promise<void> {
+    for (const id of [...this.packages.keys()]) {
+      await this.unmount(id);
+    }
+  }
+
+  /**
+   * Loader and entry name for a content://pkg-<id>/ URL; null if the URL is not
+   * a package URL, undefined if it names a package that is not mounted
+   */
+  resolveUrl(url: string): { loader: ContentLoader; entryName: string } | null | undefined {
+    const match = /^content:\/\/pkg-(\d+)\//.exec(url);
+    if (!match) {
+      return null;
+    }
+
+    const mounted = this.packages.get(Number(match[1]));
+    if (!mounted) {
+      return undefined;
+    }
+    return { loader: mounted.loader, entryName: mounted.loader.getEntryName(url) };
+  }
+
+  private async load(
+    id: number,
+    packagePath: string,
+    secret: PackageSecret
+  ): Promise<{ loader: ContentLoader; manifest: Manifest }> {
+    const loader = new ContentLoader({ urlPrefix: packageUrlPrefix(id) });
+    this.configure(loader);
+
+    try {
+      return { loader, manifest: await loader.loadPackage(packagePath, secret) };
+    } catch (error) {
+      await loader.cleanup();
+      throw error;
+    }
+  }
+
+  private findByPath(packagePath: string): MountedPackage | undefined {
+    return [...this.packages.values()].find(mounted => mounted.packagePath === packagePath);
+  }
+}
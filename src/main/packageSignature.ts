@@ -0,0 +1,190 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { PackageSignatureStatus } from '../types/index';
+
+/**
+ * Package signatures (signature.json).
+ *
+ * A signature lists the SHA-256 of every package file and an Ed25519 signature
+ * over those hashes. The signed payload is a header line followed by one
+ * "<sha256>  <entry name>" line per file, sorted by entry name, so it can be
+ * reproduced with standard tools:
+ *
+ *   cbt-package-signature v1
+ *   3f2a...  manifest.json
+ *   9b1c...  videos/intro.mp4
+ *
+ * Trusted public keys are SPKI PEM files; a key is identified by the first 16
+ * hex digits of the SHA-256 of its DER encoding.
+ */
+
+export const SIGNATURE_FILE = 'signature.json';
+
+const SIGNATURE_VERSION = 1;
+const PAYLOAD_HEADER = 'cbt-package-signature v1';
+
+export interface SignatureFile {
+  version: number;
+  algorithm: 'ed25519';
+  keyId: string;
+  signer?: string;
+  files: Record<string, string>;
+  signature: string;
+}
+
+export interface TrustedKey {
+  keyId: string;
+  name: string;
+  key: crypto.KeyObject;
+}
+
+/**
+ * Access to the files of a loaded package for verification
+ */
+export interface SignatureSource {
+  readSignature(): Promise<Buffer | null>;
+  // Entry names that must be covered by the signature
+  requiredEntries(): Promise<string[]>;
+  // Stream of an entry's contents, or null if it does not exist
+  openEntry(entryName: string): Promise<Readable | null>;
+}
+
+export function computeKeyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function signingPayload(files: Record<string, string>): Buffer {
+  const lines = Object.keys(files).sort().map(name => `${files[name]}  ${name}`);
+  return Buffer.from([PAYLOAD_HEADER, ...lines].join('\n') + '\n', 'utf-8');
+}
+
+export async function hashStream(stream: Readable): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * SHA-256 of every required entry of a package, for signing it in place
+ */
+export async function hashEntries(source: SignatureSource): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const entryName of await source.requiredEntries()) {
+    const stream = await source.openEntry(entryName);
+    if (!stream) {
+      throw new Error(`File not found: ${entryName}`);
+    }
+    hashes[entryName] = await hashStream(stream);
+  }
+  return hashes;
+}
+
+/**
+ * Load every *.pem public key in a folder; a missing folder means no trusted keys
+ */
+export async function loadTrustedKeys(keysDir: string): Promise<TrustedKey[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(keysDir);
+  } catch {
+    return [];
+  }
+
+  const keys: TrustedKey[] = [];
+  for (const file of files.filter(name => name.endsWith('.pem')).sort()) {
+    try {
+      const key = crypto.createPublicKey(await fs.readFile(path.join(keysDir, file)));
+      if (key.asymmetricKeyType !== 'ed25519') {
+        console.warn('[PackageSignature] Ignoring non-Ed25519 key:', file);
+        continue;
+      }
+      keys.push({ keyId: computeKeyId(key), name: path.basename(file, '.pem'), key });
+    } catch (error) {
+      console.warn('[PackageSignature] Ignoring unreadable key:', file, (error as Error).message);
+    }
+  }
+  return keys;
+}
+
+export function createSignature(
+  files: Record<string, string>,
+  privateKey: crypto.KeyObject,
+  signer?: string
+): SignatureFile {
+  const publicKey = crypto.createPublicKey(privateKey);
+  const sorted: Record<string, string> = {};
+  for (const name of Object.keys(files).sort()) {
+    sorted[name] = files[name];
+  }
+
+  return {
+    version: SIGNATURE_VERSION,
+    algorithm: 'ed25519',
+    keyId: computeKeyId(publicKey),
+    signer,
+    files: sorted,
+    signature: crypto.sign(null, signingPayload(sorted), privateKey).toString('base64'),
+  };
+}
+
+export async function verifyPackageSignature(
+  source: SignatureSource,
+  trustedKeys: TrustedKey[]
+): Promise<PackageSignatureStatus> {
+  const raw = await source.readSignature();
+  if (!raw) {
+    return { state: 'unverified', reason: 'Package is not signed', problems: [] };
+  }
+
+  let signature: SignatureFile;
+  try {
+    signature = JSON.parse(raw.toString('utf-8'));
+  } catch {
+    return { state: 'tampered', reason: `${SIGNATURE_FILE} is not valid JSON`, problems: [] };
+  }
+  if (signature.version !== SIGNATURE_VERSION || signature.algorithm !== 'ed25519' ||
+      typeof signature.signature !== 'string' || !signature.files || typeof signature.files !== 'object') {
+    return { state: 'tampered', reason: `${SIGNATURE_FILE} has an unsupported format`, problems: [] };
+  }
+
+  const status = { keyId: signature.keyId, signer: signature.signer };
+  const trusted = trustedKeys.find(key => key.keyId === signature.keyId);
+  if (!trusted) {
+    return { ...status, state: 'unverified', reason: `Signed with an untrusted key (${signature.keyId})`, problems: [] };
+  }
+
+  const signatureValid = crypto.verify(
+    null,
+    signingPayload(signature.files),
+    trusted.key,
+    Buffer.from(signature.signature, 'base64')
+  );
+  if (!signatureValid) {
+    return { ...status, state: 'tampered', reason: `${SIGNATURE_FILE} signature does not match its file list`, problems: [] };
+  }
+
+  const problems: string[] = [];
+  for (const entryName of await source.requiredEntries()) {
+    if (!(entryName in signature.files)) {
+      problems.push(`Not covered by the signature: ${entryName}`);
+    }
+  }
+  for (const [entryName, expected] of Object.entries(signature.files)) {
+    const stream = await source.openEntry(entryName);
+    if (!stream) {
+      problems.push(`Missing signed file: ${entryName}`);
+    } else if (await hashStream(stream) !== expected) {
+      problems.push(`Content does not match signature: ${entryName}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return { ...status, state: 'tampered', reason: 'Package contents do not match the signature', problems };
+  }
+  return { ...status, state: 'verified', reason: `Signed by ${trusted.name}`, problems: [] };
+}
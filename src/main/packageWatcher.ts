@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Watches an unpacked package folder for authoring changes.
+ *
+ * Recursive fs.watch is not available on Linux in Electron's Node, so every
+ * folder of the package gets its own watcher; folders created later are picked
+ * up as they appear. Editors save in bursts (temp file, rename, chmod), so
+ * events are collected and reported once the folder has been quiet for a moment.
+ */
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+export class PackageWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param onChange receives the package-relative entry names changed in one burst, sorted
+   */
+  constructor(
+    private readonly root: string,
+    private readonly onChange: (entryNames: string[]) => void,
+    private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  start(): void {
+    this.watchFolder(this.root);
+    console.log('[PackageWatcher] Watching', this.watchers.size, 'folders under', this.root);
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pending.clear();
+  }
+
+  private watchFolder(folder: string): void {
+    if (this.watchers.has(folder)) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      const watcher = fs.watch(folder, (eventType, filename) => {
+        if (filename) {
+          this.handleEvent(folder, filename.toString());
+        }
+      });
+      watcher.on('error', () => this.unwatchFolder(folder));
+      this.watchers.set(folder, watcher);
+      entries = fs.readdirSync(folder, { withFileTypes: true });
+    } catch (error) {
+      console.warn('[PackageWatcher] Cannot watch folder:', folder, (error as Error).message);
+      return;
+    }
+
+    // Symlinked folders are not followed; the loader refuses links out of the package anyway
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        this.watchFolder(path.join(folder, entry.name));
+      }
+    }
+  }
+
+  private unwatchFolder(folder: string): void {
+    this.watchers.get(folder)?.close();
+    this.watchers.delete(folder);
+  }
+
+  private handleEvent(folder: string, filename: string): void {
+    const filePath = path.join(folder, filename);
+    const stats = fs.lstatSync(filePath, { throwIfNoEntry: false });
+    if (stats?.isDirectory()) {
+      this.watchFolder(filePath);
+      return;
+    }
+    if (!stats && this.watchers.has(filePath)) {
+      this.unwatchFolder(filePath);
+      return;
+    }
+
+    this.pending.add(path.relative(this.root, filePath).split(path.sep).join('/'));
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const entryNames = [...this.pending].sort();
+    this.pending.clear();
+    if (entryNames.length > 0) {
+      this.onChange(entryNames);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Manifest } from './contentLoader';
+import { SIGNATURE_FILE, createSignature } from './packageSignature';
+import { ENCRYPTION_FILE, PackageEncryptor, PackageSecret } from './packageEncryption';
+
+/**
+ * Writes a normalized .zip/.pak content package from a loaded manifest.
+ *
+ * Normalization rules:
+ * - manifest.json is rewritten with package-relative, forward-slash paths
+ * - only files referenced by the manifest are included, in sorted order
+ * - already-compressed media is STORED so it can be streamed with byte ranges;
+ *   text assets (html, vtt, json, css, js) are DEFLATEd
+ * - entry timestamps are fixed so identical input produces identical output
+ * - with a signing key, signature.json covering every entry is added last
+ * - with an encryption secret, every entry is stored as AES-GCM ciphertext and
+ *   encryption.json is added; signature hashes still cover the plaintext
+ */
+
+const STORED_EXTENSIONS = new Set([
+  '.mp4', '.webm', '.ogg', '.ogv', '.mov', '.mkv', '.m4v',
+  '.mp3', '.m4a', '.aac', '.oga', '.opus', '.flac', '.wav', '.weba',
+  '.png', '.jpg', '.jpeg', '.gif', '.webp',
+]);
+
+const FIXED_ENTRY_DATE = new Date('2000-01-01T00:00:00Z');
+
+export interface PackOptions {
+  // Leave out referenced files that do not exist instead of failing
+  skipMissing?: boolean;
+  // Ed25519 private key to sign the package with
+  signingKey?: crypto.KeyObject;
+  // Publisher name recorded in signature.json
+  signer?: string;
+  // Key file or passphrase to encrypt the package with
+  encryption?: PackageSecret;
+}
+
+/**
+ * Where the files of a loaded manifest come from (package folder or archive)
+ */
+export interface PackageSource {
+  // Package-relative, forward-slash entry name for an item file
+  getEntryName(file: string): string;
+  // File contents, or null if the file does not exist
+  readItemFile(file: string): Promise<Buffer | null>;
+}
+
+export interface PackResult {
+  outputPath: string;
+  entries: Array<{ name: string; size: number; compression: 'STORE' | 'DEFLATE' }>;
+  skipped: string[];
+  bytes: number;
+}
+
+/**
+ * Convert an absolute item path back to a package-relative entry name
+ */
+export function toEntryName(baseDir: string, filePath: string): string {
+  const relative = path.relative(baseDir, filePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`File is outside the package folder: ${filePath}`);
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Copy of the manifest with package-relative item paths
+ */
+export function normalizeManifest(manifest: Manifest, source: PackageSource): Manifest {
+  return {
+    ...manifest,
+    tracks: manifest.tracks.map(track => ({
+      ...track,
+      items: track.items.map(item => ({ ...item, file: source.getEntryName(item.file) })),
+    })),
+  };
+}
+
+export async function writePackage(
+  manifest: Manifest,
+  source: PackageSource,
+  outputPath: string,
+  options: PackOptions = {}
+): Promise<PackResult> {
+  const normalized = normalizeManifest(manifest, source);
+  const zip = new JSZip();
+  const entries: PackResult['entries'] = [];
+  const skipped: string[] = [];
+  const hashes: Record<string, string> = {};
+  const encryptor = options.encryption ? new PackageEncryptor(options.encryption) : null;
+
+  const addEntry = (name: string, content: Buffer, compression: 'STORE' | 'DEFLATE') => {
+    hashes[name] = crypto.createHash('sha256').update(content).digest('hex');
+    if (encryptor) {
+      // Ciphertext does not compress, and stored entries can be decrypted by range
+      zip.file(name, encryptor.encryptEntry(name, content), { date: FIXED_ENTRY_DATE, compression: 'STORE' });
+      entries.push({ name, size: content.length, compression: 'STORE' });
+      return;
+    }
+    zip.file(name, content, { date: FIXED_ENTRY_DATE, compression });
+    entries.push({ name, size: content.length, compression });
+  };
+
+  addEntry('manifest.json', Buffer.from(JSON.stringify(normalized, null, 2) + '\n'), 'DEFLATE');
+
+  // Entry name -> item file as referenced by the loaded manifest
+  const files = new Map<string, string>();
+  manifest.tracks.forEach((track, trackIndex) => {
+    track.items.forEach((item, itemIndex) => {
+      files.set(normalized.tracks[trackIndex].items[itemIndex].file, item.file);
+    });
+  });
+
+  for (const name of [...files.keys()].sort()) {
+    const content = await source.readItemFile(files.get(name)!);
+    if (!content) {
+      if (options.skipMissing) {
+        skipped.push(name);
+        continue;
+      }
+      throw new Error(`File not found: ${files.get(name)}`);
+    }
+    
+    addEntry(name, content, STORED_EXTENSIONS.has(path.extname(name).toLowerCase()) ? 'STORE' : 'DEFLATE');
+  }
+
+  if (encryptor) {
+    const headerJson = JSON.stringify(encryptor.createHeader(), null, 2) + '\n';
+    zip.file(ENCRYPTION_FILE, headerJson, { date: FIXED_ENTRY_DATE, compression: 'DEFLATE' });
+    entries.push({ name: ENCRYPTION_FILE, size: Buffer.byteLength(headerJson), compression: 'DEFLATE' });
+  }
+
+  if (options.signingKey) {
+    const signatureJson = JSON.stringify(createSignature(hashes, options.signingKey, options.signer), null, 2) + '\n';
+    zip.file(SIGNATURE_FILE, signatureJson, { date: FIXED_ENTRY_DATE, compression: 'DEFLATE' });
+    entries.push({ name: SIGNATURE_FILE, size: Buffer.byteLength(signatureJson), compression: 'DEFLATE' });
+  }
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compressionOptions: { level: 6 },
+  });
+
+  await fs.mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
+  await fs.writeFile(outputPath, buffer);
+
+  return { outputPath, entries, skipped, bytes: buffer.length };
+}
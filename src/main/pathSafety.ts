@@ -0,0 +1,88 @@
+import * as fsSync from 'fs';
+import * as path from 'path';
+
+/**
+ * Confinement of package paths to the mounted package root.
+ *
+ * Archive entry names and manifest file references come from untrusted
+ * packages, and content:// URLs come from the renderer. Every path derived
+ * from them must stay inside the package it belongs to.
+ */
+
+export class PathTraversalError extends Error {
+  constructor(public readonly requestedPath: string, public readonly reason: string) {
+    super(`Path rejected, ${reason}: ${requestedPath}`);
+    this.name = 'PathTraversalError';
+  }
+}
+
+/**
+ * Normalize a package-relative entry name (forward slashes, no "." segments).
+ * Throws PathTraversalError for names that could resolve outside the package:
+ * absolute paths, drive letters, UNC paths, ".." segments and NUL bytes.
+ */
+export function normalizeEntryName(name: string): string {
+  if (name.includes('\0')) {
+    throw new PathTraversalError(name, 'contains a NUL byte');
+  }
+
+  // Zip entries must use "/", but archivers on Windows sometimes write "\"
+  const slashed = name.replace(/\\/g, '/');
+  if (slashed.startsWith('/')) {
+    throw new PathTraversalError(name, 'absolute path');
+  }
+  if (/^[a-zA-Z]:/.test(slashed)) {
+    throw new PathTraversalError(name, 'drive-letter path');
+  }
+
+  const segments = slashed.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new PathTraversalError(name, 'parent directory reference');
+  }
+  if (segments.length === 0) {
+    throw new PathTraversalError(name, 'empty path');
+  }
+  return segments.join('/');
+}
+
+/**
+ * Whether target is root itself or a path below it (lexically, no symlinks)
+ */
+export function isInsideRoot(root: string, target: string): boolean {
+  const relative = path.relative(path.resolve(root), path.resolve(target));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve a package-relative entry name against root, refusing to leave it
+ */
+export function resolveInsideRoot(root: string, entryName: string): string {
+  const resolved = path.resolve(root, ...normalizeEntryName(entryName).split('/'));
+  if (!isInsideRoot(root, resolved)) {
+    throw new PathTraversalError(entryName, 'outside the package root');
+  }
+  return resolved;
+}
+
+/**
+ * Check an existing file on disk against root after resolving symlinks, so a
+ * link inside an unpacked package cannot expose files elsewhere. Missing files
+ * are checked lexically.
+ */
+export function assertRealPathInsideRoot(root: string, filePath: string): void {
+  if (!isInsideRoot(root, filePath)) {
+    throw new PathTraversalError(filePath, 'outside the package root');
+  }
+
+  let realRoot: string;
+  let realFile: string;
+  try {
+    realRoot = fsSync.realpathSync(root);
+    realFile = fsSync.realpathSync(filePath);
+  } catch {
+    return;
+  }
+  if (!isInsideRoot(realRoot, realFile)) {
+    throw new PathTraversalError(filePath, 'links outside the package root');
+  }
+}
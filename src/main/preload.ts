@@ -4,12 +4,41 @@ import { contextBridge, ipcRenderer } from 'electron';
 // to communicate with the main process
 contextBridge.exposeInMainWorld('electronAPI', {
   openContentPackage: () => ipcRenderer.invoke('open-content-package'),
+  openDroppedPackage: (packagePath: string) => ipcRenderer.invoke('open-dropped-package', packagePath),
+  unlockContentPackage: (packagePath: string, passphrase?: string) =>
+    ipcRenderer.invoke('unlock-content-package', packagePath, passphrase),
   loadLocalManifest: (manifestPath: string) => 
     ipcRenderer.invoke('load-local-manifest', manifestPath),
-  getFileUrl: (filePath: string) => 
-    ipcRenderer.invoke('get-file-url', filePath),
-  getVideoUrl: (filePath: string) => 
-    ipcRenderer.invoke('get-video-url', filePath),
-  getAudioUrl: (filePath: string) => 
-    ipcRenderer.invoke('get-audio-url', filePath),
+  listPackages: () => ipcRenderer.invoke('list-packages'),
+  switchPackage: (packageId: number) => ipcRenderer.invoke('switch-package', packageId),
+  closePackage: (packageId: number) => ipcRenderer.invoke('close-package', packageId),
+  openRecentPackage: (packagePath: string) => ipcRenderer.invoke('open-recent-package', packagePath),
+  // Fire-and-forget so it still goes out while the window unloads
+  savePackageSession: (packageId: number, session: unknown) =>
+    ipcRenderer.send('save-package-session', packageId, session),
+  getPreferences: () => ipcRenderer.invoke('get-preferences'),
+  setPreferences: (changes: unknown) => ipcRenderer.invoke('set-preferences', changes),
+  saveSyncReport: (content: string, format: string) => ipcRenderer.invoke('save-sync-report', content, format),
+  // Menu commands; each returns an unsubscribe function
+  onMenuOpenContent: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('menu-open-content', listener);
+    return () => ipcRenderer.removeListener('menu-open-content', listener);
+  },
+  onMenuOpenRecent: (callback: (packagePath: string) => void) => {
+    const listener = (_event: unknown, packagePath: string) => callback(packagePath);
+    ipcRenderer.on('menu-open-recent', listener);
+    return () => ipcRenderer.removeListener('menu-open-recent', listener);
+  },
+  // Hot reload of unpacked packages
+  onManifestChanged: (callback: (result: unknown) => void) => {
+    const listener = (_event: unknown, result: unknown) => callback(result);
+    ipcRenderer.on('manifest-changed', listener);
+    return () => ipcRenderer.removeListener('manifest-changed', listener);
+  },
+  onAssetChanged: (callback: (change: unknown) => void) => {
+    const listener = (_event: unknown, change: unknown) => callback(change);
+    ipcRenderer.on('asset-changed', listener);
+    return () => ipcRenderer.removeListener('asset-changed', listener);
+  },
 });
\ No newline at end of file
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PackageSession, RecentPackage } from '../types/index';
+
+/**
+ * Recently opened packages, persisted as JSON in the userData folder.
+ *
+ * Each entry keeps the learner's session (clock position, playback rate and
+ * enabled tracks) so reopening a package resumes where it was left.
+ */
+
+const RECENT_FILE_VERSION = 1;
+const MAX_RECENT_PACKAGES = 10;
+
+interface RecentPackagesFile {
+  version: number;
+  packages: RecentPackage[];
+}
+
+export class RecentPackages {
+  private packages: RecentPackage[] = [];
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the list from disk; a missing or unreadable file starts an empty list
+   */
+  load(): void {
+    try {
+      const data: RecentPackagesFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (data.version === RECENT_FILE_VERSION && Array.isArray(data.packages)) {
+        this.packages = data.packages
+          .filter(entry => typeof entry?.packagePath === 'string')
+          .slice(0, MAX_RECENT_PACKAGES);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[RecentPackages] Ignoring unreadable recent packages file:', (error as Error).message);
+      }
+      this.packages = [];
+    }
+  }
+
+  /**
+   * Most recently opened first
+   */
+  list(): RecentPackage[] {
+    return this.packages;
+  }
+
+  get(packagePath: string): RecentPackage | undefined {
+    return this.packages.find(entry => entry.packagePath === path.resolve(packagePath));
+  }
+
+  /**
+   * Move a package to the top of the list, keeping its saved session
+   */
+  touch(packagePath: string, title: string): RecentPackage {
+    const existing = this.get(packagePath);
+    const entry: RecentPackage = {
+      ...existing,
+      packagePath: path.resolve(packagePath),
+      title,
+      openedAt: Date.now(),
+    };
+    this.packages = [entry, ...this.packages.filter(other => other !== existing)].slice(0, MAX_RECENT_PACKAGES);
+    this.save();
+    return entry;
+  }
+
+  saveSession(packagePath: string, session: PackageSession): void {
+    const entry = this.get(packagePath);
+    if (!entry) {
+      return;
+    }
+    entry.session = { ...session, savedAt: Date.now() };
+    this.save();
+  }
+
+  remove(packagePath: string): void {
+    const entry = this.get(packagePath);
+    if (entry) {
+      this.packages = this.packages.filter(other => other !== entry);
+      this.save();
+    }
+  }
+
+  clear(): void {
+    this.packages = [];
+    this.save();
+  }
+
+  // Written synchronously so the last session survives the app quitting right after
+  private save(): void {
+    const data: RecentPackagesFile = { version: RECENT_FILE_VERSION, packages: this.packages };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+    } catch (error) {
+      console.error('[RecentPackages] Failed to save recent packages:', error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { UserPreferences } from '../types/index';
+
+/**
+ * App-wide learner preferences, persisted as JSON in the userData folder.
+ *
+ * Unlike the per-package sessions in recent-packages.json these apply to every
+ * package, e.g. the preferred audio and subtitle language, or how drift is
+ * corrected during playback.
+ */
+
+const PREFERENCES_FILE_VERSION = 1;
+
+interface PreferencesFile {
+  version: number;
+  preferences: UserPreferences;
+}
+
+const STRING_KEYS = ['audioLanguage', 'subtitleLanguage'] as const;
+const DRIFT_CORRECTION_STRATEGIES = ['seek', 'rate'] as const;
+
+export class PreferencesStore {
+  private preferences: UserPreferences = {};
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the preferences from disk; a missing or unreadable file starts with defaults
+   */
+  load(): void {
+    try {
+      const data: PreferencesFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.preferences = data.version === PREFERENCES_FILE_VERSION ? sanitize(data.preferences) : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('[PreferencesStore] Ignoring unreadable preferences file:', (error as Error).message);
+      }
+      this.preferences = {};
+    }
+  }
+
+  get(): UserPreferences {
+    return this.preferences;
+  }
+
+  /**
+   * Merge changes into the preferences and save them; returns the result
+   */
+  update(changes: UserPreferences): UserPreferences {
+    this.preferences = { ...this.preferences, ...sanitize(changes) };
+    this.save();
+    return this.preferences;
+  }
+
+  private save(): void {
+    const data: PreferencesFile = { version: PREFERENCES_FILE_VERSION, preferences: this.preferences };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+    } catch (error) {
+      console.error('[PreferencesStore] Failed to save preferences:', error);
+    }
+  }
+}
+
+// Keep only known keys with the right type; the values come from the renderer or an edited file
+function sanitize(input: unknown): UserPreferences {
+  const result: UserPreferences = {};
+  if (typeof input !== 'object' || input === null) {
+    return result;
+  }
+  for (const key of STRING_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.length > 0) {
+      result[key] = value;
+    }
+  }
+  const strategy = (input as Record<string, unknown>).driftCorrection;
+  if (DRIFT_CORRECTION_STRATEGIES.some(known => known === strategy)) {
+    result.driftCorrection = strategy as UserPreferences['driftCorrection'];
+  }
+  return result;
+}
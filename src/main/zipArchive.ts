@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Random-access reader for .zip/.pak archives.
+ *
+ * Only the central directory is read when the archive is opened; entry data is
+ * read on demand straight from the archive file. STORED entries can be read at
+ * any byte range without touching the rest of the archive, which is what lets
+ * the content:// protocol stream multi-GB packages. DEFLATEd entries can only be
+ * read from the beginning (inflate stream). ZIP64 archives are supported.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // Fixed EOCD size + max comment length
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  crc32: number;
+  isDirectory: boolean;
+  isEncrypted: boolean;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private readonly entryMap = new Map<string, ZipEntry>();
+  private readonly dataOffsets = new Map<string, number>();
+
+  private constructor(public readonly filePath: string, private handle: fsp.FileHandle) {}
+
+  static async open(filePath: string): Promise<ZipArchive> {
+    const handle = await fsp.open(filePath, 'r');
+    const archive = new ZipArchive(filePath, handle);
+    try {
+      await archive.readCentralDirectory();
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+    return archive;
+  }
+
+  get entries(): ZipEntry[] {
+    return [...this.entryMap.values()];
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entryMap.get(name);
+  }
+
+  /**
+   * Whether arbitrary byte ranges of the entry can be served without inflating
+   */
+  isRangeable(entry: ZipEntry): boolean {
+    return entry.method === METHOD_STORED && !entry.isEncrypted;
+  }
+
+  /**
+   * Stream the entry's uncompressed bytes. For STORED entries an inclusive
+   * byte range can be given; DEFLATEd entries are always streamed whole.
+   */
+  async createReadStream(entry: ZipEntry, range?: { start: number; end: number }): Promise<Readable> {
+    this.assertReadable(entry);
+    const dataOffset = await this.getDataOffset(entry);
+
+    if (entry.method === METHOD_STORED) {
+      if (entry.size === 0) {
+        return Readable.from([]);
+      }
+      const start = range ? range.start : 0;
+      const end = range ? range.end : entry.size - 1;
+      return fs.createReadStream(this.filePath, { start: dataOffset + start, end: dataOffset + end });
+    }
+
+    if (range) {
+      throw new Error(`Byte ranges are not supported for compressed entry: ${entry.name}`);
+    }
+    if (entry.compressedSize === 0) {
+      return Readable.from([]);
+    }
+    const raw = fs.createReadStream(this.filePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 });
+    return raw.pipe(zlib.createInflateRaw());
+  }
+
+  /**
+   * Read a whole entry into memory (manifest.json, subtitles, HTML panels)
+   */
+  async readEntry(entry: ZipEntry): Promise<Buffer> {
+    this.assertReadable(entry);
+    const dataOffset = await this.getDataOffset(entry);
+    const raw = Buffer.alloc(entry.compressedSize);
+    if (entry.compressedSize > 0) {
+      const { bytesRead } = await this.handle.read(raw, 0, entry.compressedSize, dataOffset);
+      if (bytesRead !== entry.compressedSize) {
+        throw new Error(`Entry is truncated: ${entry.name}`);
+      }
+    }
+    if (entry.method === METHOD_STORED) {
+      return raw;
+    }
+
+    // A few KB of DEFLATE can inflate to gigabytes; never inflate past the declared size
+    let data: Buffer;
+    try {
+      data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Entry inflates beyond its declared size: ${entry.name}`);
+      }
+      throw error;
+    }
+    if (data.length !== entry.size) {
+      throw new Error(`Entry does not inflate to its declared size: ${entry.name}`);
+    }
+    return data;
+  }
+
+  /**
+   * Write the entry's uncompressed bytes to a file
+   */
+  async extractEntry(entry: ZipEntry, destination: string): Promise<void> {
+    const source = await this.createReadStream(entry);
+    await pipeline(source, fs.createWriteStream(destination));
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private assertReadable(entry: ZipEntry): void {
+    if (entry.isDirectory) {
+      throw new Error(`Cannot read directory entry: ${entry.name}`);
+    }
+    if (entry.isEncrypted) {
+      throw new Error(`Entry uses legacy ZIP encryption: ${entry.name}`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new Error(`Unsupported compression method ${entry.method} for entry: ${entry.name}`);
+    }
+  }
+
+  private async readAt(position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await this.handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  }
+
+  private async getDataOffset(entry: ZipEntry): Promise<number> {
+    const cached = this.dataOffsets.get(entry.name);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // The local header repeats name and extra field with possibly different lengths
+    const header = await this.readAt(entry.localHeaderOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt local header for entry: ${entry.name}`);
+    }
+    const offset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    this.dataOffsets.set(entry.name, offset);
+    return offset;
+  }
+
+  private async readCentralDirectory(): Promise<void> {
+    const { size: fileSize } = await this.handle.stat();
+    const tailLength = Math.min(fileSize, MAX_EOCD_SEARCH);
+    const tailStart = fileSize - tailLength;
+    const tail = await this.readAt(tailStart, tailLength);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Not a ZIP archive (end of central directory not found)');
+    }
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    // ZIP64: the locator sits immediately before the classic EOCD record
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64Offset = Number(tail.readBigUInt64LE(locator + 8));
+      const record = await this.readAt(zip64Offset, 56);
+      if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Corrupt ZIP64 end of central directory record');
+      }
+      entryCount = Number(record.readBigUInt64LE(32));
+      directorySize = Number(record.readBigUInt64LE(40));
+      directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    if (directoryOffset + directorySize > fileSize) {
+      throw new Error('Corrupt ZIP archive (central directory out of bounds)');
+    }
+
+    const directory = await this.readAt(directoryOffset, directorySize);
+    let position = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (position + 46 > directory.length || directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt central directory at entry ${i}`);
+      }
+
+      const flags = directory.readUInt16LE(position + 8);
+      const method = directory.readUInt16LE(position + 10);
+      const crc32 = directory.readUInt32LE(position + 16);
+      let compressedSize = directory.readUInt32LE(position + 20);
+      let size = directory.readUInt32LE(position + 24);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      let localHeaderOffset = directory.readUInt32LE(position + 42);
+
+      const nameStart = position + 46;
+      const name = directory.toString('utf8', nameStart, nameStart + nameLength);
+      const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+
+      // ZIP64 extra field holds, in order, whichever of these overflowed 32 bits
+      if (size === 0xffffffff || compressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+        const zip64 = findExtraField(extra, ZIP64_EXTRA_FIELD_ID);
+        if (!zip64) {
+          throw new Error(`Missing ZIP64 extra field for entry: ${name}`);
+        }
+        let cursor = 0;
+        if (size === 0xffffffff) { size = Number(zip64.readBigUInt64LE(cursor)); cursor += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = Number(zip64.readBigUInt64LE(cursor)); cursor += 8; }
+        if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(zip64.readBigUInt64LE(cursor)); }
+      }
+
+      // Ranges of a STORED entry are served by its size, so it must be what is stored
+      if (method === METHOD_STORED && size !== compressedSize) {
+        throw new Error(`Stored entry size does not match its data: ${name}`);
+      }
+
+      this.entryMap.set(name, {
+        name,
+        method,
+        compressedSize,
+        size,
+        crc32,
+        isDirectory: name.endsWith('/'),
+        isEncrypted: (flags & 0x1) !== 0,
+        localHeaderOffset,
+      });
+
+      position = nameStart + nameLength + extraLength + commentLength;
+    }
+  }
+}
+
+function findExtraField(extra: Buffer, id: number): Buffer | null {
+  let position = 0;
+  while (position + 4 <= extra.length) {
+    const fieldId = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (fieldId === id) {
+      return extra.subarray(position + 4, position + 4 + length);
+    }
+    position += 4 + length;
+  }
+  return null;
+}
@@ -1,17 +1,92 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { masterClock } from './services/MasterClock';
-import { VideoJsManager } from './managers/VideoJsManager';
-import { AudioManager } from './managers/AudioManager';
+import { VideoCompositor } from './managers/VideoCompositor';
+import { AudioMixer } from './managers/AudioMixer';
 import { SubtitleManager } from './managers/SubtitleManager';
 import { HtmlManager } from './managers/HtmlManager';
 import PlayerControls from './components/PlayerControls';
 import EnhancedTimeline from './components/EnhancedTimeline';
 import MediaViewer, { MediaViewerHandle } from './components/MediaViewer';
 import DebugPanel from './components/DebugPanel';
-import { Manifest } from '../types/index';
+import ManifestIssueList from './components/ManifestIssueList';
+import PackageSignatureBadge from './components/PackageSignatureBadge';
+import PackageUnlockPrompt from './components/PackageUnlockPrompt';
+import PackageSwitcher from './components/PackageSwitcher';
+import AudioMixerPanel from './components/AudioMixerPanel';
+import { LanguageTrackType, getTrackLanguages, resolveTrackLanguage, selectLanguageTracks } from './utils/trackLanguages';
+import { DEFAULT_DRIFT_CORRECTION } from './managers/DriftCorrector';
+import { SyncTelemetry } from './services/SyncTelemetry';
+import {
+  AudioChannelState,
+  ClockSourceName,
+  ContentPackageResult,
+  DriftCorrectionStrategy,
+  Manifest,
+  ManifestValidationIssue,
+  ManifestLintFinding,
+  PackageAssetChange,
+  PackageLockInfo,
+  PackageSession,
+  PackageSignatureStatus,
+  PackageSummary,
+  SyncReportFormat,
+  Track,
+  TrackManager,
+  UserPreferences,
+} from '../types/index';
 import './styles/App.css';
 import './styles/MediaLayout.css';
 
+// Save the session this often while playing, in case the app does not quit cleanly
+const SESSION_SAVE_INTERVAL_MS = 5000;
+
+const TRACK_TYPES: Track['type'][] = ['video', 'audio', 'subtitle', 'html'];
+
+// The preferred language, else the system's, else the package's first
+const getTrackLanguage = (manifest: Manifest, type: LanguageTrackType, preferences: UserPreferences) =>
+  resolveTrackLanguage(manifest.tracks, type, [
+    type === 'audio' ? preferences.audioLanguage : preferences.subtitleLanguage,
+    navigator.language,
+  ]);
+
+// Every video track is composited and every audio track in the chosen language
+// mixed; of subtitles the track in the chosen language is played, of HTML the
+// first track. These are the ones the learner can toggle
+const getPlayedTracks = (manifest: Manifest, preferences: UserPreferences): Track[] =>
+  TRACK_TYPES.flatMap(type => {
+    const tracks = manifest.tracks.filter(t => t.type === type);
+    switch (type) {
+      case 'video':
+        return tracks;
+      case 'audio':
+        return selectLanguageTracks(tracks, getTrackLanguage(manifest, type, preferences));
+      case 'subtitle': {
+        const language = getTrackLanguage(manifest, type, preferences);
+        return tracks.filter(t => t.settings.language === language).concat(tracks).slice(0, 1);
+      }
+      default:
+        return tracks.slice(0, 1);
+    }
+  });
+
+// A track switched in for another language takes over the on/off state of the
+// track of the same type and role that it replaces
+const carryEnabledTracks = (previous: Track[], current: Track[], enabled: string[]): string[] => {
+  let result = enabled;
+  for (const track of current.filter(t => !previous.includes(t))) {
+    const replaced = previous.find(old =>
+      !current.includes(old) && old.type === track.type && old.settings.role === track.settings.role
+    );
+    if (replaced) {
+      result = result.filter(id => id !== track.id);
+      if (enabled.includes(replaced.id)) {
+        result.push(track.id);
+      }
+    }
+  }
+  return result;
+};
+
 function App() {
   const [manifest, setManifest] = useState<Manifest | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -28,12 +103,40 @@ function App() {
     html: false,
   });
   const [errors, setErrors] = useState<string[]>([]);
+  const [validationErrors, setValidationErrors] = useState<ManifestValidationIssue[]>([]);
+  const [lintFindings, setLintFindings] = useState<ManifestLintFinding[]>([]);
+  const [signature, setSignature] = useState<PackageSignatureStatus | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [locked, setLocked] = useState<PackageLockInfo | null>(null);
+  const [packages, setPackages] = useState<PackageSummary[]>([]);
+  const [activePackageId, setActivePackageId] = useState<number | null>(null);
+  const [enabledTracks, setEnabledTracks] = useState<string[]>([]);
+  const [clockSource, setClockSource] = useState<ClockSourceName>('video');
+  const [audioChannels, setAudioChannels] = useState<AudioChannelState[]>([]);
+  const [preferences, setPreferences] = useState<UserPreferences>({});
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // Bumped for each newly loaded manifest; hot reloads keep the managers
+  const [managerGeneration, setManagerGeneration] = useState(0);
+  const [telemetryVersion, setTelemetryVersion] = useState(0);
   
-  const videoManagerRef = useRef<VideoJsManager | null>(null);
-  const audioManagerRef = useRef<AudioManager | null>(null);
+  const videoCompositorRef = useRef<VideoCompositor | null>(null);
+  const audioMixerRef = useRef<AudioMixer | null>(null);
   const subtitleManagerRef = useRef<SubtitleManager | null>(null);
   const htmlManagerRef = useRef<HtmlManager | null>(null);
   const mediaViewerRef = useRef<MediaViewerHandle>(null);
+  // Package whose session is saved; null while a package is still loading
+  const sessionPackageIdRef = useRef<number | null>(null);
+  const enabledTracksRef = useRef<string[]>([]);
+  const preferencesRef = useRef<UserPreferences>({});
+  // dragenter/dragleave fire for every child element; count them to know when the drag leaves
+  const dragDepthRef = useRef(0);
+  const manifestRef = useRef<Manifest | null>(null);
+  const basePathRef = useRef('');
+  // Track reloads (hot reloads, language switches) run one at a time
+  const trackReloadRef = useRef<Promise<void>>(Promise.resolve());
+  // Drift, stalls and seek latency of every manager, sampled on each sync tick
+  const syncTelemetryRef = useRef(new SyncTelemetry());
+  const telemetrySummary = useMemo(() => syncTelemetryRef.current.getSummary(), [telemetryVersion]);
   
   // Initialize managers when manifest is loaded (moved to separate effect)
   useEffect(() => {
@@ -55,9 +158,9 @@ function App() {
           
           // Always clean up existing managers first
           try {
-            if (videoManagerRef.current) {
-              videoManagerRef.current.destroy();
-              videoManagerRef.current = null;
+            if (videoCompositorRef.current) {
+              videoCompositorRef.current.destroy();
+              videoCompositorRef.current = null;
             }
           } catch (err) {
             console.error('[App] Error destroying video manager:', err);
@@ -82,20 +185,20 @@ function App() {
           }
           
           try {
-            if (audioManagerRef.current) {
-              audioManagerRef.current.destroy();
-              audioManagerRef.current = null;
+            if (audioMixerRef.current) {
+              audioMixerRef.current.destroy();
+              audioMixerRef.current = null;
             }
           } catch (err) {
-            console.error('[App] Error destroying audio manager:', err);
+            console.error('[App] Error destroying audio mixer:', err);
           }
           
-          // Create Video.js manager
+          // Create the video compositor (one Video.js manager per video layer)
           if (videoContainer) {
             try {
-              // console.log('[App] Creating Video.js manager');
-              videoManagerRef.current = new VideoJsManager(videoContainer);
-              // console.log('[App] Video.js manager initialized');
+              // console.log('[App] Creating video compositor');
+              videoCompositorRef.current = new VideoCompositor(videoContainer);
+              // console.log('[App] Video compositor initialized');
               
               // Re-enable subtitle manager
               // console.log('[App] Re-enabling subtitle manager');
@@ -118,21 +221,26 @@ function App() {
             }
           }
           
-          // Re-enable audio manager (WebAudio API still disabled)
-          // console.log('[App] Re-enabling audio manager (WebAudio API disabled)');
+          // One audio manager per audio track, mixed into a shared AudioContext
           try {
-            audioManagerRef.current = new AudioManager();
-            // console.log('[App] Audio manager initialized');
+            audioMixerRef.current = new AudioMixer();
+            masterClock.setAudioContext(audioMixerRef.current.getContext());
+            // console.log('[App] Audio mixer initialized');
           } catch (err) {
-            console.error('[App] Error creating audio manager:', err);
+            console.error('[App] Error creating audio mixer:', err);
             setErrors(prev => [...prev, `Audio initialization error: ${err}`]);
           }
+          applyDriftCorrection();
         } catch (error) {
           console.error('[App] Critical error during manager initialization:', error);
           setError(`Failed to initialize media managers: ${error}`);
         }
       }, 100); // Increase delay to ensure DOM is ready
     }
+  }, [managerGeneration]);
+  
+  useEffect(() => {
+    manifestRef.current = manifest;
   }, [manifest]);
   
   useEffect(() => {
@@ -143,21 +251,22 @@ function App() {
           // console.log('[App] Play event received');
           setIsPlaying(true);
           // Call play on all existing managers
-          if (videoManagerRef.current) {
-            // console.log('[App] Calling video manager play');
-            videoManagerRef.current.play();
+          if (videoCompositorRef.current) {
+            // console.log('[App] Calling video compositor play');
+            videoCompositorRef.current.play();
           }
-          if (audioManagerRef.current) {
-            // console.log('[App] Calling audio manager play');
-            audioManagerRef.current.play();
+          if (audioMixerRef.current) {
+            // console.log('[App] Calling audio mixer play');
+            audioMixerRef.current.play();
           }
           break;
         case 'pause':
           // console.log('[App] Pause event received');
           setIsPlaying(false);
           // Call pause on all existing managers
-          videoManagerRef.current?.pause();
-          audioManagerRef.current?.pause();
+          videoCompositorRef.current?.pause();
+          audioMixerRef.current?.pause();
+          saveSession();
           break;
         case 'seek':
           // console.log('[App] Seek event to:', event.time, 'isPlaying:', event.isPlaying);
@@ -165,17 +274,18 @@ function App() {
           // Update playing state based on MasterClock
           setIsPlaying(event.isPlaying);
           // Call seek on all existing managers
-          videoManagerRef.current?.seek(event.time);
-          audioManagerRef.current?.seek(event.time);
+          videoCompositorRef.current?.seek(event.time);
+          audioMixerRef.current?.seek(event.time);
           subtitleManagerRef.current?.seek(event.time);
           htmlManagerRef.current?.seek(event.time);
           break;
         case 'ratechange':
           setPlaybackRate(event.playbackRate);
           // Call setPlaybackRate on all existing managers
-          videoManagerRef.current?.setPlaybackRate(event.playbackRate);
-          audioManagerRef.current?.setPlaybackRate(event.playbackRate);
+          videoCompositorRef.current?.setPlaybackRate(event.playbackRate);
+          audioMixerRef.current?.setPlaybackRate(event.playbackRate);
           subtitleManagerRef.current?.setPlaybackRate(event.playbackRate);
+          saveSession();
           break;
         case 'timeupdate':
           // Update UI state
@@ -184,14 +294,16 @@ function App() {
           break;
         case 'sync':
           // Sync all managers including video (to handle transitions between videos)
-          videoManagerRef.current?.sync(event.time, event.playbackRate);
-          audioManagerRef.current?.sync(event.time, event.playbackRate);
+          videoCompositorRef.current?.sync(event.time, event.playbackRate);
+          audioMixerRef.current?.sync(event.time, event.playbackRate);
           subtitleManagerRef.current?.sync(event.time, event.playbackRate);
           htmlManagerRef.current?.sync(event.time, event.playbackRate);
+          refreshAudioChannels();
+          recordTelemetry(event.time);
           
           // Ensure video remains visible during playback
-          if (videoManagerRef.current) {
-            const videoElement = videoManagerRef.current.getElement();
+          if (videoCompositorRef.current) {
+            const videoElement = videoCompositorRef.current.getElement();
             if (videoElement && videoElement.style.display === 'none') {
               // console.log('[App] Video was hidden, making it visible again');
               videoElement.style.display = 'block';
@@ -201,6 +313,8 @@ function App() {
         case 'ended':
           // console.log('[App] Ended event received');
           setIsPlaying(false);
+          // A finished course starts over next time
+          saveSession(0);
           break;
       }
     });
@@ -210,63 +324,517 @@ function App() {
     };
   }, []);
   
+  // Keep the session current while playing and when the window goes away
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    const interval = setInterval(() => saveSession(), SESSION_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+  
+  useEffect(() => {
+    const handleBeforeUnload = () => saveSession();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
+  
+  // Hot reload of unpacked packages edited on disk
+  useEffect(() => {
+    const unsubscribeManifest = window.electronAPI.onManifestChanged(result => {
+      trackReloadRef.current = trackReloadRef.current.then(() => handleManifestChanged(result));
+    });
+    const unsubscribeAsset = window.electronAPI.onAssetChanged(change => {
+      trackReloadRef.current = trackReloadRef.current.then(() => handleAssetChanged(change));
+    });
+    return () => {
+      unsubscribeManifest();
+      unsubscribeAsset();
+    };
+  }, []);
+  
+  // Preferred languages apply to every package opened afterwards
+  useEffect(() => {
+    window.electronAPI.getPreferences()
+      .then(loaded => {
+        preferencesRef.current = loaded;
+        setPreferences(loaded);
+        applyDriftCorrection();
+      })
+      .catch(err => console.error('[App] Failed to load preferences:', err));
+  }, []);
+  
+  // File menu commands
+  useEffect(() => {
+    const unsubscribeOpen = window.electronAPI.onMenuOpenContent(() => handleOpenContent());
+    const unsubscribeRecent = window.electronAPI.onMenuOpenRecent(packagePath => handleOpenRecent(packagePath));
+    return () => {
+      unsubscribeOpen();
+      unsubscribeRecent();
+    };
+  }, []);
+  
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      videoManagerRef.current?.destroy();
-      audioManagerRef.current?.destroy();
+      videoCompositorRef.current?.destroy();
+      audioMixerRef.current?.destroy();
       subtitleManagerRef.current?.destroy();
       htmlManagerRef.current?.destroy();
       masterClock.destroy();
     };
   }, []);
   
-  const handleOpenContent = async () => {
-    setIsLoading(true);
-    setError(null);
-    // console.log('[App] Opening content package...');
+  const saveSession = (positionMs?: number) => {
+    const packageId = sessionPackageIdRef.current;
+    if (packageId === null) {
+      return;
+    }
+    const state = masterClock.getState();
+    window.electronAPI.savePackageSession(packageId, {
+      positionMs: positionMs ?? state.currentTime,
+      playbackRate: state.playbackRate,
+      enabledTracks: enabledTracksRef.current,
+    });
+  };
+  
+  /**
+   * Show or silence the managers of the played tracks; a disabled track keeps
+   * syncing so it can be switched back on mid-playback
+   */
+  const applyEnabledTracks = (manifest: Manifest, enabled: string[]) => {
+    enabledTracksRef.current = enabled;
+    setEnabledTracks(enabled);
     
+    for (const track of getPlayedTracks(manifest, preferencesRef.current)) {
+      const isEnabled = enabled.includes(track.id);
+      const visibility = isEnabled ? '' : 'hidden';
+      // The manifest's volume applies while the track is on and not muted
+      const volume = isEnabled && !track.settings.muted ? track.settings.volume : 0;
+      switch (track.type) {
+        case 'video':
+          videoCompositorRef.current?.setTrackVolume(track.id, volume);
+          videoCompositorRef.current?.setTrackVisible(track.id, isEnabled);
+          break;
+        case 'audio':
+          // Volume and mute come from the settings when the mixer loads the track
+          audioMixerRef.current?.setTrackEnabled(track.id, isEnabled);
+          break;
+        case 'subtitle': {
+          const element = subtitleManagerRef.current?.getElement();
+          if (element) element.style.visibility = visibility;
+          break;
+        }
+        case 'html': {
+          const element = htmlManagerRef.current?.getElement();
+          if (element) element.style.visibility = visibility;
+          break;
+        }
+      }
+    }
+    refreshAudioChannels();
+  };
+  
+  const handleToggleTrack = (trackId: string) => {
+    if (!manifest) {
+      return;
+    }
+    const enabled = enabledTracks.includes(trackId)
+      ? enabledTracks.filter(id => id !== trackId)
+      : [...enabledTracks, trackId];
+    applyEnabledTracks(manifest, enabled);
+    saveSession();
+  };
+  
+  const refreshAudioChannels = () => {
+    setAudioChannels(audioMixerRef.current?.getChannels() || []);
+  };
+  
+  const applyDriftCorrection = () => {
+    const strategy = preferencesRef.current.driftCorrection ?? DEFAULT_DRIFT_CORRECTION.strategy;
+    videoCompositorRef.current?.setDriftCorrection(strategy);
+    audioMixerRef.current?.setDriftCorrection(strategy);
+  };
+  
+  /**
+   * Switch how drift is corrected, e.g. to compare seeking with rate nudging
+   */
+  const handleDriftCorrectionChange = (strategy: DriftCorrectionStrategy) => {
+    preferencesRef.current = { ...preferencesRef.current, driftCorrection: strategy };
+    setPreferences(preferencesRef.current);
+    applyDriftCorrection();
+    window.electronAPI.setPreferences({ driftCorrection: strategy })
+      .catch(err => console.error('[App] Failed to save preferences:', err));
+  };
+  
+  const recordTelemetry = (time: number) => {
+    syncTelemetryRef.current.record(time, masterClock.now(), [
+      ...(videoCompositorRef.current?.getTrackSyncMetrics() ?? []),
+      ...(audioMixerRef.current?.getTrackSyncMetrics() ?? []),
+    ]);
+    setTelemetryVersion(syncTelemetryRef.current.getVersion());
+  };
+  
+  const handleClearTelemetry = () => {
+    syncTelemetryRef.current.clear();
+    setTelemetryVersion(syncTelemetryRef.current.getVersion());
+  };
+  
+  /**
+   * Save the recorded telemetry as a report, e.g. to check a package before release
+   */
+  const handleExportTelemetry = async (format: SyncReportFormat) => {
+    const telemetry = syncTelemetryRef.current;
+    const content = format === 'csv'
+      ? telemetry.toCsv()
+      : JSON.stringify(telemetry.getReport(manifestRef.current?.metadata?.title), null, 2);
     try {
-      const result = await window.electronAPI.openContentPackage();
-      // console.log('[App] Open content result:', result);
+      await window.electronAPI.saveSyncReport(content, format);
+    } catch (err) {
+      console.error('[App] Failed to export sync report:', err);
+      setErrors(prev => [...prev, `Sync report export failed: ${(err as Error).message}`]);
+    }
+  };
+  
+  /**
+   * Switch what the clock follows until the next manifest is loaded
+   */
+  const handleClockSourceChange = (name: ClockSourceName) => {
+    masterClock.setSource(name);
+    setClockSource(name);
+  };
+  
+  const handleMixerVolume = (trackId: string, volume: number) => {
+    audioMixerRef.current?.setTrackVolume(trackId, volume);
+    refreshAudioChannels();
+  };
+  
+  const handleMixerMute = (trackId: string) => {
+    const channel = audioMixerRef.current?.getChannels().find(c => c.trackId === trackId);
+    audioMixerRef.current?.setTrackMuted(trackId, !channel?.muted);
+    refreshAudioChannels();
+  };
+  
+  const handleMixerSolo = (trackId: string) => {
+    const channel = audioMixerRef.current?.getChannels().find(c => c.trackId === trackId);
+    audioMixerRef.current?.setTrackSolo(trackId, !channel?.solo);
+    refreshAudioChannels();
+  };
+  
+  /**
+   * Replace the manager of one track type and bring it to the clock's current
+   * position, rate and play state; the other managers keep playing untouched.
+   * All video tracks share the compositor and all audio tracks the mixer;
+   * other types play their first track.
+   */
+  const reloadTrack = async (type: Track['type'], tracks: Track[]) => {
+    const { currentTime, playbackRate, isPlaying } = masterClock.getState();
+    const containers = mediaViewerRef.current;
+    let manager: TrackManager | VideoCompositor | AudioMixer | null = null;
+    // Tracks that are still played keep what the learner set in the mixer
+    const mixerChannels = type === 'audio' ? audioMixerRef.current?.getChannels() || [] : [];
+    
+    try {
+      switch (type) {
+        case 'video':
+          videoCompositorRef.current?.destroy();
+          videoCompositorRef.current = containers?.videoContainer ? new VideoCompositor(containers.videoContainer) : null;
+          manager = videoCompositorRef.current;
+          break;
+        case 'audio':
+          audioMixerRef.current?.destroy();
+          audioMixerRef.current = new AudioMixer();
+          masterClock.setAudioContext(audioMixerRef.current.getContext());
+          manager = audioMixerRef.current;
+          break;
+        case 'subtitle':
+          subtitleManagerRef.current?.destroy();
+          subtitleManagerRef.current = containers?.videoContainer ? new SubtitleManager(containers.videoContainer) : null;
+          manager = subtitleManagerRef.current;
+          break;
+        case 'html':
+          htmlManagerRef.current?.destroy();
+          htmlManagerRef.current = containers?.htmlContainer ? new HtmlManager(containers.htmlContainer) : null;
+          manager = htmlManagerRef.current;
+          break;
+      }
       
-      if (result.success && result.manifest) {
-        // console.log('[App] Manifest received, loading tracks...');
-        await loadManifest(result.manifest, result.basePath || '');
+      if (!manager || tracks.length === 0) {
+        setTracksLoaded(prev => ({ ...prev, [type]: false }));
+        return;
+      }
+      
+      if (manager instanceof VideoCompositor || manager instanceof AudioMixer) {
+        manager.setDriftCorrection(preferencesRef.current.driftCorrection ?? DEFAULT_DRIFT_CORRECTION.strategy);
+        await manager.load(tracks, basePathRef.current);
       } else {
-        console.error('[App] Failed to open content:', result.error);
-        setError(result.error || 'Failed to open content package');
+        await manager.load(tracks[0].items, basePathRef.current);
+      }
+      if (manager instanceof AudioMixer) {
+        for (const channel of mixerChannels) {
+          manager.setTrackVolume(channel.trackId, channel.volume);
+          manager.setTrackMuted(channel.trackId, channel.muted);
+          manager.setTrackSolo(channel.trackId, channel.solo);
+        }
+      }
+      manager.setPlaybackRate(playbackRate);
+      await manager.seek(currentTime);
+      if (isPlaying) {
+        manager.play();
       }
+      manager.sync(currentTime, playbackRate);
+      setTracksLoaded(prev => ({ ...prev, [type]: true }));
+      console.log('[App] Reloaded', type, 'track at', currentTime, 'ms');
     } catch (err) {
-      console.error('[App] Error opening content:', err);
-      setError((err as Error).message || 'An error occurred');
-    } finally {
-      setIsLoading(false);
+      console.error('[App] Failed to reload track:', type, err);
+      setErrors(prev => [...prev, `Reload error (${type}): ${(err as Error).message}`]);
+    }
+  };
+  
+  const handleManifestChanged = async (result: ContentPackageResult) => {
+    // A package whose files no longer match its signature has been closed
+    if (result.signature?.state === 'tampered') {
+      setPackages(await window.electronAPI.listPackages());
+    }
+    const previous = manifestRef.current;
+    if (!previous || result.packageId !== sessionPackageIdRef.current) {
+      return;
+    }
+    
+    // A broken save keeps the current timeline playing; the Debug panel shows why
+    if (!result.success || !result.manifest) {
+      setErrors(prev => [
+        ...prev,
+        `Manifest reload failed: ${result.error}`,
+        ...(result.validationErrors || []).map(issue => `${issue.line}:${issue.column} ${issue.pointer} - ${issue.message}`),
+      ]);
+      return;
+    }
+    if (result.signature?.state === 'tampered') {
+      sessionPackageIdRef.current = null;
+      setActivePackageId(null);
+      return applyPackageResult(result, 'Package integrity check failed');
+    }
+    
+    const manifest = result.manifest;
+    manifestRef.current = manifest;
+    setManifest(manifest);
+    setLintFindings(result.lintFindings || []);
+    setSignature(result.signature || null);
+    setErrors([]);
+    
+    if (manifest.duration_ms !== previous.duration_ms) {
+      masterClock.setDuration(manifest.duration_ms);
+      setDuration(manifest.duration_ms);
+    }
+    if (manifest.clock_source !== previous.clock_source) {
+      handleClockSourceChange(manifest.clock_source ?? 'video');
+    }
+    
+    // Only managers whose track definition changed are rebuilt
+    const previousTracks = getPlayedTracks(previous, preferencesRef.current);
+    const tracks = getPlayedTracks(manifest, preferencesRef.current);
+    for (const type of TRACK_TYPES) {
+      const before = previousTracks.filter(t => t.type === type);
+      const after = tracks.filter(t => t.type === type);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        await reloadTrack(type, after);
+      }
+    }
+    
+    // Tracks added by the edit start as their settings say; removed ones drop out
+    const previousIds = previous.tracks.map(t => t.id);
+    applyEnabledTracks(
+      manifest,
+      manifest.tracks
+        .filter(t => enabledTracksRef.current.includes(t.id) || (!previousIds.includes(t.id) && t.settings.enabled))
+        .map(t => t.id)
+    );
+  };
+  
+  const handleAssetChanged = async (change: PackageAssetChange) => {
+    const manifest = manifestRef.current;
+    if (!manifest || change.packageId !== sessionPackageIdRef.current) {
+      return;
+    }
+    
+    const tracks = getPlayedTracks(manifest, preferencesRef.current);
+    const affected = TRACK_TYPES.filter(type =>
+      tracks.some(track => track.type === type && track.items.some(item => change.files.includes(item.file)))
+    );
+    for (const type of affected) {
+      await reloadTrack(type, tracks.filter(track => track.type === type));
+    }
+    if (affected.length > 0) {
+      applyEnabledTracks(manifest, enabledTracksRef.current);
     }
   };
   
-  const handleLoadSample = async () => {
+  const applyPackageResult = async (result: ContentPackageResult, fallbackError: string) => {
+    if (result.success && result.manifest) {
+      // console.log('[App] Manifest received, loading tracks...');
+      setLocked(null);
+      setSignature(result.signature || null);
+      setEncrypted(!!result.encrypted);
+      if (result.signature?.state === 'tampered') {
+        // Refuse to play modified packages; the welcome screen lists what changed
+        masterClock.stop();
+        setManifest(null);
+        setError('Package integrity check failed');
+        return;
+      }
+      setLintFindings(result.lintFindings || []);
+      setActivePackageId(result.packageId ?? null);
+      await loadManifest(result.manifest, result.basePath || '', result.session);
+      sessionPackageIdRef.current = result.packageId ?? null;
+    } else {
+      console.error('[App] Failed to open content:', result.error);
+      setError(result.error || fallbackError);
+      setValidationErrors(result.validationErrors || []);
+      // Encrypted package: show the unlock prompt on the welcome screen
+      setLocked(result.locked || null);
+    }
+  };
+  
+  const runPackageLoad = async (load: () => Promise<ContentPackageResult>, fallbackError: string) => {
+    // Remember where the current package was left before anything replaces it
+    const previousPackageId = sessionPackageIdRef.current;
+    saveSession();
+    sessionPackageIdRef.current = null;
     setIsLoading(true);
     setError(null);
+    setValidationErrors([]);
+    setSignature(null);
     
     try {
-      // Load sample manifest from content folder with absolute path
-      const samplePath = 'X:/Workspace/CBTPoc/content/sample-package/manifest.json';
-      const result = await window.electronAPI.loadLocalManifest(samplePath);
-      
-      if (result.success && result.manifest) {
-        await loadManifest(result.manifest, result.basePath || '');
-      } else {
-        setError(result.error || 'Failed to load sample content');
+      const result = await load();
+      await applyPackageResult(result, fallbackError);
+      if (!result.success) {
+        // The previous package is still on screen
+        sessionPackageIdRef.current = previousPackageId;
       }
+      setPackages(await window.electronAPI.listPackages());
     } catch (err) {
+      console.error('[App] Error opening content:', err);
       setError((err as Error).message || 'An error occurred');
+      sessionPackageIdRef.current = previousPackageId;
     } finally {
       setIsLoading(false);
     }
   };
   
-  const loadManifest = async (manifest: Manifest, basePath: string) => {
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+  
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) {
+      return;
+    }
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFile(true);
+  };
+  
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) {
+      return;
+    }
+    // Required for the drop event to fire
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isLoading ? 'none' : 'copy';
+  };
+  
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) {
+      return;
+    }
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFile(false);
+    }
+  };
+  
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) {
+      return;
+    }
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFile(false);
+    
+    // Electron exposes the real path of dropped files and folders; only the first one is opened
+    const file = e.dataTransfer.files[0];
+    if (!file?.path || isLoading) {
+      return;
+    }
+    return runPackageLoad(() => window.electronAPI.openDroppedPackage(file.path), 'Failed to open dropped package');
+  };
+  
+  const handleOpenRecent = (packagePath: string) => {
+    return runPackageLoad(() => window.electronAPI.openRecentPackage(packagePath), 'Failed to open recent package');
+  };
+  
+  const handleSwitchPackage = (packageId: number) => {
+    return runPackageLoad(() => window.electronAPI.switchPackage(packageId), 'Failed to switch package');
+  };
+  
+  const handleClosePackage = async (packageId: number) => {
+    if (packageId === activePackageId) {
+      saveSession();
+      sessionPackageIdRef.current = null;
+    }
+    await window.electronAPI.closePackage(packageId);
+    const remaining = await window.electronAPI.listPackages();
+    setPackages(remaining);
+    
+    if (packageId !== activePackageId) {
+      return;
+    }
+    if (remaining.length > 0) {
+      // Fall back to the most recently opened package that is still mounted
+      return handleSwitchPackage(remaining[remaining.length - 1].id);
+    }
+    
+    // Last package closed: release the media elements and return to the welcome screen
+    masterClock.stop();
+    videoCompositorRef.current?.destroy();
+    videoCompositorRef.current = null;
+    audioMixerRef.current?.destroy();
+    audioMixerRef.current = null;
+    masterClock.setAudioContext(null);
+    subtitleManagerRef.current?.destroy();
+    subtitleManagerRef.current = null;
+    htmlManagerRef.current?.destroy();
+    htmlManagerRef.current = null;
+    setAudioChannels([]);
+    setManifest(null);
+    setActivePackageId(null);
+    setSignature(null);
+    setEncrypted(false);
+    setLintFindings([]);
+  };
+  
+  const handleOpenContent = () => {
+    // console.log('[App] Opening content package...');
+    return runPackageLoad(() => window.electronAPI.openContentPackage(), 'Failed to open content package');
+  };
+  
+  const handleLoadSample = () => {
+    // Load sample manifest from content folder with absolute path
+    const samplePath = 'X:/Workspace/CBTPoc/content/sample-package/manifest.json';
+    return runPackageLoad(() => window.electronAPI.loadLocalManifest(samplePath), 'Failed to load sample content');
+  };
+  
+  const handleUnlock = (passphrase?: string) => {
+    if (!locked) {
+      return;
+    }
+    return runPackageLoad(
+      () => window.electronAPI.unlockContentPackage(locked.packagePath, passphrase),
+      'Failed to unlock content package'
+    );
+  };
+  
+  const loadManifest = async (manifest: Manifest, basePath: string, session?: PackageSession) => {
     // console.log('[App] Loading manifest with basePath:', basePath);
     // console.log('[App] Manifest tracks:', manifest.tracks.map(t => t.type));
     
@@ -274,7 +842,11 @@ function App() {
       // Stop any existing playback first
       masterClock.stop();
       
+      basePathRef.current = basePath;
+      manifestRef.current = manifest;
       setManifest(manifest);
+      setManagerGeneration(generation => generation + 1);
+      handleClearTelemetry();
       // console.log('[App] Setting duration from manifest:', manifest.duration_ms, 'ms');
       setDuration(manifest.duration_ms);
       
@@ -289,30 +861,30 @@ function App() {
       
       // Check if managers were actually created
       // console.log('[App] Manager status after wait:', {
-      //   video: !!videoManagerRef.current,
-      //   audio: !!audioManagerRef.current,
+      //   video: !!videoCompositorRef.current,
+      //   audio: !!audioMixerRef.current,
       //   subtitle: !!subtitleManagerRef.current,
       //   html: !!htmlManagerRef.current
       // });
     
     // Load all tracks
     // console.log('[App] Loading all media tracks');
-    const videoTrack = manifest.tracks.find(t => t.type === 'video');
-    const audioTrack = manifest.tracks.find(t => t.type === 'audio');
-    const subtitleTrack = manifest.tracks.find(t => t.type === 'subtitle');
-    const htmlTrack = manifest.tracks.find(t => t.type === 'html');
+    const playedTracks = getPlayedTracks(manifest, preferencesRef.current);
+    const videoTracks = playedTracks.filter(t => t.type === 'video');
+    const audioTracks = playedTracks.filter(t => t.type === 'audio');
+    const subtitleTrack = playedTracks.find(t => t.type === 'subtitle');
+    const htmlTrack = playedTracks.find(t => t.type === 'html');
     
     const newTracksLoaded = { ...tracksLoaded };
     const newErrors: string[] = [];
     
-    if (videoTrack) {
-      // console.log('[App] Loading video track, items:', videoTrack.items.length);
-      // console.log('[App] First video item file:', videoTrack.items[0]?.file);
-      // console.log('[App] VideoManager ref:', videoManagerRef.current);
+    if (videoTracks.length > 0) {
+      // console.log('[App] Loading video tracks:', videoTracks.length);
+      // console.log('[App] VideoCompositor ref:', videoCompositorRef.current);
       
-      if (videoManagerRef.current) {
+      if (videoCompositorRef.current) {
         try {
-          await videoManagerRef.current.load(videoTrack.items, basePath);
+          await videoCompositorRef.current.load(videoTracks, basePath);
           newTracksLoaded.video = true;
           // console.log('[App] Video track loaded successfully');
         } catch (err) {
@@ -320,7 +892,7 @@ function App() {
           console.error('[App] Failed to load video track:', err);
         }
       } else {
-        const errorMsg = 'VideoManager not initialized';
+        const errorMsg = 'VideoCompositor not initialized';
         newErrors.push(errorMsg);
         console.error('[App]', errorMsg);
       }
@@ -328,15 +900,14 @@ function App() {
       // console.log('[App] No video track in manifest');
     }
     
-    // Re-enable audio track loading
-    if (audioTrack && audioManagerRef.current) {
-      // console.log('[App] Loading audio track, items:', audioTrack.items.length);
-      // console.log('[App] Audio track first item:', audioTrack.items[0]);
+    // Every audio track gets a channel in the mixer
+    if (audioTracks.length > 0 && audioMixerRef.current) {
+      // console.log('[App] Loading audio tracks:', audioTracks.length);
       
       try {
-        await audioManagerRef.current.load(audioTrack.items, basePath);
+        await audioMixerRef.current.load(audioTracks, basePath);
         newTracksLoaded.audio = true;
-        // console.log('[App] Audio track loaded successfully');
+        // console.log('[App] Audio tracks loaded successfully');
       } catch (err) {
         const errorMsg = `Audio load error: ${(err as Error).message}`;
         newErrors.push(errorMsg);
@@ -345,7 +916,7 @@ function App() {
         // console.log('[App] Continuing without audio...');
       }
     } else {
-      // console.log('[App] No audio track in manifest or audio manager not ready');
+      // console.log('[App] No audio track in manifest or audio mixer not ready');
     }
     
     // Re-enable HTML track loading
@@ -387,6 +958,7 @@ function App() {
     // Now initialize master clock after everything is loaded
     // console.log('[App] Initializing master clock with duration:', manifest.duration_ms);
     masterClock.initialize(manifest.duration_ms);
+    handleClockSourceChange(manifest.clock_source ?? 'video');
     
     // Wait longer before triggering initial sync to ensure everything is ready
     // console.log('[App] Waiting 1 second before initial sync...');
@@ -395,19 +967,19 @@ function App() {
     // Trigger initial sync to display content at time 0
     // console.log('[App] Syncing all media managers');
     // console.log('[App] Current managers state:', {
-    //   video: !!videoManagerRef.current,
-    //   audio: !!audioManagerRef.current,
+    //   video: !!videoCompositorRef.current,
+    //   audio: !!audioMixerRef.current,
     //   subtitle: !!subtitleManagerRef.current,
     //   html: !!htmlManagerRef.current
     // });
     
-    // Sync video manager
-    if (videoManagerRef.current) {
-      // console.log('[App] Syncing video manager');
+    // Sync video layers
+    if (videoCompositorRef.current) {
+      // console.log('[App] Syncing video compositor');
       try {
-        videoManagerRef.current.sync(0, 1.0);
+        videoCompositorRef.current.sync(0, 1.0);
         // Force a visibility check
-        const videoElement = videoManagerRef.current.getElement();
+        const videoElement = videoCompositorRef.current.getElement();
         if (videoElement) {
           const videoEl = (videoElement as HTMLDivElement).querySelector('video');
           if (videoEl) {
@@ -425,13 +997,13 @@ function App() {
       }
     }
     
-    // Sync audio manager
-    if (audioManagerRef.current) {
-      // console.log('[App] Syncing audio manager');
+    // Sync audio mixer
+    if (audioMixerRef.current) {
+      // console.log('[App] Syncing audio mixer');
       try {
-        audioManagerRef.current.sync(0, 1.0);
+        audioMixerRef.current.sync(0, 1.0);
       } catch (err) {
-        console.error('[App] Error syncing audio manager:', err);
+        console.error('[App] Error syncing audio mixer:', err);
       }
     }
     
@@ -456,6 +1028,22 @@ function App() {
     }
     
     // console.log('[App] All managers synced successfully')
+    
+    // Resume where the learner left this package; tracks saved as disabled stay off.
+    // Without a session, the manifest's track settings decide what starts enabled.
+    const trackIds = manifest.tracks.map(t => t.id);
+    applyEnabledTracks(
+      manifest,
+      session
+        ? session.enabledTracks.filter(id => trackIds.includes(id))
+        : manifest.tracks.filter(t => t.settings.enabled).map(t => t.id)
+    );
+    if (session) {
+      masterClock.setPlaybackRate(session.playbackRate);
+      if (session.positionMs > 0 && session.positionMs < manifest.duration_ms) {
+        await masterClock.seek(session.positionMs);
+      }
+    }
     } catch (error) {
       console.error('[App] Critical error in loadManifest:', error);
       setError(`Failed to load manifest: ${error}`);
@@ -485,8 +1073,51 @@ function App() {
     masterClock.stop();
   };
   
+  /**
+   * Switch the played audio or subtitle tracks to another language at the
+   * clock's current position, and remember the choice for other packages
+   */
+  const handleLanguageChange = (type: LanguageTrackType, language: string) => {
+    const changes: UserPreferences = type === 'audio' ? { audioLanguage: language } : { subtitleLanguage: language };
+    
+    trackReloadRef.current = trackReloadRef.current.then(async () => {
+      const manifest = manifestRef.current;
+      const previousTracks = manifest ? getPlayedTracks(manifest, preferencesRef.current) : [];
+      preferencesRef.current = { ...preferencesRef.current, ...changes };
+      setPreferences(preferencesRef.current);
+      window.electronAPI.setPreferences(changes)
+        .catch(err => console.error('[App] Failed to save preferences:', err));
+      
+      if (!manifest) {
+        return;
+      }
+      const tracks = getPlayedTracks(manifest, preferencesRef.current);
+      const before = previousTracks.filter(t => t.type === type);
+      const after = tracks.filter(t => t.type === type);
+      if (JSON.stringify(before) === JSON.stringify(after)) {
+        return;
+      }
+      await reloadTrack(type, after);
+      applyEnabledTracks(manifest, carryEnabledTracks(previousTracks, tracks, enabledTracksRef.current));
+      saveSession();
+    });
+  };
+  
   return (
-    <div className="app">
+    <div
+      className="app"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFile && (
+        <div className="drop-overlay">
+          <div className="drop-overlay-message">
+            Drop a .zip, .pak, manifest.json or package folder to open it
+          </div>
+        </div>
+      )}
       {!manifest ? (
         <div className="welcome-screen">
           <h1>CBT Multimedia Sync</h1>
@@ -499,14 +1130,33 @@ function App() {
               Load Sample Content
             </button>
           </div>
+          <p className="welcome-hint">Or drop a package or folder anywhere in this window</p>
           {error && <div className="error-message">{error}</div>}
+          <ManifestIssueList issues={validationErrors} />
+          <PackageSignatureBadge status={signature} showProblems />
+          {locked && <PackageUnlockPrompt lock={locked} isLoading={isLoading} onUnlock={handleUnlock} />}
         </div>
       ) : (
         <>
           <div className="header">
             <h2>{manifest.metadata?.title || 'Untitled Content'}</h2>
+            <PackageSwitcher
+              packages={packages}
+              activePackageId={activePackageId}
+              disabled={isLoading}
+              onSwitch={handleSwitchPackage}
+              onClose={handleClosePackage}
+            />
+            <PackageSignatureBadge status={signature} />
+            {encrypted && <span className="encrypted-badge" title="Decrypted in memory only">🔒 Encrypted</span>}
+            {lintFindings.length > 0 && (
+              <button onClick={() => setShowDebug(true)} className="lint-badge">
+                {lintFindings.filter(f => f.level === 'error').length} lint errors,{' '}
+                {lintFindings.filter(f => f.level === 'warning').length} warnings
+              </button>
+            )}
             <button onClick={handleOpenContent} className="load-button">
-              Load Different Content
+              Open Another Package
             </button>
             <button onClick={() => setShowDebug(!showDebug)} className="debug-toggle">
               {showDebug ? 'Hide' : 'Show'} Debug
@@ -524,7 +1174,21 @@ function App() {
                 isPlaying,
                 tracksLoaded,
                 errors,
+                lintFindings,
+                videoSync: videoCompositorRef.current?.getSyncMetrics(),
+              }}
+              driftCorrection={preferences.driftCorrection ?? DEFAULT_DRIFT_CORRECTION.strategy}
+              onDriftCorrectionChange={handleDriftCorrectionChange}
+              clockSource={clockSource}
+              clockFollowsSource={masterClock.isDrivenBy(clockSource)}
+              onClockSourceChange={handleClockSourceChange}
+              telemetry={{
+                samples: syncTelemetryRef.current.getSamples(),
+                version: telemetryVersion,
+                summary: telemetrySummary,
               }}
+              onExportTelemetry={handleExportTelemetry}
+              onClearTelemetry={handleClearTelemetry}
               onClose={() => setShowDebug(false)}
             />
           )}
@@ -533,7 +1197,7 @@ function App() {
             <EnhancedTimeline
               currentTime={currentTime}
               duration={duration}
-              bufferedPercent={videoManagerRef.current?.getBufferedPercent?.() || 0}
+              bufferedPercent={videoCompositorRef.current?.getBufferedPercent() || 0}
               onSeek={handleSeek}
               onSeekStart={() => {/* console.log('[App] Seek started') */}}
               onSeekEnd={() => {/* console.log('[App] Seek ended') */}}
@@ -545,6 +1209,21 @@ function App() {
               onPlay={handlePlay}
               onStop={handleStop}
               onPlaybackRateChange={handlePlaybackRateChange}
+              tracks={getPlayedTracks(manifest, preferences)}
+              enabledTracks={enabledTracks}
+              onToggleTrack={handleToggleTrack}
+              audioLanguages={getTrackLanguages(manifest.tracks, 'audio')}
+              subtitleLanguages={getTrackLanguages(manifest.tracks, 'subtitle')}
+              audioLanguage={getTrackLanguage(manifest, 'audio', preferences)}
+              subtitleLanguage={getTrackLanguage(manifest, 'subtitle', preferences)}
+              onLanguageChange={handleLanguageChange}
+            />
+            
+            <AudioMixerPanel
+              channels={audioChannels}
+              onVolumeChange={handleMixerVolume}
+              onToggleMute={handleMixerMute}
+              onToggleSolo={handleMixerSolo}
             />
           </div>
         </>
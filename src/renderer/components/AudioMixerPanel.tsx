@@ -0,0 +1,68 @@
+import React from 'react';
+import { AudioChannelState, AudioTrackRole } from '../../types/index';
+import './AudioMixerPanel.css';
+
+interface AudioMixerPanelProps {
+  channels: AudioChannelState[];
+  onVolumeChange: (trackId: string, volume: number) => void;
+  onToggleMute: (trackId: string) => void;
+  onToggleSolo: (trackId: string) => void;
+}
+
+const ROLE_LABELS: Record<AudioTrackRole, string> = {
+  narration: 'Narration',
+  music: 'Music',
+  sfx: 'SFX',
+};
+
+const AudioMixerPanel: React.FC<AudioMixerPanelProps> = ({
+  channels,
+  onVolumeChange,
+  onToggleMute,
+  onToggleSolo,
+}) => {
+  if (channels.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="audio-mixer">
+      {channels.map(channel => (
+        <div
+          key={channel.trackId}
+          className={`mixer-strip ${channel.enabled ? '' : 'disabled'}`}
+          title={channel.enabled ? channel.trackId : `${channel.trackId} (switched off)`}
+        >
+          <span className="mixer-label">
+            {channel.role ? ROLE_LABELS[channel.role] : channel.trackId}
+            {channel.ducked && <span className="mixer-ducked" title="Lowered under narration">▼</span>}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={channel.volume}
+            onChange={(e) => onVolumeChange(channel.trackId, Number(e.target.value))}
+          />
+          <button
+            className={`mixer-button ${channel.muted ? 'active' : ''}`}
+            onClick={() => onToggleMute(channel.trackId)}
+            title="Mute"
+          >
+            M
+          </button>
+          <button
+            className={`mixer-button solo ${channel.solo ? 'active' : ''}`}
+            onClick={() => onToggleSolo(channel.trackId)}
+            title="Solo"
+          >
+            S
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AudioMixerPanel;
@@ -1,4 +1,7 @@
 import React from 'react';
+import { ClockSourceName, DriftCorrectionStrategy, ManifestLintFinding, SyncMetrics, SyncReportFormat } from '../../types/index';
+import { SyncTelemetrySample, SyncTelemetrySummary } from '../services/SyncTelemetry';
+import DriftChart from './DriftChart';
 import './DebugPanel.css';
 
 interface DebugInfo {
@@ -13,14 +16,43 @@ interface DebugInfo {
     html: boolean;
   };
   errors: string[];
+  lintFindings: ManifestLintFinding[];
+  // Metrics of the video layer that drives the clock
+  videoSync?: SyncMetrics | null;
 }
 
 interface DebugPanelProps {
   debugInfo: DebugInfo;
+  // How the managers correct drift, switchable to compare the strategies
+  driftCorrection?: DriftCorrectionStrategy;
+  onDriftCorrectionChange?: (strategy: DriftCorrectionStrategy) => void;
+  // What the clock follows; the wall clock stands in while the source has no time
+  clockSource?: ClockSourceName;
+  clockFollowsSource?: boolean;
+  onClockSourceChange?: (name: ClockSourceName) => void;
+  // Recorded sync telemetry, with its export and reset
+  telemetry?: {
+    samples: readonly SyncTelemetrySample[];
+    version: number;
+    summary: SyncTelemetrySummary[];
+  };
+  onExportTelemetry?: (format: SyncReportFormat) => void;
+  onClearTelemetry?: () => void;
   onClose?: () => void;
 }
 
-const DebugPanel: React.FC<DebugPanelProps> = ({ debugInfo, onClose }) => {
+const DebugPanel: React.FC<DebugPanelProps> = ({
+  debugInfo,
+  driftCorrection,
+  onDriftCorrectionChange,
+  clockSource,
+  clockFollowsSource,
+  onClockSourceChange,
+  telemetry,
+  onExportTelemetry,
+  onClearTelemetry,
+  onClose,
+}) => {
   const formatTime = (ms: number): string => {
     const totalSeconds = Math.floor(ms / 1000);
     const minutes = Math.floor(totalSeconds / 60);
@@ -59,6 +91,36 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ debugInfo, onClose }) => {
               {debugInfo.isPlaying ? 'Yes' : 'No'}
             </span>
           </div>
+          {clockSource && onClockSourceChange && (
+            <div className="debug-item">
+              <span className="debug-label">Clock Source:</span>
+              <span className="debug-value">
+                <select
+                  className="debug-select"
+                  value={clockSource}
+                  onChange={(e) => onClockSourceChange(e.target.value as ClockSourceName)}
+                >
+                  <option value="video">Video</option>
+                  <option value="audio">Audio</option>
+                  <option value="wall">Wall clock</option>
+                </select>
+                {!clockFollowsSource && ' (wall clock standing in)'}
+              </span>
+            </div>
+          )}
+          {driftCorrection && onDriftCorrectionChange && (
+            <div className="debug-item">
+              <span className="debug-label">Drift Correction:</span>
+              <select
+                className="debug-select"
+                value={driftCorrection}
+                onChange={(e) => onDriftCorrectionChange(e.target.value as DriftCorrectionStrategy)}
+              >
+                <option value="rate">Rate nudge</option>
+                <option value="seek">Seek</option>
+              </select>
+            </div>
+          )}
         </div>
         
         <div className="debug-section">
@@ -89,6 +151,99 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ debugInfo, onClose }) => {
           </div>
         </div>
         
+        {debugInfo.videoSync && (
+          <div className="debug-section">
+            <h4>Video Sync</h4>
+            <div className="debug-item">
+              <span className="debug-label">Drift:</span>
+              <span className="debug-value">
+                {debugInfo.videoSync.drift.toFixed(0)} ms (avg {debugInfo.videoSync.averageDrift.toFixed(0)} ms)
+              </span>
+            </div>
+            <div className="debug-item">
+              <span className="debug-label">Corrections:</span>
+              <span className="debug-value">{debugInfo.videoSync.corrections}</span>
+            </div>
+            {debugInfo.videoSync.strategy === 'rate' && (
+              <div className="debug-item">
+                <span className="debug-label">Rate Nudges:</span>
+                <span className="debug-value">
+                  {debugInfo.videoSync.nudges ?? 0}
+                  {debugInfo.videoSync.rateNudge
+                    ? ` (now ${debugInfo.videoSync.rateNudge > 0 ? '+' : ''}${(debugInfo.videoSync.rateNudge * 100).toFixed(1)}%)`
+                    : ''}
+                </span>
+              </div>
+            )}
+            {debugInfo.videoSync.frames !== undefined && (
+              <div className="debug-item">
+                <span className="debug-label">Frames:</span>
+                <span className="debug-value">
+                  {debugInfo.videoSync.frames}
+                  {debugInfo.videoSync.frameDuration !== undefined &&
+                    ` (${debugInfo.videoSync.frameDuration.toFixed(1)} ms each)`}
+                  {debugInfo.videoSync.correctedFrames !== undefined &&
+                    `, ${debugInfo.videoSync.correctedFrames} corrected (last #${debugInfo.videoSync.lastCorrectedFrame})`}
+                </span>
+              </div>
+            )}
+            <div className="debug-item">
+              <span className="debug-label">Transitions:</span>
+              <span className="debug-value">
+                {debugInfo.videoSync.transitions ?? 0}
+                {debugInfo.videoSync.lastTransitionLatency !== undefined &&
+                  ` (last ${debugInfo.videoSync.lastTransitionLatency.toFixed(0)} ms,` +
+                  ` avg ${debugInfo.videoSync.averageTransitionLatency!.toFixed(0)} ms,` +
+                  ` max ${debugInfo.videoSync.maxTransitionLatency!.toFixed(0)} ms)`}
+              </span>
+            </div>
+          </div>
+        )}
+        
+        {telemetry && (
+          <div className="debug-section">
+            <h4>Sync Telemetry</h4>
+            <DriftChart samples={telemetry.samples} version={telemetry.version} />
+            {telemetry.summary.map(summary => (
+              <div key={summary.id} className="debug-item">
+                <span className="debug-label">{summary.id}:</span>
+                <span className="debug-value">
+                  {summary.averageDrift.toFixed(0)}/{summary.maxDrift.toFixed(0)} ms
+                  {summary.stalls > 0 && `, ${summary.stalls} stalls`}
+                  {summary.maxSeekLatency !== null && `, seek ≤${summary.maxSeekLatency.toFixed(0)} ms`}
+                </span>
+              </div>
+            ))}
+            {onExportTelemetry && (
+              <div className="debug-actions">
+                <button className="debug-button" onClick={() => onExportTelemetry('csv')} disabled={telemetry.samples.length === 0}>
+                  Export CSV
+                </button>
+                <button className="debug-button" onClick={() => onExportTelemetry('json')} disabled={telemetry.samples.length === 0}>
+                  Export JSON
+                </button>
+                {onClearTelemetry && (
+                  <button className="debug-button" onClick={onClearTelemetry}>Clear</button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        
+        {debugInfo.lintFindings.length > 0 && (
+          <div className="debug-section">
+            <h4>Manifest Lint</h4>
+            <div className="debug-errors">
+              {debugInfo.lintFindings.map((finding, index) => (
+                <div key={index} className={`debug-lint debug-lint-${finding.level}`}>
+                  <span className="debug-lint-code">{finding.code}</span> {finding.message}
+                  <div className="debug-lint-pointer">{finding.pointer}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {debugInfo.errors.length > 0 && (
           <div className="debug-section">
             <h4>Errors</h4>
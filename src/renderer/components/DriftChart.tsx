@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { SyncTelemetrySample } from '../services/SyncTelemetry';
+import './DriftChart.css';
+
+interface DriftChartProps {
+  samples: readonly SyncTelemetrySample[];
+  // Telemetry version, so the lines are only rebuilt when samples were added
+  version: number;
+  // Drift that is left alone, drawn as a dashed line (ms)
+  tolerance?: number;
+}
+
+const WIDTH = 270;
+const HEIGHT = 110;
+const COLORS = ['#667eea', '#4ade80', '#f59e0b', '#f87171', '#22d3ee', '#e879f9'];
+
+/**
+ * Drift of each manager over the master timeline. A seek back starts a new
+ * line, so replays of a section are drawn over each other.
+ */
+const DriftChart: React.FC<DriftChartProps> = ({ samples, version, tolerance = 50 }) => {
+  const chart = useMemo(() => {
+    if (samples.length === 0) {
+      return null;
+    }
+    const startTime = Math.min(...samples.map(sample => sample.time));
+    const endTime = Math.max(...samples.map(sample => sample.time), startTime + 1);
+    const maxDrift = Math.max(tolerance * 2, ...samples.map(sample => sample.drift));
+    const x = (time: number) => ((time - startTime) / (endTime - startTime)) * WIDTH;
+    const y = (drift: number) => HEIGHT - (Math.min(drift, maxDrift) / maxDrift) * HEIGHT;
+
+    const series = new Map<string, { color: string; lines: string[][] }>();
+    const lastTime = new Map<string, number>();
+    for (const sample of samples) {
+      let entry = series.get(sample.id);
+      if (!entry) {
+        entry = { color: COLORS[series.size % COLORS.length], lines: [[]] };
+        series.set(sample.id, entry);
+      }
+      if (sample.time < (lastTime.get(sample.id) ?? -Infinity)) {
+        entry.lines.push([]);
+      }
+      entry.lines[entry.lines.length - 1].push(`${x(sample.time).toFixed(1)},${y(sample.drift).toFixed(1)}`);
+      lastTime.set(sample.id, sample.time);
+    }
+    return { startTime, endTime, maxDrift, toleranceY: y(tolerance), series };
+    // Samples are appended in place; the version says when they changed
+  }, [samples, version, tolerance]);
+
+  if (!chart) {
+    return <div className="drift-chart-empty">No samples yet; play to record</div>;
+  }
+
+  const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(0)}s`;
+
+  return (
+    <div className="drift-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width={WIDTH} height={HEIGHT}>
+        <rect className="drift-chart-background" x={0} y={0} width={WIDTH} height={HEIGHT} />
+        <line className="drift-chart-tolerance" x1={0} x2={WIDTH} y1={chart.toleranceY} y2={chart.toleranceY} />
+        {[...chart.series.entries()].map(([id, { color, lines }]) =>
+          lines.map((points, index) => (
+            <polyline key={`${id}-${index}`} points={points.join(' ')} fill="none" stroke={color} strokeWidth={1} />
+          ))
+        )}
+      </svg>
+      <div className="drift-chart-axis">
+        <span>{formatSeconds(chart.startTime)}</span>
+        <span>max {chart.maxDrift.toFixed(0)} ms, dashed {tolerance} ms</span>
+        <span>{formatSeconds(chart.endTime)}</span>
+      </div>
+      <div className="drift-chart-legend">
+        {[...chart.series.entries()].map(([id, { color }]) => (
+          <span key={id} className="drift-chart-key">
+            <span className="drift-chart-swatch" style={{ background: color }} />
+            {id}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DriftChart;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { ManifestValidationIssue } from '../../types/index';
+import './ManifestIssueList.css';
+
+interface ManifestIssueListProps {
+  issues: ManifestValidationIssue[];
+}
+
+const ManifestIssueList: React.FC<ManifestIssueListProps> = ({ issues }) => {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="manifest-issues">
+      <div className="manifest-issues-header">
+        manifest.json: {issues.length} error{issues.length === 1 ? '' : 's'}
+      </div>
+      <ul className="manifest-issues-list">
+        {issues.map((issue, index) => (
+          <li key={index} className="manifest-issue">
+            <span className="manifest-issue-location">{issue.line}:{issue.column}</span>
+            <span className="manifest-issue-pointer">{issue.pointer || '/'}</span>
+            <span className="manifest-issue-message">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ManifestIssueList;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { PackageSignatureStatus } from '../../types/index';
+import './PackageSignatureBadge.css';
+
+interface PackageSignatureBadgeProps {
+  status: PackageSignatureStatus | null;
+  // List per-file problems below the badge (used when a tampered package is refused)
+  showProblems?: boolean;
+}
+
+const LABELS: Record<PackageSignatureStatus['state'], string> = {
+  verified: '✓ Verified',
+  unverified: '? Unverified',
+  tampered: '✗ Tampered',
+};
+
+const PackageSignatureBadge: React.FC<PackageSignatureBadgeProps> = ({ status, showProblems = false }) => {
+  if (!status) {
+    return null;
+  }
+
+  const title = [status.reason, status.keyId && `Key ${status.keyId}`, status.signer && `Signer: ${status.signer}`]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <div className={`package-signature package-signature-${status.state}`}>
+      <span className="package-signature-badge" title={title}>
+        {LABELS[status.state]}
+      </span>
+      {showProblems && (
+        <div className="package-signature-details">
+          <div className="package-signature-reason">{status.reason}</div>
+          {status.problems.length > 0 && (
+            <ul className="package-signature-problems">
+              {status.problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PackageSignatureBadge;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { PackageSummary } from '../../types/index';
+import './PackageSwitcher.css';
+
+interface PackageSwitcherProps {
+  packages: PackageSummary[];
+  activePackageId: number | null;
+  disabled?: boolean;
+  onSwitch: (packageId: number) => void;
+  onClose: (packageId: number) => void;
+}
+
+const PackageSwitcher: React.FC<PackageSwitcherProps> = ({
+  packages,
+  activePackageId,
+  disabled = false,
+  onSwitch,
+  onClose,
+}) => {
+  if (packages.length === 0 || activePackageId === null) {
+    return null;
+  }
+
+  return (
+    <div className="package-switcher">
+      <select
+        value={activePackageId}
+        disabled={disabled || packages.length < 2}
+        onChange={(e) => onSwitch(Number(e.target.value))}
+        title={packages.find(pkg => pkg.id === activePackageId)?.packagePath}
+      >
+        {packages.map(pkg => (
+          <option key={pkg.id} value={pkg.id}>
+            {pkg.encrypted ? '🔒 ' : ''}{pkg.title}
+          </option>
+        ))}
+      </select>
+      <button
+        className="package-switcher-close"
+        disabled={disabled}
+        onClick={() => onClose(activePackageId)}
+        title="Close this package"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default PackageSwitcher;
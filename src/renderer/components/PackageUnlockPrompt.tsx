@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { PackageLockInfo } from '../../types/index';
+import './PackageUnlockPrompt.css';
+
+interface PackageUnlockPromptProps {
+  lock: PackageLockInfo;
+  isLoading: boolean;
+  // Passphrase for passphrase packages; undefined asks the main process for a key file
+  onUnlock: (passphrase?: string) => void;
+}
+
+const PackageUnlockPrompt: React.FC<PackageUnlockPromptProps> = ({ lock, isLoading, onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const fileName = lock.packagePath.split(/[\\/]/).pop();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onUnlock(passphrase);
+    setPassphrase('');
+  };
+
+  return (
+    <div className="package-unlock">
+      <div className="package-unlock-title">🔒 {fileName} is encrypted</div>
+      {lock.keyKind === 'passphrase' ? (
+        <form className="package-unlock-form" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            autoFocus
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={event => setPassphrase(event.target.value)}
+            disabled={isLoading}
+          />
+          <button type="submit" disabled={isLoading || passphrase.length === 0}>
+            Unlock
+          </button>
+        </form>
+      ) : (
+        <div className="package-unlock-form">
+          <span className="package-unlock-hint">Key {lock.keyId || 'file'} was not found.</span>
+          <button onClick={() => onUnlock()} disabled={isLoading}>
+            Choose Key File…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PackageUnlockPrompt;
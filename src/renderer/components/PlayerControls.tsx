@@ -1,4 +1,6 @@
 import React from 'react';
+import { Track } from '../../types/index';
+import { LanguageTrackType, TrackLanguage } from '../utils/trackLanguages';
 import './PlayerControls.css';
 
 interface PlayerControlsProps {
@@ -7,16 +9,45 @@ interface PlayerControlsProps {
   onPlay: () => void;
   onStop: () => void;
   onPlaybackRateChange: (rate: number) => void;
+  // Tracks the learner can switch on and off
+  tracks?: Track[];
+  enabledTracks?: string[];
+  onToggleTrack?: (trackId: string) => void;
+  // Languages of the audio and subtitle tracks; a picker is shown when there is a choice
+  audioLanguages?: TrackLanguage[];
+  subtitleLanguages?: TrackLanguage[];
+  audioLanguage?: string | null;
+  subtitleLanguage?: string | null;
+  onLanguageChange?: (type: LanguageTrackType, language: string) => void;
 }
 
+const TRACK_LABELS: Record<Track['type'], string> = {
+  video: 'Video',
+  audio: 'Audio',
+  subtitle: 'Subtitles',
+  html: 'Panel',
+};
+
 const PlayerControls: React.FC<PlayerControlsProps> = ({
   isPlaying,
   playbackRate,
   onPlay,
   onStop,
   onPlaybackRateChange,
+  tracks = [],
+  enabledTracks = [],
+  onToggleTrack,
+  audioLanguages = [],
+  subtitleLanguages = [],
+  audioLanguage = null,
+  subtitleLanguage = null,
+  onLanguageChange,
 }) => {
   const playbackRates = [0.5, 0.75, 1.0, 1.25, 1.5, 2.0];
+  const languagePickers: { type: LanguageTrackType; label: string; options: TrackLanguage[]; value: string | null }[] = [
+    { type: 'audio', label: 'Audio', options: audioLanguages, value: audioLanguage },
+    { type: 'subtitle', label: 'Subtitles', options: subtitleLanguages, value: subtitleLanguage },
+  ];
   
   return (
     <div className="player-controls">
@@ -57,6 +88,35 @@ const PlayerControls: React.FC<PlayerControlsProps> = ({
       </div>
       
       <div className="controls-right">
+        {languagePickers.filter(picker => picker.options.length > 1).map(picker => (
+          <label key={picker.type} className="language-picker">
+            <span className="language-picker-label">{picker.label}:</span>
+            <select
+              value={picker.value ?? ''}
+              onChange={e => onLanguageChange?.(picker.type, e.target.value)}
+            >
+              {picker.options.map(option => (
+                <option key={option.language} value={option.language}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {tracks.length > 0 && (
+          <div className="track-toggles">
+            {tracks.map(track => (
+              <button
+                key={track.id}
+                className={`track-toggle ${enabledTracks.includes(track.id) ? 'active' : ''}`}
+                onClick={() => onToggleTrack?.(track.id)}
+                title={track.id}
+              >
+                {TRACK_LABELS[track.type]}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="sync-indicator">
           <span className="sync-dot"></span>
           <span className="sync-label">Synced</span>
@@ -1,16 +1,22 @@
-import { TrackItem, TrackManager, SyncMetrics } from '../../types/index';
+import { TrackItem, TrackManager, SyncMetrics, TimeStretchEngineName, DriftCorrectionStrategy } from '../../types/index';
 import { masterClock } from '../services/MasterClock';
-import { findItemAtTime, calculateItemRelativeTime, debugTimeCalculation } from '../utils/timeUtils';
+import {
+  findItemAtTime,
+  calculateItemRelativeTime,
+  calculateMasterTime,
+  getItemMediaRange,
+  debugTimeCalculation,
+} from '../utils/timeUtils';
+import { getItemEnvelope, getEnvelopeGain, scheduleEnvelope } from '../utils/audioEnvelope';
+import { TimeStretcher } from './TimeStretcher';
+import { DriftCorrectionOptions, DriftCorrector } from './DriftCorrector';
 
-// Import SoundTouch for pitch-preserved playback rate changes
-// @ts-ignore - SoundTouch doesn't have TypeScript definitions
-// Optional dependency - will fallback if not available
-let PitchShifter: any;
-try {
-  PitchShifter = require('soundtouchjs').PitchShifter;
-} catch (e) {
-  // SoundTouch not available, using native playback rate
-}
+// Rate nudges up to 3% go unnoticed with the pitch kept; past 750 ms a seek is quicker
+const AUDIO_DRIFT_CORRECTION: Partial<DriftCorrectionOptions> = {
+  tolerance: 50,
+  seekThreshold: 750,
+  maxNudge: 0.03,
+};
 
 export class AudioManager implements TrackManager {
   private items: TrackItem[] = [];
@@ -18,8 +24,14 @@ export class AudioManager implements TrackManager {
   private audioElement: HTMLAudioElement | null = null;
   private audioContext: AudioContext | null = null;
   private sourceNode: MediaElementAudioSourceNode | null = null;
-  private pitchShifter: any = null; // SoundTouch PitchShifter
+  // Source -> time stretcher -> envelope, once the worklet has loaded
+  private timeStretcher: TimeStretcher | null = null;
   private gainNode: GainNode | null = null;
+  // Item envelope: source -> fades -> keyframes -> track volume
+  private fadeNode: GainNode | null = null;
+  private keyframeNode: GainNode | null = null;
+  private envelopeAnchor: { itemTime: number; contextTime: number; rate: number } | null = null;
+  private readonly ENVELOPE_TOLERANCE = 30; // ms
   private basePath: string = '';
   
   // Sync metrics
@@ -31,48 +43,110 @@ export class AudioManager implements TrackManager {
   };
   
   private driftHistory: number[] = [];
+  private seekLatencies: number[] = [];
+  // When a coordinated seek started, until the element has seeked
+  private seekStartedAt: number | null = null;
+  // When the element started buffering during playback, null while it plays
+  private stallStartedAt: number | null = null;
   private readonly MAX_DRIFT_HISTORY = 100;
-  private readonly SYNC_TOLERANCE = 100; // Increased tolerance to reduce corrections (ms)
+  private readonly driftCorrector: DriftCorrector;
   
   // Audio state
   private isBuffering: boolean = false;
   private currentPlaybackRate: number = 1.0;
-  private usePitchCorrection: boolean = true;
   private playPromise: Promise<void> | null = null;
   private lastSeekTime: number = 0;
-  private lastSeekTimestamp: number = 0;
+  private lastSeekTimestamp: number = -Infinity;
   
-  constructor(private volume: number = 1.0) {
+  /**
+   * @param output node to play into, e.g. a mixer channel; without one the
+   * manager plays through an AudioContext of its own
+   * @param timeStretch engine that keeps the pitch at other playback rates;
+   * 'native' leaves it to the audio element
+   * @param driftCorrection overrides of the audio drift correction thresholds
+   * @param createElement makes each audio element, e.g. a FakeMediaElement
+   * to run the manager without real playback
+   */
+  constructor(
+    private volume: number = 1.0,
+    private readonly output: AudioNode | null = null,
+    private readonly timeStretch: TimeStretchEngineName = 'native',
+    driftCorrection: Partial<DriftCorrectionOptions> = {},
+    private readonly createElement: () => HTMLAudioElement = () => document.createElement('audio')
+  ) {
+    this.driftCorrector = new DriftCorrector({ ...AUDIO_DRIFT_CORRECTION, ...driftCorrection });
     this.initializeAudioContext();
+    this.initializeTimeStretcher();
     
     // Register with MasterClock for coordination
     masterClock.registerManager(this);
   }
   
   private initializeAudioContext(): void {
-    // WebAudio API disabled
-    this.usePitchCorrection = false;
-    this.audioContext = null;
-    this.gainNode = null;
-    return;
-    
-    /* Original code commented out for debugging
     try {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.audioContext = this.output
+        ? this.output.context as AudioContext
+        : new (window.AudioContext || (window as any).webkitAudioContext)();
       
       // Create gain node for volume control
       this.gainNode = this.audioContext.createGain();
       this.gainNode.gain.value = this.volume;
-      this.gainNode.connect(this.audioContext.destination);
+      this.gainNode.connect(this.output ?? this.audioContext.destination);
+      
+      this.keyframeNode = this.audioContext.createGain();
+      this.keyframeNode.connect(this.gainNode);
+      this.fadeNode = this.audioContext.createGain();
+      this.fadeNode.connect(this.keyframeNode);
       
       console.log('[AudioManager] AudioContext initialized successfully');
     } catch (error) {
       // console.warn('[AudioManager] Failed to initialize AudioContext, will use basic audio:', error);
-      this.usePitchCorrection = false;
       this.audioContext = null;
       this.gainNode = null;
+      this.fadeNode = null;
+      this.keyframeNode = null;
+    }
+  }
+  
+  private async initializeTimeStretcher(): Promise<void> {
+    if (this.timeStretch === 'native' || !this.audioContext) return;
+    
+    try {
+      const stretcher = await TimeStretcher.create(this.audioContext, this.timeStretch);
+      if (!this.fadeNode) {
+        // Destroyed while the worklet was loading
+        stretcher.destroy();
+        return;
+      }
+      stretcher.node.connect(this.fadeNode);
+      stretcher.setPlaybackRate(this.currentPlaybackRate);
+      this.timeStretcher = stretcher;
+      this.connectSource();
+      console.log('[AudioManager] Time-stretch engine ready:', this.timeStretch);
+    } catch (error) {
+      console.warn(`[AudioManager] ${this.timeStretch} time-stretch unavailable, using the element's pitch correction:`, error);
     }
-    */
+  }
+  
+  /**
+   * Route the element through the time stretcher if there is one, else
+   * straight into the envelope with the element keeping the pitch itself
+   */
+  private connectSource(): void {
+    if (!this.sourceNode || !this.fadeNode || !this.audioElement) return;
+    
+    this.sourceNode.disconnect();
+    this.sourceNode.connect(this.timeStretcher?.node ?? this.fadeNode);
+    this.audioElement.preservesPitch = !this.timeStretcher;
+  }
+  
+  /**
+   * How far the audible audio trails the element's position, in media seconds
+   */
+  private getOutputLatency(): number {
+    return this.timeStretcher && this.audioElement
+      ? this.timeStretcher.getLatency() * this.audioElement.playbackRate
+      : 0;
   }
   
   private createAudioElement(): void {
@@ -87,39 +161,53 @@ export class AudioManager implements TrackManager {
       }
     }
     
-    this.audioElement = document.createElement('audio');
+    this.audioElement = this.createElement();
     this.audioElement.preload = 'auto';
-    // Remove crossOrigin for local files
-    // this.audioElement.crossOrigin = 'anonymous'; // Required for Web Audio API
+    // Required for Web Audio API; content:// serves audio with CORS headers
+    this.audioElement.crossOrigin = 'anonymous';
+    this.audioElement.playbackRate = this.currentPlaybackRate;
     
     // Don't set type attribute here - let browser detect from file
     
     // Add event listeners
     this.audioElement.addEventListener('waiting', () => {
       this.isBuffering = true;
+      // Buffering while the clock plays on, not the wait a seek causes
+      if (this.seekStartedAt === null && masterClock.getState().isPlaying) {
+        this.startStall();
+      }
     });
     
     this.audioElement.addEventListener('playing', () => {
       this.isBuffering = false;
+      this.endStall();
+    });
+    
+    this.audioElement.addEventListener('seeked', () => {
+      if (this.seekStartedAt !== null) {
+        this.recordSeekLatency(masterClock.now() - this.seekStartedAt);
+        this.seekStartedAt = null;
+      }
     });
     
     this.audioElement.addEventListener('error', (e) => {
       this.recoverFromAudioError();
     });
     
+    // Audio buffered in the time stretcher belongs to the old position
+    this.audioElement.addEventListener('seeking', () => this.timeStretcher?.reset());
+    
+    // Every change of position, rate or play state moves the envelope with it
+    for (const event of ['loadedmetadata', 'playing', 'pause', 'seeked', 'ratechange']) {
+      this.audioElement.addEventListener(event, () => this.applyEnvelope());
+    }
+    
     // Connect to Web Audio API if available
-    if (this.audioContext && this.gainNode) {
+    if (this.audioContext && this.fadeNode) {
       try {
         this.sourceNode = this.audioContext.createMediaElementSource(this.audioElement);
-        
-        if (this.usePitchCorrection && typeof PitchShifter !== 'undefined' && PitchShifter) {
-          this.setupPitchShifter();
-        } else {
-          // Direct connection without pitch correction
-          this.sourceNode.connect(this.gainNode);
-        }
+        this.connectSource();
       } catch (error) {
-        this.usePitchCorrection = false;
         // Audio will still play without Web Audio API
       }
     } else {
@@ -127,30 +215,6 @@ export class AudioManager implements TrackManager {
     }
   }
   
-  private setupPitchShifter(): void {
-    if (!this.sourceNode || !this.audioContext) return;
-    
-    try {
-      // Initialize SoundTouch pitch shifter
-      this.pitchShifter = new PitchShifter(this.audioContext, this.sourceNode, 16384);
-      
-      // Connect pitch shifter to gain node
-      if (this.pitchShifter && this.gainNode) {
-        this.pitchShifter.connect(this.gainNode);
-        
-        // Set initial parameters
-        this.pitchShifter.pitch = 1.0; // No pitch change
-        this.pitchShifter.tempo = this.currentPlaybackRate;
-      }
-    } catch (error) {
-      // Fallback to direct connection
-      if (this.sourceNode && this.gainNode) {
-        this.sourceNode.connect(this.gainNode);
-      }
-      this.usePitchCorrection = false;
-    }
-  }
-  
   async load(items: TrackItem[], basePath: string = ''): Promise<void> {
     this.items = items;
     this.basePath = basePath;
@@ -238,21 +302,11 @@ export class AudioManager implements TrackManager {
   }
   
   private async getAudioUrl(filePath: string): Promise<string> {
-    // If it's already a URL, return as is
+    // Items of a mounted package are already content:// URLs (with byte-range support)
     if (filePath.startsWith('http://') || filePath.startsWith('https://') || filePath.startsWith('content://')) {
       return filePath;
     }
     
-    // Use content:// protocol with byte-range support for media streaming
-    if (window.electronAPI && window.electronAPI.getAudioUrl) {
-      const contentUrl = await window.electronAPI.getAudioUrl(filePath);
-      return contentUrl;
-    } else if (window.electronAPI) {
-      // Fallback to generic file URL
-      const contentUrl = await window.electronAPI.getFileUrl(filePath);
-      return contentUrl;
-    }
-    
     // Fallback to file:// protocol
     const fileUrl = `file:///${filePath.replace(/\\/g, '/')}`;
     return fileUrl;
@@ -283,7 +337,9 @@ export class AudioManager implements TrackManager {
     if (targetIndex !== this.currentItemIndex) {
       this.loadAudioAtIndex(targetIndex)
         .then(() => {
-          this.syncCurrentAudio(masterTime, playbackRate, targetItem);
+          // Start where the clock is by now, past the boundary by the time the load took;
+          // left to the drift correction, the new item would be nudged up to speed for seconds
+          this.seekInCurrentAudio(masterClock.getState().currentTime, targetItem);
         })
         .catch(err => {
           // Continue without audio
@@ -299,17 +355,18 @@ export class AudioManager implements TrackManager {
     if (!this.audioElement) return;
     
     // Skip sync during seeking to prevent conflicts
-    const now = Date.now();
+    const now = masterClock.now();
     if ((now - this.lastSeekTimestamp) < 500) {
       return; // Just seeked, skip sync for a moment
     }
     
     // Calculate where we should be in this audio using unified calculation
     const audioTime = calculateItemRelativeTime(item, masterTime);
-    const audioDuration = item.duration_ms ? item.duration_ms / 1000 : this.audioElement.duration;
+    const { start: inPoint, end: outPoint } = getItemMediaRange(item);
+    const audioDuration = outPoint ?? this.audioElement.duration;
     
     // Validate audio time is within bounds
-    if (audioTime < 0) {
+    if (audioTime < inPoint) {
       // Haven't reached this audio yet
       if (!this.audioElement.paused) {
         console.log('[AudioManager] Audio time is negative, pausing');
@@ -327,21 +384,38 @@ export class AudioManager implements TrackManager {
       return;
     }
     
-    const currentAudioTime = this.audioElement.currentTime;
-    const drift = Math.abs(currentAudioTime - audioTime) * 1000; // Convert back to ms
+    if (outPoint !== null && this.audioElement.currentTime >= outPoint) {
+      // Reached the out-point; stay silent for the rest of the item
+      if (!this.audioElement.paused) {
+        this.audioElement.pause();
+      }
+      return;
+    }
+    
+    // Compare what is heard, which trails the element by the time stretcher's latency
+    const latency = this.getOutputLatency();
+    const currentAudioTime = this.audioElement.currentTime - latency;
+    this.checkEnvelopeAlignment(item, currentAudioTime);
+    
+    const offset = (currentAudioTime - audioTime) * 1000; // Convert back to ms
+    const drift = Math.abs(offset);
+    this.syncMetrics.latency = this.timeStretcher ? latency * 1000 : undefined;
     
     // Update metrics
     this.updateSyncMetrics(drift);
     
-    // Apply sync correction if drift exceeds tolerance
-    if (drift > this.SYNC_TOLERANCE) {
-      // Only correct if the drift is significant (>200ms) to avoid micro-corrections
-      // Also avoid corrections during buffering or if audio was recently seeked
-      const now = Date.now();
-      const timeSinceSeek = now - this.lastSeekTimestamp;
+    // Update playback rate if different
+    if (Math.abs(this.currentPlaybackRate - playbackRate) > 0.01) {
+      this.setPlaybackRate(playbackRate);
+    }
+    
+    const correction = this.driftCorrector.update(offset, playbackRate, masterClock.now());
+    if (correction.seek) {
+      // Avoid corrections during buffering or if audio was recently seeked
+      const timeSinceSeek = masterClock.now() - this.lastSeekTimestamp;
       
-      if (drift > 200 && timeSinceSeek > 1000 && !this.isBuffering) {
-        const clampedTime = Math.max(0, Math.min(audioTime, audioDuration || audioTime));
+      if (timeSinceSeek > 1000 && !this.isBuffering) {
+        const clampedTime = Math.max(inPoint, Math.min(audioTime + latency, audioDuration || audioTime));
         this.audioElement.currentTime = clampedTime;
         this.syncMetrics.corrections++;
         
@@ -349,9 +423,9 @@ export class AudioManager implements TrackManager {
       }
     }
     
-    // Update playback rate if different
-    if (Math.abs(this.currentPlaybackRate - playbackRate) > 0.01) {
-      this.setPlaybackRate(playbackRate);
+    // The clock's rate, nudged while a drift is being made up
+    if (Math.abs(this.audioElement.playbackRate - correction.rate) > 0.0005) {
+      this.applyRate(correction.rate);
     }
     
     // Ensure audio is playing if it should be
@@ -359,7 +433,7 @@ export class AudioManager implements TrackManager {
       // Only attempt to play if audio is ready and not already trying
       if (this.audioElement.readyState >= 2 && !this.playPromise) {
         // Throttle play attempts to prevent spamming
-        const now = Date.now();
+        const now = masterClock.now();
         const lastPlayAttempt = (this as any).lastPlayAttemptTime || 0;
         
         if (now - lastPlayAttempt > 1000) { // Only try once per second
@@ -385,6 +459,48 @@ export class AudioManager implements TrackManager {
   
   // Removed: Using unified findItemAtTime from timeUtils instead
   
+  /**
+   * Schedule the current item's fades and volume keyframes from the audio
+   * position, so the envelope follows seeks, rate changes and pauses
+   */
+  private applyEnvelope(): void {
+    const item = this.getCurrentItem();
+    if (!item || !this.audioElement) return;
+    
+    const itemTime = calculateMasterTime(item, this.audioElement.currentTime - this.getOutputLatency()) - item.start_ms;
+    const envelope = getItemEnvelope(item, this.audioElement.duration);
+    
+    if (!this.audioContext || !this.fadeNode || !this.keyframeNode) {
+      // Basic audio: step the element volume on every sync instead
+      this.audioElement.volume = this.volume *
+        getEnvelopeGain(envelope.fades, itemTime) * getEnvelopeGain(envelope.keyframes, itemTime);
+      return;
+    }
+    
+    const rate = this.audioElement.paused ? 0 : this.audioElement.playbackRate;
+    const now = this.audioContext.currentTime;
+    scheduleEnvelope(this.fadeNode.gain, envelope.fades, itemTime, now, rate);
+    scheduleEnvelope(this.keyframeNode.gain, envelope.keyframes, itemTime, now, rate);
+    this.envelopeAnchor = { itemTime, contextTime: now, rate };
+  }
+  
+  /**
+   * Reschedule the envelope if the audio moved away from it, e.g. after a stall
+   */
+  private checkEnvelopeAlignment(item: TrackItem, currentAudioTime: number): void {
+    const anchor = this.envelopeAnchor;
+    if (!this.audioContext || !anchor) {
+      this.applyEnvelope();
+      return;
+    }
+    
+    const expected = anchor.itemTime + (this.audioContext.currentTime - anchor.contextTime) * 1000 * anchor.rate;
+    const actual = calculateMasterTime(item, currentAudioTime) - item.start_ms;
+    if (Math.abs(expected - actual) > this.ENVELOPE_TOLERANCE) {
+      this.applyEnvelope();
+    }
+  }
+  
   private updateSyncMetrics(drift: number): void {
     this.syncMetrics.drift = drift;
     
@@ -430,6 +546,7 @@ export class AudioManager implements TrackManager {
   }
   
   pause(): void {
+    this.endStall();
     if (!this.audioElement || this.audioElement.paused) return;
     
     // Wait for any pending play promise before pausing
@@ -447,7 +564,7 @@ export class AudioManager implements TrackManager {
   
   async seek(timeMs: number): Promise<void> {
     // Prevent duplicate seeks to same time
-    const now = Date.now();
+    const now = masterClock.now();
     if (Math.abs(timeMs - this.lastSeekTime) < 1 && (now - this.lastSeekTimestamp) < 100) {
       console.log('[AudioManager] Ignoring duplicate seek to:', timeMs);
       return;
@@ -455,6 +572,9 @@ export class AudioManager implements TrackManager {
     
     this.lastSeekTime = timeMs;
     this.lastSeekTimestamp = now;
+    this.seekStartedAt = now;
+    this.driftCorrector.reset();
+    this.applyRate(this.currentPlaybackRate);
     
     console.log('[AudioManager] Seeking to:', timeMs, 'ms');
     
@@ -466,7 +586,7 @@ export class AudioManager implements TrackManager {
     try {
       // Wrap entire seek operation with timeout
       await new Promise<void>(async (resolve, reject) => {
-        const timeoutId = setTimeout(() => {
+        const timeoutId = masterClock.getTimer().setTimeout(() => {
           // console.warn('[AudioManager] Seek timeout after 3 seconds');
           resolve(); // Resolve to not block other operations
         }, 3000);
@@ -483,7 +603,8 @@ export class AudioManager implements TrackManager {
             if (this.audioElement && !this.audioElement.paused) {
               this.audioElement.pause();
             }
-            clearTimeout(timeoutId);
+            this.seekStartedAt = null;
+            masterClock.getTimer().clearTimeout(timeoutId);
             resolve();
             return;
           }
@@ -499,10 +620,10 @@ export class AudioManager implements TrackManager {
           // Wait for audio to be ready with timeout
           if (this.audioElement && this.audioElement.readyState < 2) {
             console.log('[AudioManager] Waiting for audio to be ready...');
-            const readyTimeout = Date.now() + 2000; // 2 second max wait
+            const readyTimeout = masterClock.now() + 2000; // 2 second max wait
             
-            while (this.audioElement && this.audioElement.readyState < 2 && Date.now() < readyTimeout) {
-              await new Promise(r => setTimeout(r, 50));
+            while (this.audioElement && this.audioElement.readyState < 2 && masterClock.now() < readyTimeout) {
+              await new Promise<void>(r => masterClock.getTimer().setTimeout(r, 50));
             }
             
             if (this.audioElement && this.audioElement.readyState < 2) {
@@ -513,12 +634,12 @@ export class AudioManager implements TrackManager {
           // Perform the seek (this will also resume playback if needed)
           this.seekInCurrentAudio(timeMs, targetItem);
           
-          clearTimeout(timeoutId);
+          masterClock.getTimer().clearTimeout(timeoutId);
           console.log('[AudioManager] Audio seek completed to time:', timeMs);
           resolve();
           
         } catch (err) {
-          clearTimeout(timeoutId);
+          masterClock.getTimer().clearTimeout(timeoutId);
           console.error('[AudioManager] Audio seek failed:', err);
           resolve(); // Still resolve to not block
         }
@@ -533,19 +654,21 @@ export class AudioManager implements TrackManager {
     if (!this.audioElement) return;
     
     // Use unified time calculation
-    const audioTime = calculateItemRelativeTime(item, timeMs);
-    const clampedTime = Math.max(0, Math.min(audioTime, this.audioElement.duration || audioTime));
+    // Start the element ahead by the time stretcher's latency so the audible position lands on timeMs
+    const audioTime = calculateItemRelativeTime(item, timeMs) + this.getOutputLatency();
+    const outPoint = getItemMediaRange(item).end ?? this.audioElement.duration;
+    const clampedTime = Math.min(audioTime, outPoint || audioTime);
     
     console.log('[AudioManager] Setting audio time to:', clampedTime, 'seconds (master time:', timeMs, 'ms)');
     this.audioElement.currentTime = clampedTime;
     
     // Force sync update to master clock
-    const masterTime = (clampedTime * 1000) + item.start_ms;
+    const masterTime = calculateMasterTime(item, clampedTime);
     console.log('[AudioManager] Updating master clock from audio seek:', masterTime);
     
     // Resume playback if master clock is playing
     const clockState = masterClock.getState();
-    if (clockState.isPlaying && this.audioElement.paused) {
+    if (clockState.isPlaying && this.audioElement.paused && !(outPoint && clampedTime >= outPoint)) {
       console.log('[AudioManager] Resuming audio playback after seek (master clock is playing)');
       const promise = this.audioElement.play();
       if (promise !== undefined) {
@@ -563,19 +686,26 @@ export class AudioManager implements TrackManager {
   
   setPlaybackRate(rate: number): void {
     this.currentPlaybackRate = rate;
-    
+    this.driftCorrector.reset();
+    this.applyRate(rate);
+  }
+  
+  /**
+   * Switch between seeking and rate nudging to correct drift
+   */
+  setDriftCorrection(strategy: DriftCorrectionStrategy): void {
+    this.driftCorrector.setStrategy(strategy);
+    this.applyRate(this.currentPlaybackRate);
+  }
+  
+  private applyRate(rate: number): void {
     if (this.audioElement) {
-      if (this.usePitchCorrection && this.pitchShifter) {
-        // Use pitch shifter to maintain pitch while changing tempo
-        this.pitchShifter.tempo = rate;
-        this.pitchShifter.pitch = 1.0; // Keep original pitch
-        // Keep audio element at normal speed when using pitch shifter
-        this.audioElement.playbackRate = 1.0;
-      } else {
-        // Fallback to native playback rate (will change pitch)
-        this.audioElement.playbackRate = rate;
-      }
+      // The element always plays at the clock's rate (give or take a drift
+      // nudge); the pitch is kept either by the element itself or by the time
+      // stretcher behind it
+      this.audioElement.playbackRate = rate;
     }
+    this.timeStretcher?.setPlaybackRate(rate);
   }
   
   setVolume(volume: number): void {
@@ -583,8 +713,8 @@ export class AudioManager implements TrackManager {
     
     if (this.gainNode) {
       this.gainNode.gain.value = this.volume;
-    } else if (this.audioElement) {
-      this.audioElement.volume = this.volume;
+    } else {
+      this.applyEnvelope();
     }
   }
   
@@ -599,8 +729,38 @@ export class AudioManager implements TrackManager {
     return this.audioElement;
   }
   
+  /**
+   * Count a buffering stall; its length is added when playback resumes
+   */
+  private startStall(): void {
+    if (this.stallStartedAt !== null) return;
+    this.stallStartedAt = masterClock.now();
+    this.syncMetrics.stalls = (this.syncMetrics.stalls ?? 0) + 1;
+  }
+  
+  private endStall(): void {
+    if (this.stallStartedAt === null) return;
+    this.syncMetrics.stallTime = (this.syncMetrics.stallTime ?? 0) + masterClock.now() - this.stallStartedAt;
+    this.stallStartedAt = null;
+  }
+  
+  /**
+   * Record how long a coordinated seek took until the element had seeked
+   */
+  private recordSeekLatency(latency: number): void {
+    this.seekLatencies.push(latency);
+    if (this.seekLatencies.length > this.MAX_DRIFT_HISTORY) {
+      this.seekLatencies.shift();
+    }
+    const sum = this.seekLatencies.reduce((a, b) => a + b, 0);
+    this.syncMetrics.seeks = (this.syncMetrics.seeks ?? 0) + 1;
+    this.syncMetrics.lastSeekLatency = latency;
+    this.syncMetrics.averageSeekLatency = sum / this.seekLatencies.length;
+    this.syncMetrics.maxSeekLatency = Math.max(this.syncMetrics.maxSeekLatency ?? 0, latency);
+  }
+  
   getSyncMetrics(): SyncMetrics {
-    return { ...this.syncMetrics };
+    return { ...this.syncMetrics, ...this.driftCorrector.getMetrics() };
   }
   
   destroy(): void {
@@ -621,9 +781,9 @@ export class AudioManager implements TrackManager {
       this.sourceNode = null;
     }
     
-    if (this.pitchShifter) {
-      this.pitchShifter.disconnect();
-      this.pitchShifter = null;
+    if (this.timeStretcher) {
+      this.timeStretcher.destroy();
+      this.timeStretcher = null;
     }
     
     if (this.gainNode) {
@@ -631,21 +791,31 @@ export class AudioManager implements TrackManager {
       this.gainNode = null;
     }
     
-    if (this.audioContext) {
+    this.fadeNode?.disconnect();
+    this.fadeNode = null;
+    this.keyframeNode?.disconnect();
+    this.keyframeNode = null;
+    this.envelopeAnchor = null;
+    
+    // A shared context belongs to the mixer
+    if (this.audioContext && !this.output) {
       this.audioContext.close();
-      this.audioContext = null;
     }
+    this.audioContext = null;
     
     this.items = [];
     this.currentItemIndex = -1;
     this.driftHistory = [];
+    this.seekLatencies = [];
+    this.seekStartedAt = null;
+    this.stallStartedAt = null;
   }
 
   private recoverFromAudioError(): void {
     if (!this.audioElement || this.currentItemIndex < 0) return;
     
     // Prevent infinite recovery loops
-    const now = Date.now();
+    const now = masterClock.now();
     if ((this as any).lastRecoveryAttempt && now - (this as any).lastRecoveryAttempt < 5000) {
       // console.warn('[AudioManager] Skipping recovery - too frequent attempts');
       return;
@@ -668,7 +838,7 @@ export class AudioManager implements TrackManager {
     try {
       this.audioElement.load();
       
-      setTimeout(async () => {
+      masterClock.getTimer().setTimeout(async () => {
         if (this.audioElement && this.audioElement.error === null) {
           console.log('[AudioManager] Audio gentle recovery successful');
           this.audioElement.currentTime = currentTime;
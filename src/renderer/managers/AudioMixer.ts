@@ -0,0 +1,283 @@
+import { AudioChannelState, AudioTrackRole, DriftCorrectionStrategy, Track, TrackItem, TrackSyncMetrics } from '../../types/index';
+import { findItemAtTime, findNextItem, getItemBoundaries } from '../utils/timeUtils';
+import { masterClock } from '../services/MasterClock';
+import { AudioManager } from './AudioManager';
+import { DEFAULT_DRIFT_CORRECTION } from './DriftCorrector';
+
+/**
+ * Mixes every audio track of a manifest.
+ *
+ * Each track gets its own AudioManager, all playing into one shared
+ * AudioContext: manager -> duck -> fader -> master. The fader applies the
+ * track's volume, mute and solo; the duck stage lowers music tracks while a
+ * narration track has an item playing. Ducking is scheduled ahead on the
+ * AudioContext timeline, so it lands on the narration item's start rather than
+ * on the next sync.
+ */
+
+interface MixerChannel {
+  trackId: string;
+  role?: AudioTrackRole;
+  items: TrackItem[];
+  manager: AudioManager;
+  // null without Web Audio
+  duckNode: GainNode | null;
+  faderNode: GainNode | null;
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+  enabled: boolean;
+}
+
+// Gain of ducked music and the time constants of the duck ramps, in seconds
+const DUCK_LEVEL = 0.3;
+const DUCK_ATTACK = 0.08;
+const DUCK_RELEASE = 0.4;
+
+// Syncs arrive a few times a second; schedule duck changes this far ahead
+const DUCK_LOOKAHEAD_MS = 1000;
+
+export class AudioMixer {
+  private context: AudioContext | null = null;
+  private masterNode: GainNode | null = null;
+  private channels: MixerChannel[] = [];
+  private ducked = false;
+  private driftCorrection: DriftCorrectionStrategy = DEFAULT_DRIFT_CORRECTION.strategy;
+
+  constructor() {
+    try {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.masterNode = this.context.createGain();
+      this.masterNode.connect(this.context.destination);
+    } catch (error) {
+      // Without Web Audio every manager plays on its own; volume and mute still apply
+      console.warn('[AudioMixer] AudioContext unavailable, mixing disabled:', error);
+      this.context = null;
+      this.masterNode = null;
+    }
+  }
+
+  /**
+   * Create one channel per audio track and load its items
+   */
+  async load(tracks: Track[], basePath: string = ''): Promise<void> {
+    this.destroyChannels();
+
+    for (const track of tracks) {
+      const duckNode = this.createGain(this.masterNode);
+      const faderNode = this.createGain(duckNode);
+      const items = [...track.items].sort((a, b) => a.start_ms - b.start_ms);
+      const channel: MixerChannel = {
+        trackId: track.id,
+        role: track.settings.role,
+        items,
+        manager: new AudioManager(1.0, faderNode, track.settings.time_stretch, { strategy: this.driftCorrection }),
+        duckNode,
+        faderNode,
+        volume: track.settings.volume,
+        muted: track.settings.muted,
+        solo: false,
+        enabled: track.settings.enabled,
+      };
+      this.channels.push(channel);
+
+      try {
+        await channel.manager.load(items, basePath);
+      } catch (err) {
+        // Don't throw - the other tracks keep playing
+        console.error('[AudioMixer] Failed to load audio track:', track.id, err);
+      }
+    }
+
+    this.applyFaders();
+    console.log('[AudioMixer] Loaded', this.channels.length, 'audio tracks');
+  }
+
+  sync(masterTime: number, playbackRate: number): void {
+    this.channels.forEach(channel => channel.manager.sync(masterTime, playbackRate));
+    this.updateDucking(masterTime, playbackRate);
+  }
+
+  play(): void {
+    if (this.context?.state === 'suspended') {
+      this.context.resume();
+    }
+    this.channels.forEach(channel => channel.manager.play());
+  }
+
+  pause(): void {
+    this.channels.forEach(channel => channel.manager.pause());
+    this.updateDucking(masterClock.getState().currentTime, 0);
+  }
+
+  async seek(timeMs: number): Promise<void> {
+    this.updateDucking(timeMs, 0);
+    await Promise.all(this.channels.map(channel => channel.manager.seek(timeMs)));
+  }
+
+  setPlaybackRate(rate: number): void {
+    this.channels.forEach(channel => channel.manager.setPlaybackRate(rate));
+  }
+
+  setDriftCorrection(strategy: DriftCorrectionStrategy): void {
+    this.driftCorrection = strategy;
+    this.channels.forEach(channel => channel.manager.setDriftCorrection(strategy));
+  }
+
+  setTrackVolume(trackId: string, volume: number): void {
+    this.updateChannel(trackId, { volume: Math.max(0, Math.min(1, volume)) });
+  }
+
+  setTrackMuted(trackId: string, muted: boolean): void {
+    this.updateChannel(trackId, { muted });
+  }
+
+  /**
+   * While any track is soloed, only soloed tracks are heard
+   */
+  setTrackSolo(trackId: string, solo: boolean): void {
+    this.updateChannel(trackId, { solo });
+  }
+
+  /**
+   * Switch a track on or off from the track toggles; a disabled track keeps syncing
+   */
+  setTrackEnabled(trackId: string, enabled: boolean): void {
+    this.updateChannel(trackId, { enabled });
+  }
+
+  getChannels(): AudioChannelState[] {
+    return this.channels.map(channel => ({
+      trackId: channel.trackId,
+      role: channel.role,
+      volume: channel.volume,
+      muted: channel.muted,
+      solo: channel.solo,
+      enabled: channel.enabled,
+      ducked: this.ducked && channel.role === 'music',
+    }));
+  }
+
+  /**
+   * Metrics of every track, e.g. for the sync telemetry
+   */
+  getTrackSyncMetrics(): TrackSyncMetrics[] {
+    return this.channels.map(channel => ({
+      id: channel.trackId,
+      type: 'audio',
+      metrics: channel.manager.getSyncMetrics(),
+    }));
+  }
+
+  /**
+   * The shared context, e.g. for the master clock's audio source; null without Web Audio
+   */
+  getContext(): AudioContext | null {
+    return this.context;
+  }
+
+  destroy(): void {
+    this.destroyChannels();
+    this.masterNode?.disconnect();
+    this.masterNode = null;
+    this.context?.close();
+    this.context = null;
+  }
+
+  private createGain(output: AudioNode | null): GainNode | null {
+    if (!this.context || !output) {
+      return null;
+    }
+    const node = this.context.createGain();
+    node.connect(output);
+    return node;
+  }
+
+  private updateChannel(trackId: string, changes: Partial<Pick<MixerChannel, 'volume' | 'muted' | 'solo' | 'enabled'>>): void {
+    const channel = this.channels.find(c => c.trackId === trackId);
+    if (!channel) {
+      return;
+    }
+    Object.assign(channel, changes);
+    this.applyFaders();
+    
+    // Muting or soloing can start or end the ducking
+    const { currentTime, isPlaying, playbackRate } = masterClock.getState();
+    this.updateDucking(currentTime, isPlaying ? playbackRate : 0);
+  }
+
+  private isAudible(channel: MixerChannel): boolean {
+    const soloActive = this.channels.some(c => c.solo);
+    return channel.enabled && !channel.muted && (!soloActive || channel.solo);
+  }
+
+  private applyFaders(): void {
+    for (const channel of this.channels) {
+      const gain = this.isAudible(channel) ? channel.volume : 0;
+      if (channel.faderNode && this.context) {
+        // A short ramp instead of a jump avoids clicks when a fader moves
+        channel.faderNode.gain.setTargetAtTime(gain, this.context.currentTime, 0.015);
+      } else {
+        channel.manager.setVolume(gain);
+      }
+    }
+  }
+
+  /**
+   * Duck music while an audible narration track has an item at masterTime, and
+   * schedule the next change if it falls within the lookahead.
+   * A playbackRate of 0 (seek, pause) sets the state without looking ahead.
+   */
+  private updateDucking(masterTime: number, playbackRate: number): void {
+    const music = this.channels.filter(c => c.role === 'music');
+    const narration = this.channels.filter(c => c.role === 'narration' && this.isAudible(c));
+    if (!this.context || music.length === 0) {
+      return;
+    }
+
+    const active = narration
+      .map(channel => findItemAtTime(channel.items, masterTime))
+      .filter((item): item is TrackItem => item !== null);
+    this.ducked = active.length > 0;
+
+    // Next change: the end of the narration playing now, or the start of the next one
+    let changeAt: number | null = null;
+    if (this.ducked) {
+      const end = Math.max(...active.map(item => getItemBoundaries(item).end));
+      const continues = narration.some(channel => findItemAtTime(channel.items, end) !== null);
+      changeAt = continues ? null : end;
+    } else {
+      const starts = narration
+        .map(channel => findNextItem(channel.items, masterTime)?.start_ms)
+        .filter((start): start is number => start !== undefined);
+      changeAt = starts.length > 0 ? Math.min(...starts) : null;
+    }
+
+    const now = this.context.currentTime;
+    for (const channel of music) {
+      const gain = channel.duckNode?.gain;
+      if (!gain) continue;
+      gain.cancelScheduledValues(now);
+      gain.setTargetAtTime(this.ducked ? DUCK_LEVEL : 1, now, this.ducked ? DUCK_ATTACK : DUCK_RELEASE);
+
+      if (changeAt !== null && playbackRate > 0 && changeAt - masterTime <= DUCK_LOOKAHEAD_MS) {
+        const at = now + (changeAt - masterTime) / 1000 / playbackRate;
+        gain.setTargetAtTime(this.ducked ? 1 : DUCK_LEVEL, at, this.ducked ? DUCK_RELEASE : DUCK_ATTACK);
+      }
+    }
+  }
+
+  private destroyChannels(): void {
+    for (const channel of this.channels) {
+      try {
+        channel.manager.destroy();
+      } catch (err) {
+        console.warn('[AudioMixer] Error destroying audio track:', err);
+      }
+      channel.faderNode?.disconnect();
+      channel.duckNode?.disconnect();
+    }
+    this.channels = [];
+    this.ducked = false;
+  }
+}
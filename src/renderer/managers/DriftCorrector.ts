@@ -0,0 +1,144 @@
+import { DriftCorrectionStrategy, SyncMetrics } from '../../types/index';
+
+/**
+ * Decides how a manager brings its media element back onto the clock.
+ *
+ * With the 'seek' strategy any drift past the tolerance is corrected by
+ * setting currentTime, which skips audio and drops frames. With 'rate' the
+ * element's playback rate is nudged by a few percent until the drift is made
+ * up, and only drift past the seek threshold is still seeked away. The
+ * strategy can be switched at runtime so the two can be compared.
+ *
+ * A nudge in proportion to the drift alone leaves media that runs at a
+ * constant skew (a fast or slow device clock) short of the clock: it settles
+ * where the nudge cancels the skew. So the corrector also learns a rate
+ * offset from the drift over time and keeps it after the drift is made up,
+ * bringing skewed media back inside the tolerance.
+ */
+
+export interface DriftCorrectionOptions {
+  strategy: DriftCorrectionStrategy;
+  // Drift left alone (ms)
+  tolerance: number;
+  // Rate strategy: drift too large to make up by nudging, corrected with a seek (ms)
+  seekThreshold: number;
+  // Rate strategy: largest nudge, as a fraction of the playback rate
+  maxNudge: number;
+  // Rate strategy: media time over which a drift is made up (ms)
+  convergeTime: number;
+}
+
+export interface DriftCorrection {
+  seek: boolean;
+  // Rate to play at, the clock's rate with any nudge applied
+  rate: number;
+}
+
+export const DEFAULT_DRIFT_CORRECTION: DriftCorrectionOptions = {
+  strategy: 'rate',
+  tolerance: 50,
+  seekThreshold: 1000,
+  maxNudge: 0.05,
+  convergeTime: 2000,
+};
+
+// The learned offset follows the drift over two convergence times: quick to
+// make up a skew, with little overshoot
+const OFFSET_CONVERGE_FACTOR = 2;
+// Longest gap between updates that is learned from, e.g. across a pause (ms)
+const MAX_UPDATE_GAP = 1000;
+
+export class DriftCorrector {
+  private options: DriftCorrectionOptions;
+  // Nudge while a drift is made up, and the learned rate offset that stays
+  private nudge = 0;
+  private offset = 0;
+  private isNudging = false;
+  private nudges = 0;
+  private lastUpdateAt: number | null = null;
+
+  constructor(options: Partial<DriftCorrectionOptions> = {}) {
+    this.options = { ...DEFAULT_DRIFT_CORRECTION, ...options };
+  }
+
+  setStrategy(strategy: DriftCorrectionStrategy): void {
+    if (strategy !== this.options.strategy) {
+      this.options = { ...this.options, strategy };
+      this.nudge = 0;
+      this.isNudging = false;
+      this.offset = 0;
+      this.lastUpdateAt = null;
+    }
+  }
+
+  getStrategy(): DriftCorrectionStrategy {
+    return this.options.strategy;
+  }
+
+  /**
+   * How to correct a drift (ms, positive when the media is ahead of the clock)
+   * measured at now (clock timer ms) while the clock plays at rate. Seeks are
+   * the caller's to throttle.
+   */
+  update(drift: number, rate: number, now: number): DriftCorrection {
+    const { strategy, tolerance, seekThreshold, maxNudge, convergeTime } = this.options;
+    const magnitude = Math.abs(drift);
+    const elapsed = this.lastUpdateAt === null ? 0 : Math.max(0, Math.min(now - this.lastUpdateAt, MAX_UPDATE_GAP));
+    this.lastUpdateAt = now;
+
+    if (magnitude > (strategy === 'seek' ? tolerance : seekThreshold)) {
+      this.nudge = 0;
+      this.isNudging = false;
+      return { seek: true, rate };
+    }
+
+    if (strategy === 'rate') {
+      // Keep nudging until well inside the tolerance, so it does not stop on the edge
+      const settled = this.isNudging ? magnitude <= tolerance / 2 : magnitude <= tolerance;
+      if (settled) {
+        this.nudge = 0;
+        this.isNudging = false;
+      } else {
+        if (!this.isNudging) {
+          this.nudges++;
+          this.isNudging = true;
+        }
+        // Made up to the middle of the tolerance; the offset learns until
+        // then and is held from there
+        const correction = -(drift - Math.sign(drift) * tolerance / 2) / convergeTime;
+        this.offset = clamp(this.offset + correction * elapsed / (OFFSET_CONVERGE_FACTOR * convergeTime), maxNudge);
+        // Together with the offset, no more than the largest nudge
+        this.nudge = clamp(this.offset + correction, maxNudge) - this.offset;
+      }
+    }
+    return { seek: false, rate: this.getRate(rate) };
+  }
+
+  /**
+   * The clock's rate with the learned offset and the current nudge applied
+   */
+  getRate(rate: number): number {
+    return rate * (1 + this.offset + this.nudge);
+  }
+
+  /**
+   * Drop any nudge, e.g. after a seek or a rate change. The learned offset
+   * stays: the media's skew does not change with its position or rate.
+   */
+  reset(): void {
+    this.nudge = 0;
+    this.isNudging = false;
+    this.lastUpdateAt = null;
+  }
+
+  /**
+   * Strategy and nudge figures for a manager's SyncMetrics
+   */
+  getMetrics(): Pick<SyncMetrics, 'strategy' | 'nudges' | 'rateNudge'> {
+    return { strategy: this.options.strategy, nudges: this.nudges, rateNudge: this.offset + this.nudge };
+  }
+}
+
+function clamp(value: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, value));
+}
@@ -1,5 +1,6 @@
 import { TrackItem, TrackManager } from '../../types/index';
 import { findItemAtTime, debugTimeCalculation } from '../utils/timeUtils';
+import { masterClock } from '../services/MasterClock';
 
 export class HtmlManager implements TrackManager {
   private items: TrackItem[] = [];
@@ -8,7 +9,7 @@ export class HtmlManager implements TrackManager {
   private iframeElement: HTMLIFrameElement | null = null;
   private basePath: string = '';
   private currentItem: TrackItem | null = null;
-  private switchTimeout: NodeJS.Timeout | null = null;
+  private switchTimeout: number | null = null;
   private lastSwitchTime: number = 0;
   
   constructor(container?: HTMLElement) {
@@ -156,11 +157,11 @@ export class HtmlManager implements TrackManager {
     
     // Check if we need to switch HTML content with debouncing
     if (targetItem !== this.currentItem) {
-      const now = Date.now();
+      const now = masterClock.now();
       
       // Clear any pending switch
       if (this.switchTimeout) {
-        clearTimeout(this.switchTimeout);
+        masterClock.getTimer().clearTimeout(this.switchTimeout);
         this.switchTimeout = null;
       }
       
@@ -176,10 +177,10 @@ export class HtmlManager implements TrackManager {
         this.loadHtmlContent(targetItem);
       } else {
         // Debounced switch for normal playback
-        this.switchTimeout = setTimeout(() => {
+        this.switchTimeout = masterClock.getTimer().setTimeout(() => {
           if (this.currentItem !== targetItem) {
             // console.log('[HtmlManager] Debounced content switch at time:', masterTime, 'item:', targetItem.file);
-            this.lastSwitchTime = Date.now();
+            this.lastSwitchTime = masterClock.now();
             this.loadHtmlContent(targetItem);
           }
           this.switchTimeout = null;
@@ -249,7 +250,7 @@ export class HtmlManager implements TrackManager {
       
       // Add animation for smooth transition
       this.iframeElement.style.opacity = '0';
-      setTimeout(() => {
+      masterClock.getTimer().setTimeout(() => {
         if (this.iframeElement) {
           this.iframeElement.style.transition = 'opacity 0.3s';
           this.iframeElement.style.opacity = '1';
@@ -263,16 +264,11 @@ export class HtmlManager implements TrackManager {
   }
   
   private async getHtmlUrl(filePath: string): Promise<string> {
-    // If it's already a URL, return as is
+    // Items of a mounted package are already content:// URLs
     if (filePath.startsWith('http://') || filePath.startsWith('https://') || filePath.startsWith('content://')) {
       return filePath;
     }
     
-    // Convert local file path to content:// URL via Electron IPC
-    if (window.electronAPI) {
-      return await window.electronAPI.getFileUrl(filePath);
-    }
-    
     // Fallback to file:// protocol
     return `file:///${filePath.replace(/\\/g, '/')}`;
   }
@@ -342,16 +338,16 @@ export class HtmlManager implements TrackManager {
       if (targetItem !== this.currentItem) {
         // Wrap loadHtmlContent in a Promise with timeout
         await new Promise<void>((resolve, reject) => {
-          const timeoutId = setTimeout(() => {
+          const timeoutId = masterClock.getTimer().setTimeout(() => {
             console.warn('[HtmlManager] HTML content load timeout');
             resolve(); // Resolve to not block other operations
           }, 2000); // 2 second timeout
           
           this.loadHtmlContent(targetItem).then(() => {
-            clearTimeout(timeoutId);
+            masterClock.getTimer().clearTimeout(timeoutId);
             resolve();
           }).catch(error => {
-            clearTimeout(timeoutId);
+            masterClock.getTimer().clearTimeout(timeoutId);
             console.error('[HtmlManager] Failed to load HTML content:', error);
             resolve(); // Still resolve to not block
           });
@@ -380,7 +376,7 @@ export class HtmlManager implements TrackManager {
   destroy(): void {
     // Clean up any pending timeouts
     if (this.switchTimeout) {
-      clearTimeout(this.switchTimeout);
+      masterClock.getTimer().clearTimeout(this.switchTimeout);
       this.switchTimeout = null;
     }
     
@@ -1,6 +1,6 @@
 import { TrackItem, TrackManager } from '../../types/index';
 import { masterClock } from '../services/MasterClock';
-import { findItemAtTime, debugTimeCalculation } from '../utils/timeUtils';
+import { findItemAtTime, calculateMasterTime, getItemMediaRange, debugTimeCalculation } from '../utils/timeUtils';
 
 interface VTTCue {
   id?: string;
@@ -120,7 +120,8 @@ export class SubtitleManager implements TrackManager {
     
     try {
       const vttContent = await this.loadVTTFile(item.file);
-      this.currentCues = this.parseVTT(vttContent, item.start_ms);
+      // Cue times are relative to the file; map them onto the timeline past the in-point
+      this.currentCues = this.trimCues(this.parseVTT(vttContent, calculateMasterTime(item, 0)), item);
       // console.log('[SubtitleManager] Loaded', this.currentCues.length, 'cues');
     } catch (error) {
       console.error('[SubtitleManager] Failed to load subtitle file:', error);
@@ -129,22 +130,28 @@ export class SubtitleManager implements TrackManager {
   }
   
   private async loadVTTFile(filePath: string): Promise<string> {
-    // If it's a URL, fetch it
-    if (filePath.startsWith('http://') || filePath.startsWith('https://')) {
+    // Items of a mounted package are content:// URLs, which fetch() can read
+    if (filePath.startsWith('http://') || filePath.startsWith('https://') || filePath.startsWith('content://')) {
       const response = await fetch(filePath);
       return await response.text();
     }
     
-    // For local files, use Electron IPC to get content URL
-    if (window.electronAPI) {
-      const url = await window.electronAPI.getFileUrl(filePath);
-      const response = await fetch(url);
-      return await response.text();
-    }
-    
     throw new Error('Unable to load VTT file: ' + filePath);
   }
   
+  /**
+   * Keep only the cues between the item's in- and out-points, clipped to them
+   */
+  private trimCues(cues: VTTCue[], item: TrackItem): VTTCue[] {
+    const { start, end } = getItemMediaRange(item);
+    const from = calculateMasterTime(item, start) / 1000;
+    const to = end === null ? Infinity : calculateMasterTime(item, end) / 1000;
+    
+    return cues
+      .filter(cue => cue.endTime > from && cue.startTime < to)
+      .map(cue => ({ ...cue, startTime: Math.max(cue.startTime, from), endTime: Math.min(cue.endTime, to) }));
+  }
+  
   private parseVTT(vttContent: string, offsetMs: number = 0): VTTCue[] {
     const cues: VTTCue[] = [];
     const lines = vttContent.split('\n');
@@ -350,7 +357,7 @@ export class SubtitleManager implements TrackManager {
     this.subtitleDisplay.style.maxHeight = '12vh';
     
     // After the content is rendered, check if it fits
-    setTimeout(() => {
+    masterClock.getTimer().setTimeout(() => {
       if (!this.subtitleDisplay || this.subtitleDisplay.style.display === 'none') return;
       
       const rect = this.subtitleDisplay.getBoundingClientRect();
@@ -0,0 +1,86 @@
+import { TimeStretchEngineName } from '../../types/index';
+
+/**
+ * Main-thread side of the time-stretch AudioWorklet.
+ *
+ * Wraps an AudioWorkletNode running one engine (see worklets/timeStretchEngines).
+ * The audio element feeding it plays at the clock's rate without pitch
+ * correction; the node puts the pitch back and reports how far its output
+ * lags its input, so the caller can keep the element that much ahead.
+ */
+
+// Built next to renderer.js by webpack, resolved against the page URL
+const PROCESSOR_URL = 'time-stretch-processor.js';
+const PROCESSOR_NAME = 'time-stretch-processor';
+
+// addModule once per context; every manager of the mixer shares its context
+const loadedModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export class TimeStretcher {
+  private latency = 0;
+
+  private constructor(readonly node: AudioWorkletNode, readonly engine: TimeStretchEngineName) {
+    node.port.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'latency') {
+        this.latency = message.seconds;
+      } else if (message.type === 'error') {
+        console.error('[TimeStretcher]', message.message);
+      }
+    };
+  }
+
+  /**
+   * Load the worklet into the context if needed and create a node running the engine
+   */
+  static async create(
+    context: BaseAudioContext,
+    engine: Exclude<TimeStretchEngineName, 'native'>,
+    channels: number = 2
+  ): Promise<TimeStretcher> {
+    if (!loadedModules.has(context)) {
+      loadedModules.set(context, context.audioWorklet.addModule(PROCESSOR_URL));
+    }
+    try {
+      await loadedModules.get(context);
+    } catch (error) {
+      // Let a later manager try again
+      loadedModules.delete(context);
+      throw error;
+    }
+
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [channels],
+      processorOptions: { engine, channels },
+    });
+    return new TimeStretcher(node, engine);
+  }
+
+  /**
+   * Undo the pitch change of an element playing at this rate
+   */
+  setPlaybackRate(rate: number): void {
+    this.node.port.postMessage({ type: 'pitch', pitch: rate > 0 ? 1 / rate : 1 });
+  }
+
+  /**
+   * Drop buffered audio, e.g. when the element seeks
+   */
+  reset(): void {
+    this.node.port.postMessage({ type: 'reset' });
+  }
+
+  /**
+   * Seconds the output lags the element
+   */
+  getLatency(): number {
+    return this.latency;
+  }
+
+  destroy(): void {
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+  }
+}
@@ -0,0 +1,217 @@
+import { DriftCorrectionStrategy, SyncMetrics, Track, TrackItem, TrackSyncMetrics, VideoLayout } from '../../types/index';
+import { findItemAtTime } from '../utils/timeUtils';
+import { VideoJsManager } from './VideoJsManager';
+import { DEFAULT_DRIFT_CORRECTION } from './DriftCorrector';
+
+/**
+ * Stacks the video layers of a manifest on one stage.
+ *
+ * Every video track is split by item `layer`, and each layer gets its own
+ * VideoJsManager, so a slide video and an instructor camera can play at the
+ * same time. Higher layers are drawn on top. Each item is placed by its
+ * metadata.layout (picture-in-picture); the lowest layer of the first video
+ * track drives the master clock, all other layers follow it.
+ */
+
+interface VideoLayer {
+  trackId: string;
+  layer: number;
+  items: TrackItem[];
+  element: HTMLDivElement;
+  manager: VideoJsManager;
+}
+
+const FULL_STAGE: Required<VideoLayout> = { x: 0, y: 0, width: 1, height: 1, opacity: 1 };
+
+export class VideoCompositor {
+  private stageElement: HTMLDivElement;
+  private layers: VideoLayer[] = [];
+  private clockLayer: VideoLayer | null = null;
+  private driftCorrection: DriftCorrectionStrategy = DEFAULT_DRIFT_CORRECTION.strategy;
+  
+  constructor(container: HTMLElement) {
+    container.querySelector('.video-compositor')?.remove();
+    
+    this.stageElement = document.createElement('div');
+    this.stageElement.className = 'video-compositor';
+    this.stageElement.style.cssText = `
+      position: absolute;
+      inset: 0;
+      overflow: hidden;
+    `;
+    container.appendChild(this.stageElement);
+  }
+  
+  /**
+   * Create one layer per (track, layer) pair and load its items
+   */
+  async load(tracks: Track[], basePath: string = ''): Promise<void> {
+    this.destroyLayers();
+    
+    const groups: Array<Pick<VideoLayer, 'trackId' | 'layer' | 'items'>> = [];
+    for (const track of tracks) {
+      for (const item of track.items) {
+        const layer = item.layer ?? 0;
+        let group = groups.find(g => g.trackId === track.id && g.layer === layer);
+        if (!group) {
+          group = { trackId: track.id, layer, items: [] };
+          groups.push(group);
+        }
+        group.items.push(item);
+      }
+    }
+    
+    // The clock follows the bottom layer of the first track, as it did with a single video
+    const clockGroup = groups
+      .filter(g => g.trackId === tracks[0]?.id)
+      .reduce<typeof groups[number] | null>((lowest, g) => (!lowest || g.layer < lowest.layer ? g : lowest), null);
+    
+    // Stable sort keeps track order for equal layers
+    groups.sort((a, b) => a.layer - b.layer);
+    
+    for (const [index, group] of groups.entries()) {
+      const element = document.createElement('div');
+      element.className = 'video-layer';
+      element.dataset.trackId = group.trackId;
+      element.dataset.layer = String(group.layer);
+      element.style.cssText = `
+        position: absolute;
+        z-index: ${index + 1};
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      `;
+      this.stageElement.appendChild(element);
+      
+      const items = [...group.items].sort((a, b) => a.start_ms - b.start_ms);
+      const manager = new VideoJsManager(element, {
+        drivesClock: group === clockGroup,
+        driftCorrection: { strategy: this.driftCorrection },
+      });
+      const layer: VideoLayer = { ...group, items, element, manager };
+      this.layers.push(layer);
+      if (group === clockGroup) {
+        this.clockLayer = layer;
+      }
+      this.applyLayout(layer, items[0] ?? null);
+      
+      await manager.load(items, basePath);
+    }
+    
+    console.log('[VideoCompositor] Loaded', this.layers.length, 'video layers');
+  }
+  
+  sync(masterTime: number, playbackRate: number): void {
+    for (const layer of this.layers) {
+      this.applyLayout(layer, findItemAtTime(layer.items, masterTime));
+      layer.manager.sync(masterTime, playbackRate);
+    }
+  }
+  
+  play(): void {
+    this.layers.forEach(layer => layer.manager.play());
+  }
+  
+  pause(): void {
+    this.layers.forEach(layer => layer.manager.pause());
+  }
+  
+  async seek(timeMs: number): Promise<void> {
+    for (const layer of this.layers) {
+      this.applyLayout(layer, findItemAtTime(layer.items, timeMs));
+    }
+    await Promise.all(this.layers.map(layer => layer.manager.seek(timeMs)));
+  }
+  
+  setPlaybackRate(rate: number): void {
+    this.layers.forEach(layer => layer.manager.setPlaybackRate(rate));
+  }
+  
+  setDriftCorrection(strategy: DriftCorrectionStrategy): void {
+    this.driftCorrection = strategy;
+    this.layers.forEach(layer => layer.manager.setDriftCorrection(strategy));
+  }
+  
+  /**
+   * Volume of every layer of a video track
+   */
+  setTrackVolume(trackId: string, volume: number): void {
+    this.getTrackLayers(trackId).forEach(layer => layer.manager.setVolume(volume));
+  }
+  
+  /**
+   * Show or hide every layer of a video track; hidden layers keep syncing
+   */
+  setTrackVisible(trackId: string, visible: boolean): void {
+    for (const layer of this.getTrackLayers(trackId)) {
+      layer.element.style.visibility = visible ? '' : 'hidden';
+    }
+  }
+  
+  getElement(): HTMLElement | null {
+    return this.stageElement;
+  }
+  
+  getBufferedPercent(): number {
+    return this.clockLayer?.manager.getBufferedPercent() || 0;
+  }
+  
+  /**
+   * Drift and transition metrics of the layer that drives the clock
+   */
+  getSyncMetrics(): SyncMetrics | null {
+    return this.clockLayer?.manager.getSyncMetrics() || null;
+  }
+  
+  /**
+   * Metrics of every layer, e.g. for the sync telemetry
+   */
+  getTrackSyncMetrics(): TrackSyncMetrics[] {
+    return this.layers.map(layer => ({
+      id: layer.layer === 0 ? layer.trackId : `${layer.trackId}:${layer.layer}`,
+      type: 'video',
+      metrics: layer.manager.getSyncMetrics(),
+    }));
+  }
+  
+  destroy(): void {
+    this.destroyLayers();
+    this.stageElement.remove();
+  }
+  
+  private getTrackLayers(trackId: string): VideoLayer[] {
+    return this.layers.filter(layer => layer.trackId === trackId);
+  }
+  
+  /**
+   * Place a layer for its current item; a layer without an item at this time is not shown
+   */
+  private applyLayout(layer: VideoLayer, item: TrackItem | null): void {
+    const style = layer.element.style;
+    if (!item) {
+      style.display = 'none';
+      return;
+    }
+    
+    const layout: Required<VideoLayout> = { ...FULL_STAGE, ...item.metadata?.layout };
+    style.display = 'flex';
+    style.left = `${layout.x * 100}%`;
+    style.top = `${layout.y * 100}%`;
+    style.width = `${layout.width * 100}%`;
+    style.height = `${layout.height * 100}%`;
+    style.opacity = String(layout.opacity);
+  }
+  
+  private destroyLayers(): void {
+    for (const layer of this.layers) {
+      try {
+        layer.manager.destroy();
+      } catch (err) {
+        console.warn('[VideoCompositor] Error destroying video layer:', err);
+      }
+      layer.element.remove();
+    }
+    this.layers = [];
+    this.clockLayer = null;
+  }
+}
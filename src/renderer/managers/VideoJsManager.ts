@@ -1,8 +1,17 @@
 import videojs from 'video.js';
 import Player from 'video.js/dist/types/player';
-import { TrackItem, TrackManager, SyncMetrics } from '../../types/index';
+import { TrackItem, TrackManager, SyncMetrics, VideoTransitionType, DriftCorrectionStrategy } from '../../types/index';
 import { masterClock } from '../services/MasterClock';
-import { findItemAtTime, calculateItemRelativeTime, debugTimeCalculation } from '../utils/timeUtils';
+import {
+  findItemAtTime,
+  findNextItem,
+  findTransitionAtTime,
+  calculateItemRelativeTime,
+  calculateMasterTime,
+  getItemMediaRange,
+  debugTimeCalculation,
+} from '../utils/timeUtils';
+import { DriftCorrectionOptions, DriftCorrector } from './DriftCorrector';
 import 'video.js/dist/video-js.css';
 
 interface VideoJsSource {
@@ -10,6 +19,39 @@ interface VideoJsSource {
   type: string;
 }
 
+export interface VideoJsManagerOptions {
+  // Only one layer reports its position to the master clock, for the video clock
+  // source; overlays, and this layer while the clock does not follow it, follow the clock
+  drivesClock?: boolean;
+  // Overrides of the video drift correction thresholds
+  driftCorrection?: Partial<DriftCorrectionOptions>;
+}
+
+// A rate change is invisible on video; up to 5% makes up a second of drift in 20 seconds
+const VIDEO_DRIFT_CORRECTION: Partial<DriftCorrectionOptions> = {
+  tolerance: 50,
+  seekThreshold: 1000,
+  maxNudge: 0.05,
+};
+
+// Video.js keys players by element id, so every manager needs its own
+let nextPlayerNumber = 1;
+
+// The next item waiting in a hidden player, paused at its in-point
+interface StandbyPlayer {
+  // null while Video.js is still setting the player up
+  player: Player | null;
+  index: number;
+  ready: boolean;
+}
+
+// The item being replaced, kept under the current one while a transition runs
+interface OutgoingPlayer {
+  // null while Video.js is still setting the player up
+  player: Player | null;
+  index: number;
+}
+
 export class VideoJsManager implements TrackManager {
   private items: TrackItem[] = [];
   private currentItemIndex: number = -1;
@@ -26,14 +68,23 @@ export class VideoJsManager implements TrackManager {
   };
   
   private driftHistory: number[] = [];
+  private transitionLatencies: number[] = [];
+  private seekLatencies: number[] = [];
+  // When the active player started buffering during playback, null while it plays
+  private stallStartedAt: number | null = null;
   private readonly MAX_DRIFT_HISTORY = 100;
-  private readonly SYNC_TOLERANCE = 200; // Increased tolerance to reduce corrections (ms)
+  private readonly TIMER_SYNC_TOLERANCE = 200; // currentTime on a timer, e.g. of the outgoing player (ms)
+  // Frames in a row needing a seek before one is made; one late frame is not drift
+  private readonly DRIFT_FRAMES = 3;
+  private readonly driftCorrector: DriftCorrector;
   
   // State management
   private isTransitioning: boolean = false;
   private isSeeking: boolean = false;
+  // Paused on the current item's out-point until the clock leaves the item
+  private heldAtOutPoint: boolean = false;
   private pendingSeek: number | null = null;
-  private lastSyncTime: number = 0;
+  private lastSyncTime: number = -Infinity;
   private loadingPromise: Promise<void> | null = null;
   private seekQueue: Promise<void> = Promise.resolve();
   private playPromise: Promise<void> | null = null;
@@ -42,8 +93,27 @@ export class VideoJsManager implements TrackManager {
   // Video.js specific
   private playlist: Array<{ sources: VideoJsSource[], item: TrackItem }> = [];
   private playlistIndex: number = -1;
+  private readonly playerId = `videojs-player-${nextPlayerNumber++}`;
+  private nextElementNumber = 1;
+  private readonly drivesClock: boolean;
+  
+  // Double buffering: the next item is preloaded this long before the current one ends
+  private standby: StandbyPlayer | null = null;
+  private readonly PRELOAD_AHEAD_MS = 3000;
+  
+  // Transition effects are drawn every frame from the clock position
+  private outgoing: OutgoingPlayer | null = null;
+  private effectFrameId: number | null = null;
+  
+  // Frame-accurate sync: requestVideoFrameCallback on the active player's video element
+  private frameWatch: { element: HTMLVideoElement; handle: number } | null = null;
+  private lastFrame: { mediaTime: number; presentedFrames: number } | null = null;
+  private lastFrameAt: number = -Infinity;
+  private driftingFrames: number = 0;
   
-  constructor(container?: HTMLElement) {
+  constructor(container?: HTMLElement, options: VideoJsManagerOptions = {}) {
+    this.drivesClock = options.drivesClock ?? true;
+    this.driftCorrector = new DriftCorrector({ ...VIDEO_DRIFT_CORRECTION, ...options.driftCorrection });
     if (container) {
       this.initializeContainer(container);
     }
@@ -74,11 +144,7 @@ export class VideoJsManager implements TrackManager {
     container.appendChild(this.containerElement);
     
     // Create video element for Video.js
-    const videoElement = document.createElement('video');
-    videoElement.id = 'videojs-player';
-    videoElement.className = 'video-js vjs-default-skin vjs-big-play-centered vjs-fluid';
-    videoElement.setAttribute('preload', 'auto');
-    
+    const videoElement = this.createVideoElement();
     this.containerElement.appendChild(videoElement);
     
     // Initialize Video.js player
@@ -108,10 +174,11 @@ export class VideoJsManager implements TrackManager {
     };
     
     // Create Video.js player
-    this.player = videojs(videoElement, options, () => {
+    const player = videojs(videoElement, options, () => {
       // console.log('[VideoJsManager] Video.js player ready');
-      this.setupEventListeners();
+      this.setupEventListeners(player);
     });
+    this.player = player;
     
     // Override default error display
     const errorDisplay = (this.player as any).errorDisplay;
@@ -121,6 +188,18 @@ export class VideoJsManager implements TrackManager {
   }
   
   private async initializePlayerAsync(videoElement: HTMLVideoElement): Promise<void> {
+    this.player = await this.createPlayerAsync(videoElement);
+  }
+  
+  private createVideoElement(): HTMLVideoElement {
+    const videoElement = document.createElement('video');
+    videoElement.id = `${this.playerId}-${this.nextElementNumber++}`;
+    videoElement.className = 'video-js vjs-default-skin vjs-big-play-centered vjs-fluid';
+    videoElement.setAttribute('preload', 'auto');
+    return videoElement;
+  }
+  
+  private createPlayerAsync(videoElement: HTMLVideoElement): Promise<Player> {
     return new Promise((resolve) => {
       // console.log('[VideoJsManager] Initializing Video.js player (async)');
       
@@ -153,63 +232,66 @@ export class VideoJsManager implements TrackManager {
       };
       
       // Create Video.js player with ready callback
-      this.player = videojs(videoElement, options, () => {
+      const player = videojs(videoElement, options, () => {
         // console.log('[VideoJsManager] Video.js player ready (async)');
-        this.setupEventListeners();
+        this.setupEventListeners(player);
         
         // Override default error display
-        const errorDisplay = (this.player as any).errorDisplay;
+        const errorDisplay = (player as any).errorDisplay;
         if (errorDisplay && errorDisplay.hide) {
           errorDisplay.hide();
         }
         
-        resolve();
+        resolve(player);
       });
       
       // Add timeout in case ready never fires
-      setTimeout(() => {
-        if (this.player) {
-          // console.log('[VideoJsManager] Player initialization timeout - proceeding');
-          resolve();
-        }
+      masterClock.getTimer().setTimeout(() => {
+        // console.log('[VideoJsManager] Player initialization timeout - proceeding');
+        resolve(player);
       }, 2000);
     });
   }
   
-  private setupEventListeners(): void {
-    if (!this.player) return;
-    
-    // Playback events
-    this.player.on('play', () => {
-      // console.log('[VideoJsManager] Play event');
-      this.updateMasterClock(true);
-    });
-    
-    this.player.on('pause', () => {
-      // console.log('[VideoJsManager] Pause event');
-      if (!this.isSeeking && !this.isTransitioning) {
-        this.updateMasterClock(false);
-      }
+  private setupEventListeners(player: Player): void {
+    // A standby player stays silent until it is swapped in
+    const isActive = () => player === this.player;
+    
+    // Playback events; the clock plays and pauses the video, never the other way round
+    player.on('playing', () => {
+      if (!isActive()) return;
+      this.watchFrames();
+      this.endStall();
     });
     
-    this.player.on('timeupdate', () => {
+    player.on('timeupdate', () => {
       // Only update master clock if we're not seeking or transitioning
-      if (this.currentItemIndex >= 0 && !this.isSeeking && !this.isTransitioning) {
+      if (isActive() && this.drivesClock && this.currentItemIndex >= 0 && !this.isSeeking && !this.isTransitioning) {
         const item = this.items[this.currentItemIndex];
         if (item) {
           const currentVideoTime = this.player?.currentTime() ?? 0;
-          const masterTime = currentVideoTime * 1000 + item.start_ms;
+          
+          // Stop at the out-point rather than playing on into trimmed media
+          const outPoint = getItemMediaRange(item).end;
+          if (outPoint !== null && currentVideoTime >= outPoint) {
+            this.holdAtOutPoint(outPoint);
+            return;
+          }
+          
+          const masterTime = calculateMasterTime(item, currentVideoTime);
           const isPlaying = !this.player!.paused();
           
           // Validate that the time makes sense for this item
           const itemEndTime = item.end_ms || (item.start_ms + (item.duration_ms || 0));
           
           // Only update if video time seems reasonable (not a reset or error state)
-          if (currentVideoTime >= 0 && 
+          // and the video is moving; a paused video has nothing to tell the clock
+          if (isPlaying &&
+              currentVideoTime >= 0 && 
               masterTime >= item.start_ms && 
               masterTime <= itemEndTime + 1000 && // Allow 1 second buffer
               !this.player?.error()) { // Don't update during error state
-            masterClock.updateTimeFromVideo(masterTime, isPlaying);
+            masterClock.updateTimeFromVideo(masterTime);
           }
           
           // Check for video end to transition
@@ -221,25 +303,44 @@ export class VideoJsManager implements TrackManager {
       }
     });
     
-    this.player.on('ended', () => {
+    player.on('ended', () => {
       // console.log('[VideoJsManager] Video ended');
+      if (!isActive()) return;
       this.transitionToNextVideo();
     });
     
-    this.player.on('loadedmetadata', () => {
+    player.on('loadedmetadata', () => {
       // console.log('[VideoJsManager] Metadata loaded, duration:', this.player!.duration());
+      if (!isActive()) return;
       this.ensureVisible();
     });
     
-    this.player.on('waiting', () => {
+    player.on('waiting', () => {
       // console.log('[VideoJsManager] Buffering...');
+      // Buffering while the clock plays on, not the wait a seek or item switch causes
+      if (isActive() && !this.isSeeking && !this.isTransitioning && masterClock.getState().isPlaying) {
+        this.startStall();
+      }
     });
     
-    this.player.on('canplay', () => {
+    player.on('canplay', () => {
       // console.log('[VideoJsManager] Can play');
     });
     
-    this.player.on('error', (error: any) => {
+    player.on('error', (error: any) => {
+      if (!isActive()) {
+        // Keep the failed entry so the item is not preloaded again; it loads on demand instead
+        console.warn('[VideoJsManager] Preload error, next item will load on demand:', error);
+        if (this.standby?.player === player) {
+          this.standby.player = null;
+          masterClock.getTimer().setTimeout(() => this.disposePlayer(player), 0);
+        }
+        if (this.outgoing?.player === player) {
+          this.outgoing.player = null;
+          masterClock.getTimer().setTimeout(() => this.disposePlayer(player), 0);
+        }
+        return;
+      }
       const videoError = this.player?.error();
       let errorCode = 'UNKNOWN';
       if (videoError) {
@@ -268,26 +369,28 @@ export class VideoJsManager implements TrackManager {
     });
     
     // Seeking events
-    this.player.on('seeking', () => {
+    player.on('seeking', () => {
       // console.log('[VideoJsManager] Seeking...');
     });
     
-    this.player.on('seeked', () => {
+    player.on('seeked', () => {
       // console.log('[VideoJsManager] Seeked');
-      if (this.isSeeking) {
+      if (isActive() && this.isSeeking) {
         this.isSeeking = false;
       }
     });
   }
   
-  private updateMasterClock(isPlaying: boolean): void {
-    if (!this.player || this.currentItemIndex < 0) return;
-    
-    const item = this.items[this.currentItemIndex];
-    if (item) {
-      const masterTime = ((this.player?.currentTime() ?? 0) * 1000) + item.start_ms;
-      masterClock.updateTimeFromVideo(masterTime, isPlaying);
-    }
+  /**
+   * Freeze on the out-point frame. The clock is not paused: it runs on until the
+   * item's slot ends and the next item takes over.
+   */
+  private holdAtOutPoint(outPoint: number): void {
+    if (!this.player || this.heldAtOutPoint) return;
+    
+    this.heldAtOutPoint = true;
+    this.player.pause();
+    this.player.currentTime(outPoint);
   }
   
   private ensureVisible(): void {
@@ -312,6 +415,8 @@ export class VideoJsManager implements TrackManager {
     
     this.items = items;
     this.basePath = basePath;
+    this.discardStandby();
+    this.endTransitionEffect();
     
     // Build playlist
     this.playlist = [];
@@ -361,6 +466,12 @@ export class VideoJsManager implements TrackManager {
     
     const playlistItem = this.playlist[index];
     
+    // Preloaded next item: swap players instead of loading
+    if (this.currentItemIndex !== index && this.standby?.index === index && this.standby.ready && this.standby.player) {
+      this.swapToStandby();
+      return;
+    }
+    
     // FUNDAMENTAL SOLUTION: Dispose and recreate player for different video files
     // This prevents MEDIA_ERR_DECODE when switching between videos
     if (this.currentItemIndex !== index && this.currentItemIndex >= 0) {
@@ -374,6 +485,7 @@ export class VideoJsManager implements TrackManager {
       
       // Completely dispose the current player
       if (this.player) {
+        const oldElementId = this.player.id();
         try {
           this.player.pause();
           this.player.dispose();
@@ -382,22 +494,16 @@ export class VideoJsManager implements TrackManager {
           console.warn('[VideoJsManager] Error during player disposal:', err);
         }
         this.player = null;
-      }
-      
-      // Remove old video element
-      const oldVideo = document.getElementById('videojs-player');
-      if (oldVideo) {
-        oldVideo.remove();
+        
+        // Remove old video element
+        document.getElementById(oldElementId)?.remove();
       }
       
       // Wait for browser cleanup
-      await new Promise(resolve => setTimeout(resolve, 100));
+      await new Promise<void>(resolve => masterClock.getTimer().setTimeout(resolve, 100));
       
       // Create new video element
-      const videoElement = document.createElement('video');
-      videoElement.id = 'videojs-player';
-      videoElement.className = 'video-js vjs-default-skin vjs-big-play-centered vjs-fluid';
-      videoElement.setAttribute('preload', 'auto');
+      const videoElement = this.createVideoElement();
       
       if (this.containerElement) {
         this.containerElement.appendChild(videoElement);
@@ -421,10 +527,7 @@ export class VideoJsManager implements TrackManager {
     // Check if we have a valid player
     if (!this.player) {
       // console.log('[VideoJsManager] No player available, creating one');
-      const videoElement = document.createElement('video');
-      videoElement.id = 'videojs-player';
-      videoElement.className = 'video-js vjs-default-skin vjs-big-play-centered vjs-fluid';
-      videoElement.setAttribute('preload', 'auto');
+      const videoElement = this.createVideoElement();
       
       if (this.containerElement) {
         this.containerElement.appendChild(videoElement);
@@ -456,6 +559,7 @@ export class VideoJsManager implements TrackManager {
     
     this.currentItemIndex = index;
     this.playlistIndex = index;
+    this.heldAtOutPoint = false;
     
     return new Promise(async (resolve, reject) => {
       if (!this.player) {
@@ -471,16 +575,16 @@ export class VideoJsManager implements TrackManager {
       this.player.src(playlistItem.sources);
       
       // Wait for loadedmetadata event
-      let loadTimeout: NodeJS.Timeout | null = null;
+      let loadTimeout: number | null = null;
       
       const onLoaded = () => {
         // console.log('[VideoJsManager] Video loaded successfully');
-        if (loadTimeout) clearTimeout(loadTimeout);
+        if (loadTimeout) masterClock.getTimer().clearTimeout(loadTimeout);
         this.isTransitioning = false;
         this.ensureVisible();
         
         // Restore playing state with proper promise handling
-        setTimeout(() => {
+        masterClock.getTimer().setTimeout(() => {
           if (wasPlaying && this.player) {
             this.playPromise = null;
             
@@ -506,7 +610,7 @@ export class VideoJsManager implements TrackManager {
       
       const onError = (e: any) => {
         console.error('[VideoJsManager] Load error:', e);
-        if (loadTimeout) clearTimeout(loadTimeout);
+        if (loadTimeout) masterClock.getTimer().clearTimeout(loadTimeout);
         this.isTransitioning = false;
         this.player?.off('loadedmetadata', onLoaded);
         this.player?.off('error', onError);
@@ -516,7 +620,7 @@ export class VideoJsManager implements TrackManager {
       };
       
       // Set up timeout
-      loadTimeout = setTimeout(() => {
+      loadTimeout = masterClock.getTimer().setTimeout(() => {
         console.warn('[VideoJsManager] Video load timeout');
         this.player?.off('loadedmetadata', onLoaded);
         this.player?.off('error', onError);
@@ -533,20 +637,13 @@ export class VideoJsManager implements TrackManager {
   }
   
   private async getVideoUrl(filePath: string): Promise<string> {
+    // Items of a mounted package are already content:// URLs (with byte-range support)
     if (filePath.startsWith('http://') || 
         filePath.startsWith('https://') || 
         filePath.startsWith('content://')) {
       return filePath;
     }
     
-    if (window.electronAPI && window.electronAPI.getVideoUrl) {
-      // Use content:// protocol with byte-range support for video streaming
-      return await window.electronAPI.getVideoUrl(filePath);
-    } else if (window.electronAPI) {
-      // Fallback to generic file URL
-      return await window.electronAPI.getFileUrl(filePath);
-    }
-    
     return `file:///${filePath.replace(/\\/g, '/')}`;
   }
   
@@ -582,6 +679,14 @@ export class VideoJsManager implements TrackManager {
       debugTimeCalculation('VideoJsManager', this.items, masterTime, targetItem);
     }
     if (!targetItem) {
+      this.endTransitionEffect();
+      // An overlay is idle between its items
+      if (!this.drivesClock) {
+        if (!this.player.paused()) {
+          this.player.pause();
+        }
+        return;
+      }
       if (masterTime > 0 && this.items.length > 0) {
         const lastItem = this.items[this.items.length - 1];
         const lastEndTime = lastItem.end_ms || (lastItem.start_ms + (lastItem.duration_ms || 0));
@@ -598,15 +703,20 @@ export class VideoJsManager implements TrackManager {
     if (targetIndex !== this.currentItemIndex && targetIndex >= 0) {
       if (!this.loadingPromise) {
         // console.log('[VideoJsManager] Switching to video:', targetIndex);
+        // When the clock crossed into the item, in wall-clock time
+        const boundaryAt = masterClock.now() - Math.max(0, masterTime - targetItem.start_ms) / playbackRate;
         this.loadingPromise = this.loadVideoAtIndex(targetIndex).then(() => {
           this.loadingPromise = null;
           
           // Sync position after loading using unified calculation
           if (this.player && targetItem) {
             const videoTime = calculateItemRelativeTime(targetItem, masterClock.getState().currentTime);
-            const clampedTime = Math.max(0, Math.min(videoTime, this.player.duration() || videoTime));
-            this.player.currentTime(clampedTime);
+            const clampedTime = Math.min(videoTime, this.player.duration() || videoTime);
+            if (Math.abs((this.player.currentTime() ?? 0) - clampedTime) > 0.1) {
+              this.player.currentTime(clampedTime);
+            }
           }
+          this.measureTransition(boundaryAt);
         }).catch(err => {
           console.error('[VideoJsManager] Failed to switch video:', err);
           this.loadingPromise = null;
@@ -618,6 +728,348 @@ export class VideoJsManager implements TrackManager {
     // Sync current video
     if (this.currentItemIndex >= 0 && targetItem === this.items[this.currentItemIndex]) {
       this.syncCurrentVideo(masterTime, playbackRate, targetItem);
+      this.preloadNextItem(targetItem, masterTime);
+      this.updateTransitionEffect(masterTime);
+    }
+  }
+  
+  /**
+   * Shortly before the next item starts, load it into a hidden player and park
+   * it at its in-point so the boundary is a swap, not a load
+   */
+  private preloadNextItem(currentItem: TrackItem, masterTime: number): void {
+    if (!this.containerElement) {
+      return;
+    }
+    
+    // With a transition the next item starts before the current one ends
+    const nextItem = findNextItem(this.items, currentItem.start_ms);
+    const nextIndex = nextItem ? this.items.indexOf(nextItem) : -1;
+    if (!nextItem || nextIndex < 0 || this.standby?.index === nextIndex) {
+      return;
+    }
+    const timeUntilNext = nextItem.start_ms - masterTime;
+    if (timeUntilNext <= 0 || timeUntilNext > this.PRELOAD_AHEAD_MS) {
+      return;
+    }
+    
+    this.discardStandby();
+    const videoElement = this.createVideoElement();
+    this.containerElement.appendChild(videoElement);
+    
+    const standby: StandbyPlayer = { player: null, index: nextIndex, ready: false };
+    this.standby = standby;
+    
+    this.createPlayerAsync(videoElement).then(player => {
+      standby.player = player;
+      if (this.standby !== standby) {
+        player.dispose();
+        return;
+      }
+      this.setStandbyStyle(player, true);
+      
+      const inPoint = calculateItemRelativeTime(nextItem, nextItem.start_ms);
+      const markReady = () => {
+        standby.ready = true;
+        // console.log('[VideoJsManager] Preloaded next video:', nextIndex);
+      };
+      player.one('loadeddata', () => {
+        if (inPoint > 0) {
+          player.one('seeked', markReady);
+          player.currentTime(inPoint);
+        } else {
+          markReady();
+        }
+      });
+      player.src(this.playlist[nextIndex].sources);
+      player.load();
+    }).catch(error => {
+      console.error('[VideoJsManager] Failed to preload next video:', error);
+      if (this.standby === standby) {
+        this.discardStandby();
+      }
+      videoElement.remove();
+    });
+  }
+  
+  /**
+   * Make the preloaded player the active one. Both changes happen before the
+   * next paint, so the new item's first frame replaces the old last frame.
+   */
+  private swapToStandby(): void {
+    const standby = this.standby!;
+    const previous = this.player;
+    const previousIndex = this.currentItemIndex;
+    this.standby = null;
+    
+    this.player = standby.player!;
+    this.currentItemIndex = standby.index;
+    this.playlistIndex = standby.index;
+    this.heldAtOutPoint = false;
+    this.setStandbyStyle(this.player, false);
+    
+    const { isPlaying, playbackRate } = masterClock.getState();
+    this.player.playbackRate(playbackRate);
+    if (previous) {
+      this.player.volume(previous.volume() ?? 1);
+      this.player.muted(previous.muted() ?? false);
+      
+      // A transition into the new item draws over the previous one instead of cutting
+      const transition = findTransitionAtTime(this.items, masterClock.getState().currentTime);
+      if (transition?.from && this.items.indexOf(transition.from) === previousIndex) {
+        this.discardOutgoing();
+        this.outgoing = { player: previous, index: previousIndex };
+        this.setOutgoingStyle(previous);
+      } else {
+        this.disposePlayer(previous);
+      }
+    }
+    this.ensureVisible();
+    
+    if (isPlaying) {
+      this.play();
+    }
+    // console.log('[VideoJsManager] Swapped to preloaded video:', standby.index);
+  }
+  
+  private setStandbyStyle(player: Player, hidden: boolean): void {
+    const element = player.el() as HTMLElement;
+    element.style.position = hidden ? 'absolute' : '';
+    element.style.inset = hidden ? '0' : '';
+    element.style.visibility = hidden ? 'hidden' : 'visible';
+    element.style.pointerEvents = hidden ? 'none' : '';
+  }
+  
+  private discardStandby(): void {
+    const standby = this.standby;
+    this.standby = null;
+    // A player still being created is disposed once it is ready
+    if (standby?.player) {
+      this.disposePlayer(standby.player);
+    }
+  }
+  
+  private disposePlayer(player: Player): void {
+    try {
+      player.pause();
+      player.dispose();
+    } catch (err) {
+      console.warn('[VideoJsManager] Error during player disposal:', err);
+    }
+  }
+  
+  /**
+   * Start, continue or finish the transition effect into the current item
+   */
+  private updateTransitionEffect(masterTime: number): void {
+    const transition = findTransitionAtTime(this.items, masterTime);
+    if (!transition || this.items.indexOf(transition.to) !== this.currentItemIndex) {
+      this.endTransitionEffect();
+      return;
+    }
+    
+    const fromIndex = transition.from ? this.items.indexOf(transition.from) : -1;
+    if (fromIndex < 0) {
+      this.discardOutgoing();
+    } else if (this.outgoing?.index !== fromIndex) {
+      this.loadOutgoing(fromIndex);
+    }
+    this.syncOutgoing(masterTime, masterClock.getState().isPlaying);
+    
+    if (this.effectFrameId === null) {
+      this.effectFrameId = masterClock.getTimer().requestFrame(this.renderTransitionEffect);
+    }
+  }
+  
+  /**
+   * Progress comes from the timeline position, not from elapsed time, so the
+   * effect follows the playback rate and stands still while paused
+   */
+  private renderTransitionEffect = (): void => {
+    this.effectFrameId = null;
+    
+    const transition = findTransitionAtTime(this.items, this.getEffectTime());
+    if (!this.player || !transition || this.items.indexOf(transition.to) !== this.currentItemIndex) {
+      this.endTransitionEffect();
+      return;
+    }
+    
+    this.applyTransitionEffect(transition.to.transition!.type, transition.progress);
+    this.effectFrameId = masterClock.getTimer().requestFrame(this.renderTransitionEffect);
+  };
+  
+  /**
+   * The clock hears from the video only a few times a second; while playing,
+   * the video position gives a smoother effect
+   */
+  private getEffectTime(): number {
+    const item = this.items[this.currentItemIndex];
+    if (!this.player || !item || this.player.paused() || this.isSeeking) {
+      return masterClock.getState().currentTime;
+    }
+    return calculateMasterTime(item, this.player.currentTime() ?? 0);
+  }
+  
+  private applyTransitionEffect(type: VideoTransitionType, progress: number): void {
+    const incoming = this.player!.el() as HTMLElement;
+    const outgoing = this.outgoing?.player;
+    
+    let incomingOpacity = 1;
+    let outgoingOpacity = 1;
+    let clipPath = '';
+    switch (type) {
+      case 'fade-through-black':
+        outgoingOpacity = Math.max(0, 1 - progress * 2);
+        incomingOpacity = Math.max(0, progress * 2 - 1);
+        break;
+      case 'cross-dissolve':
+        incomingOpacity = progress;
+        break;
+      case 'wipe':
+        clipPath = `inset(0 ${((1 - progress) * 100).toFixed(2)}% 0 0)`;
+        break;
+    }
+    
+    incoming.style.zIndex = '1';
+    incoming.style.opacity = String(incomingOpacity);
+    incoming.style.clipPath = clipPath;
+    
+    if (outgoing) {
+      (outgoing.el() as HTMLElement).style.opacity = String(outgoingOpacity);
+      // The outgoing sound fades out under the incoming one
+      outgoing.volume((this.player!.volume() ?? 1) * (1 - progress));
+      outgoing.muted(this.player!.muted() ?? false);
+    }
+  }
+  
+  private endTransitionEffect(): void {
+    if (this.effectFrameId !== null) {
+      masterClock.getTimer().cancelFrame(this.effectFrameId);
+      this.effectFrameId = null;
+    }
+    this.discardOutgoing();
+    
+    const incoming = this.player?.el() as HTMLElement | undefined;
+    if (incoming) {
+      incoming.style.zIndex = '';
+      incoming.style.opacity = '';
+      incoming.style.clipPath = '';
+    }
+  }
+  
+  /**
+   * Load the item being replaced, e.g. after a seek into a transition
+   */
+  private loadOutgoing(index: number): void {
+    this.discardOutgoing();
+    if (!this.containerElement) return;
+    
+    const videoElement = this.createVideoElement();
+    this.containerElement.appendChild(videoElement);
+    
+    const outgoing: OutgoingPlayer = { player: null, index };
+    this.outgoing = outgoing;
+    
+    this.createPlayerAsync(videoElement).then(player => {
+      outgoing.player = player;
+      if (this.outgoing !== outgoing) {
+        player.dispose();
+        return;
+      }
+      this.setOutgoingStyle(player);
+      player.one('loadeddata', () => {
+        if (this.outgoing === outgoing) {
+          player.currentTime(calculateItemRelativeTime(this.items[index], this.getEffectTime()));
+          this.syncOutgoing(this.getEffectTime(), masterClock.getState().isPlaying);
+        }
+      });
+      player.src(this.playlist[index].sources);
+      player.load();
+    }).catch(error => {
+      console.error('[VideoJsManager] Failed to load outgoing video:', error);
+      if (this.outgoing === outgoing) {
+        this.discardOutgoing();
+      }
+      videoElement.remove();
+    });
+  }
+  
+  /**
+   * Overlapping items keep playing under the incoming one; otherwise the
+   * outgoing item holds its last frame
+   */
+  private syncOutgoing(masterTime: number, isPlaying: boolean): void {
+    const player = this.outgoing?.player;
+    if (!player || (player.readyState() ?? 0) < 2) return;
+    
+    const item = this.items[this.outgoing!.index];
+    const target = calculateItemRelativeTime(item, masterTime);
+    const { end } = getItemMediaRange(item);
+    const current = player.currentTime() ?? 0;
+    
+    if (isPlaying && (end === null || target < end)) {
+      player.playbackRate(masterClock.getState().playbackRate);
+      if (Math.abs(current - target) > this.TIMER_SYNC_TOLERANCE / 1000) {
+        player.currentTime(target);
+      }
+      if (player.paused()) {
+        player.play()?.catch(() => {});
+      }
+    } else {
+      if (!player.paused()) {
+        player.pause();
+      }
+      if (Math.abs(current - target) > 0.05) {
+        player.currentTime(target);
+      }
+    }
+  }
+  
+  private setOutgoingStyle(player: Player): void {
+    const element = player.el() as HTMLElement;
+    element.style.position = 'absolute';
+    element.style.inset = '0';
+    element.style.zIndex = '0';
+    element.style.visibility = 'visible';
+    element.style.pointerEvents = 'none';
+  }
+  
+  private discardOutgoing(): void {
+    const outgoing = this.outgoing;
+    this.outgoing = null;
+    // A player still being created is disposed once it is ready
+    if (outgoing?.player) {
+      this.disposePlayer(outgoing.player);
+    }
+  }
+  
+  /**
+   * Record how long after the item boundary the new item was actually playing
+   */
+  private measureTransition(boundaryAt: number): void {
+    const player = this.player;
+    if (!player) return;
+    
+    const record = () => {
+      const latency = Math.max(0, masterClock.now() - boundaryAt);
+      this.transitionLatencies.push(latency);
+      if (this.transitionLatencies.length > this.MAX_DRIFT_HISTORY) {
+        this.transitionLatencies.shift();
+      }
+      const sum = this.transitionLatencies.reduce((a, b) => a + b, 0);
+      this.syncMetrics.transitions = (this.syncMetrics.transitions ?? 0) + 1;
+      this.syncMetrics.lastTransitionLatency = latency;
+      this.syncMetrics.averageTransitionLatency = sum / this.transitionLatencies.length;
+      this.syncMetrics.maxTransitionLatency = Math.max(this.syncMetrics.maxTransitionLatency ?? 0, latency);
+      // console.log('[VideoJsManager] Transition latency:', latency.toFixed(1), 'ms');
+    };
+    
+    // Playing: the transition ends with the first frame of the new item
+    const isStarting = masterClock.getState().isPlaying && (player.paused() || (player.readyState() ?? 0) < 3);
+    if (isStarting) {
+      player.one('playing', record);
+    } else {
+      record();
     }
   }
   
@@ -626,50 +1078,59 @@ export class VideoJsManager implements TrackManager {
     
     // Use unified time calculation
     const videoTime = calculateItemRelativeTime(item, masterTime);
-    const videoDuration = item.duration_ms ? item.duration_ms / 1000 : this.player.duration();
+    const { start: inPoint, end: outPoint } = getItemMediaRange(item);
+    const videoDuration = outPoint ?? this.player.duration();
     
-    if (videoTime < 0 || (videoDuration && videoTime > videoDuration + 0.5)) {
+    if (videoTime < inPoint || (videoDuration && videoTime > videoDuration + 0.5)) {
       return;
     }
     
+    // The clock came back well before the out-point (seek), play again
+    if (this.heldAtOutPoint && (!videoDuration || videoTime < videoDuration - this.TIMER_SYNC_TOLERANCE / 1000)) {
+      this.heldAtOutPoint = false;
+    }
+    
     const currentVideoTime = this.player.currentTime() ?? 0;
-    const drift = Math.abs(currentVideoTime - videoTime) * 1000;
+    if (outPoint !== null && currentVideoTime >= outPoint && !this.player.paused()) {
+      this.holdAtOutPoint(outPoint);
+      return;
+    }
     
-    this.updateSyncMetrics(drift);
+    // Presented frames measure and correct drift themselves (onVideoFrame), and
+    // the video the clock follows has no drift to correct
+    const isFrameSynced = masterClock.now() - this.lastFrameAt < 500;
+    const offset = (currentVideoTime - videoTime) * 1000;
     
-    // Apply sync correction only if drift is significant and we're not already seeking
-    if (drift > this.SYNC_TOLERANCE && !this.isSeeking) {
-      const now = Date.now();
+    if (!isFrameSynced && !this.isClockSource()) {
+      this.updateSyncMetrics(Math.abs(offset));
+      const correction = this.driftCorrector.update(offset, playbackRate, masterClock.now());
+      
+      // Apply sync correction only if we're not already seeking
+      const now = masterClock.now();
       // Throttle corrections to prevent seek loops
-      if (now - this.lastSyncTime > 2000) { // Increased to 2 seconds
-        const targetTime = Math.max(0, Math.min(videoTime, videoDuration || videoTime));
+      if (correction.seek && !this.isSeeking && now - this.lastSyncTime > 2000) {
+        const targetTime = Math.max(inPoint, Math.min(videoTime, videoDuration || videoTime));
+        // console.log('[VideoJsManager] Sync correction:', currentVideoTime.toFixed(2), '->', targetTime.toFixed(2));
         
-        // Only update if the difference is really significant
-        if (Math.abs(currentVideoTime - targetTime) > 0.5) { // 500ms threshold
-          // console.log('[VideoJsManager] Sync correction:', currentVideoTime.toFixed(2), '->', targetTime.toFixed(2));
-          
-          // Mark as seeking to prevent sync during seek
-          this.isSeeking = true;
-          this.player.currentTime(targetTime);
-          
-          // Reset seeking flag after a delay
-          setTimeout(() => {
-            this.isSeeking = false;
-          }, 500);
-          
-          this.lastSyncTime = now;
-          this.syncMetrics.corrections++;
-        }
+        // Mark as seeking to prevent sync during seek
+        this.isSeeking = true;
+        this.player.currentTime(targetTime);
+        
+        // Reset seeking flag after a delay
+        masterClock.getTimer().setTimeout(() => {
+          this.isSeeking = false;
+        }, 500);
+        
+        this.lastSyncTime = now;
+        this.syncMetrics.corrections++;
       }
     }
     
-    // Update playback rate
-    if (Math.abs((this.player.playbackRate() ?? 1) - playbackRate) > 0.01) {
-      this.player.playbackRate(playbackRate);
-    }
+    // Update playback rate, nudged while a drift is being made up
+    this.applyRate(this.driftCorrector.getRate(playbackRate));
     
     // Ensure playing state
-    if (this.player.paused() && videoTime >= 0 && (!videoDuration || videoTime < videoDuration)) {
+    if (this.player.paused() && !this.heldAtOutPoint && (!videoDuration || videoTime < videoDuration)) {
       this.ensureVisible();
       this.player.play()?.catch(e => {
         console.error('[VideoJsManager] Failed to play:', e);
@@ -677,6 +1138,36 @@ export class VideoJsManager implements TrackManager {
     }
   }
   
+  /**
+   * Count a buffering stall; its length is added when playback resumes
+   */
+  private startStall(): void {
+    if (this.stallStartedAt !== null) return;
+    this.stallStartedAt = masterClock.now();
+    this.syncMetrics.stalls = (this.syncMetrics.stalls ?? 0) + 1;
+  }
+  
+  private endStall(): void {
+    if (this.stallStartedAt === null) return;
+    this.syncMetrics.stallTime = (this.syncMetrics.stallTime ?? 0) + masterClock.now() - this.stallStartedAt;
+    this.stallStartedAt = null;
+  }
+  
+  /**
+   * Record how long a coordinated seek took until the player was back in place
+   */
+  private recordSeekLatency(latency: number): void {
+    this.seekLatencies.push(latency);
+    if (this.seekLatencies.length > this.MAX_DRIFT_HISTORY) {
+      this.seekLatencies.shift();
+    }
+    const sum = this.seekLatencies.reduce((a, b) => a + b, 0);
+    this.syncMetrics.seeks = (this.syncMetrics.seeks ?? 0) + 1;
+    this.syncMetrics.lastSeekLatency = latency;
+    this.syncMetrics.averageSeekLatency = sum / this.seekLatencies.length;
+    this.syncMetrics.maxSeekLatency = Math.max(this.syncMetrics.maxSeekLatency ?? 0, latency);
+  }
+  
   // Removed: Using unified findItemAtTime from timeUtils instead
   
   private updateSyncMetrics(drift: number): void {
@@ -692,13 +1183,134 @@ export class VideoJsManager implements TrackManager {
     this.syncMetrics.maxDrift = Math.max(this.syncMetrics.maxDrift, drift);
   }
   
+  /**
+   * Follow the frames of the active player as the compositor presents them.
+   * Without requestVideoFrameCallback, syncCurrentVideo falls back to currentTime.
+   */
+  private watchFrames(): void {
+    const element = this.player?.el()?.querySelector('video') ?? null;
+    if (this.frameWatch?.element === element) return;
+    
+    this.unwatchFrames();
+    if (!element || typeof element.requestVideoFrameCallback !== 'function') return;
+    
+    this.lastFrame = null;
+    this.driftingFrames = 0;
+    this.driftCorrector.reset();
+    this.frameWatch = { element, handle: element.requestVideoFrameCallback(this.onVideoFrame) };
+  }
+  
+  private unwatchFrames(): void {
+    if (this.frameWatch) {
+      this.frameWatch.element.cancelVideoFrameCallback(this.frameWatch.handle);
+      this.frameWatch = null;
+    }
+  }
+  
+  private onVideoFrame = (_now: DOMHighResTimeStamp, frame: VideoFrameCallbackMetadata): void => {
+    const watch = this.frameWatch;
+    if (!watch) return;
+    
+    // The player was swapped or disposed since the callback was requested
+    if (!this.player || this.player.el()?.querySelector('video') !== watch.element) {
+      this.frameWatch = null;
+      this.watchFrames();
+      return;
+    }
+    
+    watch.handle = watch.element.requestVideoFrameCallback(this.onVideoFrame);
+    this.measureFrame(frame);
+  };
+  
+  /**
+   * Compare a presented frame with the clock at the moment it is displayed.
+   * The layer that drives the clock anchors it to the frame instead.
+   */
+  private measureFrame(frame: VideoFrameCallbackMetadata): void {
+    const item = this.items[this.currentItemIndex];
+    if (!this.player || !item || this.isSeeking || this.isTransitioning || this.heldAtOutPoint) {
+      this.lastFrame = null;
+      return;
+    }
+    
+    const outPoint = getItemMediaRange(item).end;
+    if (outPoint !== null && frame.mediaTime >= outPoint) {
+      this.holdAtOutPoint(outPoint);
+      return;
+    }
+    
+    // Consecutive presented frames give the time one frame covers
+    const last = this.lastFrame;
+    if (last && frame.presentedFrames === last.presentedFrames + 1 && frame.mediaTime > last.mediaTime) {
+      const duration = (frame.mediaTime - last.mediaTime) * 1000;
+      this.syncMetrics.frameDuration = Math.min(this.syncMetrics.frameDuration ?? Infinity, duration);
+    }
+    this.lastFrame = { mediaTime: frame.mediaTime, presentedFrames: frame.presentedFrames };
+    this.lastFrameAt = masterClock.now();
+    this.syncMetrics.frames = (this.syncMetrics.frames ?? 0) + 1;
+    
+    // The frame stays up for a frame duration; the clock anywhere inside it is in
+    // sync. Positive when the frame is ahead of the clock
+    const frameTime = calculateMasterTime(item, frame.mediaTime);
+    const clockTime = masterClock.getTimeAt(frame.expectedDisplayTime);
+    const frameEnd = frameTime + (this.syncMetrics.frameDuration ?? 0);
+    const offset = frameTime > clockTime ? frameTime - clockTime : Math.min(0, frameEnd - clockTime);
+    this.updateSyncMetrics(Math.abs(offset));
+    
+    // The clock layer reports its frames; while the clock follows them there is
+    // nothing to correct, otherwise it catches up like any other layer until
+    // the clock takes it over
+    const isPlaying = !this.player.paused();
+    if (this.drivesClock && isPlaying) {
+      masterClock.updateTimeFromFrame(frameTime, frame.expectedDisplayTime);
+    }
+    if (this.isClockSource()) return;
+    
+    const correction = this.driftCorrector.update(offset, masterClock.getState().playbackRate, masterClock.now());
+    this.driftingFrames = correction.seek ? this.driftingFrames + 1 : 0;
+    if (!isPlaying) return;
+    
+    if (this.driftingFrames >= this.DRIFT_FRAMES) {
+      this.correctFrameDrift(item, frame.presentedFrames);
+    } else {
+      this.applyRate(correction.rate);
+    }
+  }
+  
+  private isClockSource(): boolean {
+    return this.drivesClock && masterClock.isDrivenBy('video');
+  }
+  
+  /**
+   * Seek a following layer back onto the clock
+   */
+  private correctFrameDrift(item: TrackItem, presentedFrames: number): void {
+    const { start: inPoint, end: outPoint } = getItemMediaRange(item);
+    const videoTime = calculateItemRelativeTime(item, masterClock.getTimeAt(masterClock.now()));
+    const targetTime = Math.max(inPoint, outPoint !== null ? Math.min(videoTime, outPoint) : videoTime);
+    
+    this.isSeeking = true;
+    this.player!.currentTime(targetTime);
+    masterClock.getTimer().setTimeout(() => {
+      this.isSeeking = false;
+    }, 500);
+    
+    this.driftingFrames = 0;
+    this.lastFrame = null;
+    this.syncMetrics.corrections++;
+    this.syncMetrics.correctedFrames = (this.syncMetrics.correctedFrames ?? 0) + 1;
+    this.syncMetrics.lastCorrectedFrame = presentedFrames;
+  }
+  
   play(): void {
-    if (!this.player || !this.player.paused()) return;
+    if (!this.player || !this.player.paused() || this.heldAtOutPoint) return;
+    if (!this.drivesClock && !findItemAtTime(this.items, masterClock.getState().currentTime)) return;
     
     // Cancel any pending play promise
     this.playPromise = null;
     
     this.ensureVisible();
+    this.syncOutgoing(masterClock.getState().currentTime, true);
     
     // Handle play promise properly
     const promise = this.player.play();
@@ -718,7 +1330,9 @@ export class VideoJsManager implements TrackManager {
   }
   
   pause(): void {
+    this.endStall();
     if (!this.player) return;
+    this.outgoing?.player?.pause();
     
     // Wait for any pending play promise before pausing
     if (this.playPromise) {
@@ -749,7 +1363,7 @@ export class VideoJsManager implements TrackManager {
   
   private async performSeek(timeMs: number): Promise<void> {
     // Prevent duplicate seeks to same time
-    const now = Date.now();
+    const now = masterClock.now();
     if (Math.abs(timeMs - this.lastSeekTime) < 1 && (now - this.lastSyncTime) < 100) {
       // console.log('[VideoJsManager] Ignoring duplicate seek to:', timeMs);
       return;
@@ -760,6 +1374,8 @@ export class VideoJsManager implements TrackManager {
     
     // Set seeking flag to prevent sync conflicts
     this.isSeeking = true;
+    this.driftCorrector.reset();
+    this.applyRate(masterClock.getState().playbackRate);
     
     // Cancel any pending play promise during seek
     if (this.playPromise) {
@@ -793,6 +1409,11 @@ export class VideoJsManager implements TrackManager {
       const targetIndex = this.items.indexOf(targetItem);
       const shouldBePlaying = masterClock.getState().isPlaying;
       
+      // A preloaded item is only kept if the seek lands in it
+      if (this.standby && this.standby.index !== targetIndex) {
+        this.discardStandby();
+      }
+      
       // Check if we need to load a different video
       // With disposal strategy, we always load when switching videos
       const needsLoad = targetIndex !== this.currentItemIndex || !this.player;
@@ -812,7 +1433,7 @@ export class VideoJsManager implements TrackManager {
       // Wait for minimum readiness
       let waitAttempts = 0;
       while ((this.player.readyState() ?? 0) < 2 && waitAttempts < 30) { // Increased attempts
-        await new Promise(resolve => setTimeout(resolve, 50)); // Reduced wait time
+        await new Promise<void>(resolve => masterClock.getTimer().setTimeout(resolve, 50)); // Reduced wait time
         waitAttempts++;
       }
       
@@ -823,7 +1444,8 @@ export class VideoJsManager implements TrackManager {
       // Calculate precise time within this video
       const videoTime = calculateItemRelativeTime(targetItem, timeMs);
       const videoDuration = this.player.duration() || Infinity;
-      const targetTime = Math.max(0, Math.min(videoTime, videoDuration));
+      const targetTime = Math.min(videoTime, videoDuration);
+      this.heldAtOutPoint = false;
       
       // Only seek if time difference is significant (>100ms)
       const currentTime = this.player.currentTime() ?? 0;
@@ -852,7 +1474,7 @@ export class VideoJsManager implements TrackManager {
               seekCompleted = true;
               this.player?.off('seeked', onSeeked);
               this.player?.off('error', onError);
-              clearTimeout(timeout);
+              masterClock.getTimer().clearTimeout(timeout);
               resolve();
             }
           };
@@ -863,13 +1485,13 @@ export class VideoJsManager implements TrackManager {
               console.warn('[VideoJsManager] Error during seek, continuing');
               this.player?.off('seeked', onSeeked);
               this.player?.off('error', onError);
-              clearTimeout(timeout);
+              masterClock.getTimer().clearTimeout(timeout);
               resolve();
             }
           };
           
           // Set timeout to prevent infinite wait
-          const timeout = setTimeout(() => {
+          const timeout = masterClock.getTimer().setTimeout(() => {
             if (!seekCompleted) {
               seekCompleted = true;
               this.player?.off('seeked', onSeeked);
@@ -885,7 +1507,7 @@ export class VideoJsManager implements TrackManager {
         
         // Resume playing if needed, but handle play promise properly
         if (wasPlaying && shouldBePlaying) {
-          await new Promise(resolve => setTimeout(resolve, 100));
+          await new Promise<void>(resolve => masterClock.getTimer().setTimeout(resolve, 100));
           
           // Cancel any existing play promise
           this.playPromise = null;
@@ -910,7 +1532,7 @@ export class VideoJsManager implements TrackManager {
       this.ensureVisible();
       
       // Restore playing state with a small delay for stability
-      await new Promise(resolve => setTimeout(resolve, 100));
+      await new Promise<void>(resolve => masterClock.getTimer().setTimeout(resolve, 100));
       
       if (shouldBePlaying && this.player.paused()) {
         try {
@@ -924,6 +1546,9 @@ export class VideoJsManager implements TrackManager {
         // console.log('[VideoJsManager] Playback paused after seek');
       }
       
+      // Seeking into a transition shows it at that point
+      this.updateTransitionEffect(timeMs);
+      
       // console.log('[VideoJsManager] Seek completed successfully to', timeMs, 'ms');
       
     } catch (error) {
@@ -932,11 +1557,28 @@ export class VideoJsManager implements TrackManager {
     } finally {
       // Always clear seeking flag
       this.isSeeking = false;
+      this.recordSeekLatency(masterClock.now() - now);
     }
   }
   
   setPlaybackRate(rate: number): void {
+    this.driftCorrector.reset();
     this.player?.playbackRate(rate);
+    this.outgoing?.player?.playbackRate(rate);
+  }
+  
+  /**
+   * Switch between seeking and rate nudging to correct drift
+   */
+  setDriftCorrection(strategy: DriftCorrectionStrategy): void {
+    this.driftCorrector.setStrategy(strategy);
+    this.applyRate(masterClock.getState().playbackRate);
+  }
+  
+  private applyRate(rate: number): void {
+    if (this.player && Math.abs((this.player.playbackRate() ?? 1) - rate) > 0.0005) {
+      this.player.playbackRate(rate);
+    }
   }
   
   getCurrentItem(): TrackItem | null {
@@ -951,7 +1593,7 @@ export class VideoJsManager implements TrackManager {
   }
   
   getSyncMetrics(): SyncMetrics {
-    return { ...this.syncMetrics };
+    return { ...this.syncMetrics, ...this.driftCorrector.getMetrics() };
   }
   
   destroy(): void {
@@ -964,6 +1606,9 @@ export class VideoJsManager implements TrackManager {
     this.playPromise = null;
     this.loadingPromise = null;
     this.seekQueue = Promise.resolve();
+    this.discardStandby();
+    this.endTransitionEffect();
+    this.unwatchFrames();
     
     if (this.player) {
       try {
@@ -996,6 +1641,9 @@ export class VideoJsManager implements TrackManager {
     this.currentItemIndex = -1;
     this.playlistIndex = -1;
     this.driftHistory = [];
+    this.transitionLatencies = [];
+    this.seekLatencies = [];
+    this.stallStartedAt = null;
     this.isTransitioning = false;
     this.isSeeking = false;
   }
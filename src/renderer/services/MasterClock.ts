@@ -1,6 +1,14 @@
+import { ClockSourceName } from '../../types/index';
+import { AudioClockSource, ClockSource, VideoClockSource, WallClockSource } from './clockSources';
+import { ClockTimer, browserTimer } from './clockTimer';
+
 /**
  * MasterClock Service
  * Central timing controller for all media synchronization
+ *
+ * The time comes from a ClockSource: the wall clock, the video layer that
+ * drives the clock, or the AudioContext. Every manager follows the clock, so
+ * through it they all follow the chosen source.
  */
 
 export type ClockEventType = 'play' | 'pause' | 'seek' | 'ratechange' | 'timeupdate' | 'ended' | 'sync';
@@ -14,12 +22,17 @@ export interface ClockEvent {
 
 export type ClockListener = (event: ClockEvent) => void;
 
+// A source takes over when it is this close to the clock (or SOURCE_JUMP_MS
+// right after an anchor), and is left once it jumps further than SOURCE_JUMP_MS
+// away: apart from seeks the clock never jumps by more
+const HANDOVER_TOLERANCE_MS = 50;
+const SOURCE_JUMP_MS = 1000;
+
 export class MasterClock {
   private currentTime: number = 0; // Current position in ms
   private duration: number = 0; // Total duration in ms
   private playbackRate: number = 1.0;
   private isPlaying: boolean = false;
-  private startTime: number = 0;
   private lastUpdateTime: number = 0;
   private animationFrameId: number | null = null;
   private listeners: Set<ClockListener> = new Set();
@@ -30,21 +43,62 @@ export class MasterClock {
   private lastFpsTime: number = 0;
   private currentFps: number = 0;
   
-  // Video-driven sync mode
-  private useVideoSync: boolean = true;
-  private lastVideoUpdateTime: number = 0;
+  // Time sources; the wall clock carries on whenever the chosen one cannot tell
+  private readonly wallClock = new WallClockSource();
+  private readonly videoClock = new VideoClockSource();
+  private readonly audioClock = new AudioClockSource();
+  private source: ClockSource = this.videoClock;
+  // Whether the clock currently takes its time from the source, and whether
+  // the source has not reported since the last play, seek or rate change
+  private isFollowingSource: boolean = false;
+  private isAwaitingSource: boolean = false;
   
   // Manager coordination
   private managers: Set<any> = new Set();
   private isSeeking: boolean = false;
   private lastSeekTime: number = 0;
-  private lastSeekTimestamp: number = 0;
+  private lastSeekTimestamp: number = -Infinity;
   private seekPromise: Promise<void> | null = null;
   
-  constructor() {
+  /**
+   * @param timer where the time comes from and work is scheduled; a virtual
+   * timer makes the clock deterministic
+   */
+  constructor(private timer: ClockTimer = browserTimer) {
     this.update = this.update.bind(this);
   }
   
+  /**
+   * Run on another timer, e.g. a virtual one for scripted sync checks. The
+   * clock keeps its position and play state.
+   */
+  setTimer(timer: ClockTimer): void {
+    const isRunning = this.animationFrameId !== null;
+    const isSyncing = this.syncInterval !== null;
+    this.stopUpdateLoop();
+    this.stopSyncInterval();
+    
+    this.timer = timer;
+    this.anchor(timer.now());
+    this.lastUpdateTime = timer.now();
+    if (isRunning) this.startUpdateLoop();
+    if (isSyncing) this.startSyncInterval();
+  }
+  
+  /**
+   * The timer the clock runs on; managers schedule their waits and timeouts on it
+   */
+  getTimer(): ClockTimer {
+    return this.timer;
+  }
+  
+  /**
+   * The timer's current time; managers use it so they run on the same time as the clock
+   */
+  now(): number {
+    return this.timer.now();
+  }
+  
   /**
    * Register a manager for direct coordination
    */
@@ -71,6 +125,7 @@ export class MasterClock {
     this.currentTime = 0;
     this.isPlaying = false;
     this.playbackRate = 1.0;
+    this.anchor(this.timer.now());
     
     // Don't call stop() here as it might cause issues
     this.stopUpdateLoop();
@@ -85,8 +140,8 @@ export class MasterClock {
     if (this.isPlaying) return;
     
     this.isPlaying = true;
-    this.startTime = performance.now() - (this.currentTime / this.playbackRate);
-    this.lastUpdateTime = performance.now();
+    this.anchor(this.timer.now());
+    this.lastUpdateTime = this.timer.now();
     
     this.emit({
       type: 'play',
@@ -137,7 +192,7 @@ export class MasterClock {
     const clampedTime = Math.max(0, Math.min(timeMs, this.duration));
     
     // Prevent duplicate seeks to same time
-    const now = Date.now();
+    const now = this.timer.now();
     if (Math.abs(clampedTime - this.lastSeekTime) < 1 && (now - this.lastSeekTimestamp) < 200) {
       console.log('[MasterClock] Ignoring duplicate seek to:', clampedTime);
       return this.seekPromise || Promise.resolve();
@@ -162,10 +217,7 @@ export class MasterClock {
   private async performSeek(clampedTime: number): Promise<void> {
     this.isSeeking = true;
     this.currentTime = clampedTime;
-    
-    if (this.isPlaying) {
-      this.startTime = performance.now() - (this.currentTime / this.playbackRate);
-    }
+    this.anchor(this.timer.now());
     
     // Coordinate all managers to seek simultaneously with timeout
     const seekPromises: Promise<void>[] = [];
@@ -177,7 +229,7 @@ export class MasterClock {
           // Wrap each seek in a timeout promise
           const seekWithTimeout = new Promise<void>((resolve, reject) => {
             // Create timeout
-            const timeoutId = setTimeout(() => {
+            const timeoutId = this.timer.setTimeout(() => {
               console.warn(`[MasterClock] Manager seek timeout after ${SEEK_TIMEOUT}ms:`, manager.constructor.name);
               resolve(); // Resolve instead of reject to continue with other managers
             }, SEEK_TIMEOUT);
@@ -188,16 +240,16 @@ export class MasterClock {
             if (seekPromise instanceof Promise) {
               seekPromise
                 .then(() => {
-                  clearTimeout(timeoutId);
+                  this.timer.clearTimeout(timeoutId);
                   resolve();
                 })
                 .catch(error => {
-                  clearTimeout(timeoutId);
+                  this.timer.clearTimeout(timeoutId);
                   console.error(`[MasterClock] Manager ${manager.constructor.name} seek failed:`, error);
                   resolve(); // Resolve to continue with other managers
                 });
             } else {
-              clearTimeout(timeoutId);
+              this.timer.clearTimeout(timeoutId);
               resolve();
             }
           });
@@ -236,7 +288,7 @@ export class MasterClock {
     this.seekPromise = null;
     
     // Force a sync after seek to ensure all managers are aligned
-    setTimeout(() => {
+    this.timer.setTimeout(() => {
       if (!this.isSeeking) {
         this.emit({
           type: 'timeupdate',
@@ -248,6 +300,16 @@ export class MasterClock {
     }, 100);
   }
   
+  /**
+   * Change the duration without resetting position or play state (manifest hot reload)
+   */
+  setDuration(durationMs: number): void {
+    this.duration = durationMs;
+    if (this.currentTime > durationMs) {
+      this.seek(durationMs);
+    }
+  }
+  
   /**
    * Set playback rate (0.5x, 1.0x, 1.5x, 2.0x, etc.)
    */
@@ -258,14 +320,13 @@ export class MasterClock {
     }
     
     // Calculate current position before rate change
-    if (this.isPlaying) {
-      const now = performance.now();
-      const elapsed = now - this.startTime;
-      this.currentTime = elapsed * this.playbackRate;
-      this.startTime = now - (this.currentTime / rate);
+    const now = this.timer.now();
+    if (this.isPlaying && !this.isSeeking) {
+      this.currentTime = Math.min(this.readTime(now), this.duration);
     }
     
     this.playbackRate = rate;
+    this.anchor(now);
     
     this.emit({
       type: 'ratechange',
@@ -276,83 +337,83 @@ export class MasterClock {
   }
   
   /**
-   * Update time from video element (video-driven sync)
-   * This allows the video to be the master time source
+   * Follow another time source. The clock carries on from where it is; the
+   * source takes over once it agrees with the clock.
    */
-  updateTimeFromVideo(timeMs: number, isVideoPlaying: boolean): void {
-    // Don't update during coordinated seeking to prevent conflicts
-    if (this.isSeeking) {
-      return;
-    }
-    
-    // Only update if we're in video sync mode and time has changed significantly
-    if (!this.useVideoSync) return;
-    
-    const now = performance.now();
-    const timeDiff = Math.abs(this.currentTime - timeMs);
+  setSource(name: ClockSourceName): void {
+    const source = name === 'wall' ? this.wallClock : name === 'audio' ? this.audioClock : this.videoClock;
+    if (source === this.source) return;
     
-    // Validate time is within valid range to prevent invalid jumps
-    if (timeMs < 0 || timeMs > this.duration + 1000) {
-      console.warn('[MasterClock] Invalid time update rejected:', timeMs, 'ms (duration:', this.duration, 'ms)');
-      return;
+    const now = this.timer.now();
+    if (this.isPlaying && !this.isSeeking) {
+      this.currentTime = Math.min(this.readTime(now), this.duration);
     }
-    
-    // For backward seeks or large jumps, be more permissive with updates
-    const isLargeJump = timeDiff > 1000; // 1 second jump
-    const isBackwardJump = timeMs < this.currentTime - 500; // Going backward by more than 500ms
+    this.source = source;
+    this.anchor(now);
+    console.log('[MasterClock] Clock source:', name);
+  }
+  
+  getSourceName(): ClockSourceName {
+    return this.source.name;
+  }
+  
+  /**
+   * Whether the time currently comes from this source rather than from the
+   * wall clock standing in for it
+   */
+  isDrivenBy(name: ClockSourceName): boolean {
+    return this.source.name === name && (name === 'wall' || this.isFollowingSource);
+  }
+  
+  /**
+   * The context whose currentTime the audio source follows (the mixer's)
+   */
+  setAudioContext(context: AudioContext | null): void {
+    this.audioClock.setContext(context);
+    this.anchor(this.timer.now());
+  }
+  
+  /**
+   * Update time from video element (video-driven sync), for when presented
+   * frames are not reported
+   */
+  updateTimeFromVideo(timeMs: number): void {
+    if (!this.acceptsVideoTime(timeMs)) return;
     
     // Special handling for jumps to 0 (often error recovery)
-    const isResetToZero = timeMs === 0 && this.currentTime > 1000;
-    if (isResetToZero) {
+    if (timeMs === 0 && this.currentTime > 1000) {
       console.warn('[MasterClock] Unexpected reset to 0 detected, ignoring');
-      return; // Ignore unexpected resets to 0
+      return;
     }
-    
-    // Update if time difference is significant, state changed, or it's a seek operation
-    if (timeDiff > 50 || this.isPlaying !== isVideoPlaying || isLargeJump || isBackwardJump) {
-      // For large jumps (likely seeks), check if it's a sync correction loop
-      if (isLargeJump || isBackwardJump) {
-        // Ignore rapid jumps which are likely sync correction oscillations
-        const timeSinceLastJump = now - ((this as any).lastJumpTime || 0);
-        if (timeSinceLastJump < 1000) {
-          console.warn('[MasterClock] Ignoring rapid time jump (sync loop detected):', this.currentTime.toFixed(0), '->', timeMs.toFixed(0), 'ms');
-          return;
-        }
-        console.log('[MasterClock] Time jump detected:', this.currentTime.toFixed(0), '->', timeMs.toFixed(0), 'ms');
-        (this as any).lastJumpTime = now;
-      }
-      
-      this.currentTime = timeMs;
-      
-      // Update playing state to match video
-      if (this.isPlaying !== isVideoPlaying) {
-        this.isPlaying = isVideoPlaying;
-        if (isVideoPlaying) {
-          this.startTime = now - (this.currentTime / this.playbackRate);
-        }
-      }
-      
-      // For large jumps, update immediately. Otherwise, throttle updates
-      const shouldUpdateImmediately = isLargeJump || isBackwardJump || (now - this.lastVideoUpdateTime > 100);
-      
-      if (shouldUpdateImmediately) {
-        this.lastVideoUpdateTime = now;
-        // Don't emit through regular emit to avoid feedback loop
-        // Just update UI directly
-        this.listeners.forEach(listener => {
-          try {
-            listener({
-              type: 'timeupdate',
-              time: this.currentTime,
-              playbackRate: this.playbackRate,
-              isPlaying: this.isPlaying,
-            });
-          } catch (error) {
-            console.error('Error in clock listener:', error);
-          }
-        });
-      }
+    this.videoClock.reportTime(timeMs, this.timer.now());
+  }
+  
+  /**
+   * Update time from a presented video frame (requestVideoFrameCallback).
+   * While the video is the source, the clock runs on from the exact media
+   * time on screen until the next frame.
+   */
+  updateTimeFromFrame(timeMs: number, displayTime: number): void {
+    if (!this.acceptsVideoTime(timeMs)) return;
+    this.videoClock.reportFrame(timeMs, displayTime);
+  }
+  
+  /**
+   * Position at a timer.now() timestamp, e.g. when a frame will be displayed
+   */
+  getTimeAt(timestamp: number): number {
+    if (!this.isPlaying || this.isSeeking) {
+      return this.currentTime;
     }
+    // The wall clock is kept anchored to the source being followed
+    return Math.max(0, Math.min(this.wallClock.getTime(timestamp, this.playbackRate), this.duration));
+  }
+  
+  /**
+   * The last presented video frame, null until one is reported after a seek
+   */
+  getDisplayedFrame(): { time: number; displayTime: number } | null {
+    return this.videoClock.getDisplayedFrame();
   }
   
   /**
@@ -384,37 +445,30 @@ export class MasterClock {
    * Main update loop using requestAnimationFrame
    */
   private update(): void {
-    const now = performance.now();
+    const now = this.timer.now();
     
     // Skip updates during seeking
     if (this.isSeeking) {
       if (this.isPlaying) {
-        this.animationFrameId = requestAnimationFrame(this.update);
+        this.animationFrameId = this.timer.requestFrame(this.update);
       }
       return;
     }
     
     if (this.isPlaying) {
-      // Always calculate elapsed time for fallback
-      const elapsed = (now - this.startTime) * this.playbackRate;
+      this.currentTime = Math.min(this.readTime(now), this.duration);
       
-      // If NOT in video sync mode OR video hasn't updated recently, calculate time ourselves
-      if (!this.useVideoSync || (now - this.lastVideoUpdateTime > 500)) {
-        // Use calculated time if video isn't updating (500ms timeout for responsiveness)
-        this.currentTime = Math.min(elapsed, this.duration);
-        
-        // Check if we've reached the end
-        if (this.currentTime >= this.duration) {
-          this.currentTime = this.duration;
-          this.pause();
-          this.emit({
-            type: 'ended',
-            time: this.currentTime,
-            playbackRate: this.playbackRate,
-            isPlaying: false,
-          });
-          return;
-        }
+      // Check if we've reached the end
+      if (this.currentTime >= this.duration) {
+        this.currentTime = this.duration;
+        this.pause();
+        this.emit({
+          type: 'ended',
+          time: this.currentTime,
+          playbackRate: this.playbackRate,
+          isPlaying: false,
+        });
+        return;
       }
       
       // Emit time updates for UI updates (not for sync)
@@ -437,8 +491,69 @@ export class MasterClock {
         this.lastFpsTime = now;
       }
       
-      this.animationFrameId = requestAnimationFrame(this.update);
+      this.animationFrameId = this.timer.requestFrame(this.update);
+    }
+  }
+  
+  /**
+   * Position from the source, or from the wall clock while the source cannot
+   * tell or does not agree with the clock yet. Whichever is used, the wall
+   * clock is left anchored to it, so handovers continue without a jump.
+   */
+  private readTime(now: number): number {
+    const wallTime = this.wallClock.getTime(now, this.playbackRate);
+    if (this.source === this.wallClock) {
+      return wallTime;
+    }
+    
+    const sourceTime = this.source.getTime(now, this.playbackRate);
+    if (sourceTime !== null) {
+      // Right after play, seek or a rate change the source may be further off,
+      // so the clock waits for media that is slow to start
+      const tolerance = this.isFollowingSource || this.isAwaitingSource ? SOURCE_JUMP_MS : HANDOVER_TOLERANCE_MS;
+      this.isAwaitingSource = false;
+      if (Math.abs(sourceTime - wallTime) <= tolerance) {
+        if (!this.isFollowingSource) {
+          console.log('[MasterClock] Following', this.source.name, 'from', sourceTime.toFixed(0), 'ms');
+          this.isFollowingSource = true;
+        }
+        this.wallClock.anchor(sourceTime, now);
+        return sourceTime;
+      }
+    }
+    
+    if (this.isFollowingSource) {
+      console.log('[MasterClock] Handing over from', this.source.name, 'to the wall clock at', wallTime.toFixed(0), 'ms');
+      this.isFollowingSource = false;
+    }
+    // An audio source restarts from the clock's position; the video has to catch up by itself
+    this.source.anchor(wallTime, now);
+    return wallTime;
+  }
+  
+  /**
+   * Restart every source from the current position
+   */
+  private anchor(now: number): void {
+    this.wallClock.anchor(this.currentTime, now);
+    this.videoClock.anchor();
+    this.audioClock.anchor(this.currentTime, now);
+    this.isFollowingSource = this.source === this.wallClock;
+    this.isAwaitingSource = !this.isFollowingSource;
+  }
+  
+  private acceptsVideoTime(timeMs: number): boolean {
+    // Don't update during coordinated seeking to prevent conflicts
+    if (this.isSeeking || !this.isPlaying || this.source !== this.videoClock) {
+      return false;
+    }
+    
+    // Validate time is within valid range to prevent invalid jumps
+    if (timeMs < 0 || timeMs > this.duration + 1000) {
+      console.warn('[MasterClock] Invalid time update rejected:', timeMs, 'ms (duration:', this.duration, 'ms)');
+      return false;
     }
+    return true;
   }
   
   /**
@@ -446,9 +561,9 @@ export class MasterClock {
    */
   private startUpdateLoop(): void {
     if (this.animationFrameId === null) {
-      this.lastFpsTime = performance.now();
+      this.lastFpsTime = this.timer.now();
       this.frameCount = 0;
-      this.animationFrameId = requestAnimationFrame(this.update);
+      this.animationFrameId = this.timer.requestFrame(this.update);
     }
   }
   
@@ -457,7 +572,7 @@ export class MasterClock {
    */
   private stopUpdateLoop(): void {
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.timer.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
   }
@@ -470,7 +585,7 @@ export class MasterClock {
     if (this.syncInterval === null) {
       // Sync every 500ms to reduce sync corrections
       // Changed from 200ms to prevent excessive corrections
-      this.syncInterval = window.setInterval(() => {
+      this.syncInterval = this.timer.setInterval(() => {
         // Skip sync during seeking
         if (this.isPlaying && !this.isSeeking) {
           // This will be used by track managers to sync their media elements
@@ -491,7 +606,7 @@ export class MasterClock {
    */
   private stopSyncInterval(): void {
     if (this.syncInterval !== null) {
-      clearInterval(this.syncInterval);
+      this.timer.clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
   }
@@ -0,0 +1,191 @@
+import { TrackSyncMetrics } from '../../types/index';
+
+/**
+ * Records the sync metrics of every media manager along the master timeline.
+ *
+ * App takes a sample of each video layer and audio track on every sync tick
+ * (twice a second while playing). The samples and a summary per manager can
+ * be exported as CSV or JSON, to check a content package for sync quality
+ * before release.
+ */
+
+export interface SyncTelemetrySample {
+  // Master timeline position (ms) and when the sample was taken (performance.now())
+  time: number;
+  at: number;
+  id: string;
+  type: TrackSyncMetrics['type'];
+  drift: number;
+  // Running counts of the manager; they restart when the manager is rebuilt
+  corrections: number;
+  nudges: number;
+  stalls: number;
+  stallTime: number;
+  seeks: number;
+  // Latency of the manager's last coordinated seek (ms)
+  seekLatency: number | null;
+}
+
+export interface SyncTelemetrySummary {
+  id: string;
+  type: TrackSyncMetrics['type'];
+  samples: number;
+  averageDrift: number;
+  maxDrift: number;
+  corrections: number;
+  nudges: number;
+  stalls: number;
+  stallTime: number;
+  seeks: number;
+  averageSeekLatency: number | null;
+  maxSeekLatency: number | null;
+}
+
+export interface SyncReport {
+  title?: string;
+  createdAt: string;
+  summary: SyncTelemetrySummary[];
+  samples: SyncTelemetrySample[];
+}
+
+// Over 40 minutes of two managers; the oldest samples go first
+const MAX_SAMPLES = 10000;
+
+const CSV_COLUMNS: Array<keyof SyncTelemetrySample> = [
+  'time', 'at', 'id', 'type', 'drift', 'corrections', 'nudges', 'stalls', 'stallTime', 'seeks', 'seekLatency',
+];
+
+export class SyncTelemetry {
+  private samples: SyncTelemetrySample[] = [];
+  private version = 0;
+
+  /**
+   * Sample every manager at this master time
+   */
+  record(time: number, at: number, managers: TrackSyncMetrics[]): void {
+    for (const { id, type, metrics } of managers) {
+      this.samples.push({
+        time,
+        at,
+        id,
+        type,
+        drift: metrics.drift,
+        corrections: metrics.corrections,
+        nudges: metrics.nudges ?? 0,
+        stalls: metrics.stalls ?? 0,
+        stallTime: metrics.stallTime ?? 0,
+        seeks: metrics.seeks ?? 0,
+        seekLatency: metrics.lastSeekLatency ?? null,
+      });
+    }
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+    }
+    this.version++;
+  }
+
+  getSamples(): readonly SyncTelemetrySample[] {
+    return this.samples;
+  }
+
+  /**
+   * Changes with every record or clear, so views can tell when to redraw
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  clear(): void {
+    this.samples = [];
+    this.version++;
+  }
+
+  /**
+   * Drift, corrections, stalls and seek latency per manager over all samples
+   */
+  getSummary(): SyncTelemetrySummary[] {
+    const summaries = new Map<string, SyncTelemetrySummary & { driftSum: number; seekLatencies: number[] }>();
+    const previous = new Map<string, SyncTelemetrySample>();
+
+    for (const sample of this.samples) {
+      let summary = summaries.get(sample.id);
+      if (!summary) {
+        summary = {
+          id: sample.id,
+          type: sample.type,
+          samples: 0,
+          averageDrift: 0,
+          maxDrift: 0,
+          corrections: 0,
+          nudges: 0,
+          stalls: 0,
+          stallTime: 0,
+          seeks: 0,
+          averageSeekLatency: null,
+          maxSeekLatency: null,
+          driftSum: 0,
+          seekLatencies: [],
+        };
+        summaries.set(sample.id, summary);
+      }
+
+      summary.samples++;
+      summary.driftSum += sample.drift;
+      summary.maxDrift = Math.max(summary.maxDrift, sample.drift);
+
+      // Add up what happened since the last sample; a count that went down belongs to a rebuilt manager
+      const last = previous.get(sample.id);
+      const since = (key: 'corrections' | 'nudges' | 'stalls' | 'stallTime' | 'seeks') =>
+        last && sample[key] >= last[key] ? sample[key] - last[key] : sample[key];
+      summary.corrections += since('corrections');
+      summary.nudges += since('nudges');
+      summary.stalls += since('stalls');
+      summary.stallTime += since('stallTime');
+      const seeks = since('seeks');
+      summary.seeks += seeks;
+      if (seeks > 0 && sample.seekLatency !== null) {
+        summary.seekLatencies.push(sample.seekLatency);
+      }
+      previous.set(sample.id, sample);
+    }
+
+    return [...summaries.values()].map(({ driftSum, seekLatencies, ...summary }) => ({
+      ...summary,
+      averageDrift: summary.samples > 0 ? driftSum / summary.samples : 0,
+      averageSeekLatency: seekLatencies.length > 0
+        ? seekLatencies.reduce((a, b) => a + b, 0) / seekLatencies.length
+        : null,
+      maxSeekLatency: seekLatencies.length > 0 ? Math.max(...seekLatencies) : null,
+    }));
+  }
+
+  /**
+   * The summary and every sample, for a JSON export
+   */
+  getReport(title?: string): SyncReport {
+    return {
+      title,
+      createdAt: new Date().toISOString(),
+      summary: this.getSummary(),
+      samples: [...this.samples],
+    };
+  }
+
+  /**
+   * One row per sample, times and drift in ms
+   */
+  toCsv(): string {
+    const rows = this.samples.map(sample => CSV_COLUMNS.map(column => formatCsvValue(sample[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+}
+
+function formatCsvValue(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(Math.round(value * 10) / 10);
+  }
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,120 @@
+import { ClockSourceName } from '../../types/index';
+
+/**
+ * Time sources the MasterClock can follow.
+ *
+ * The wall clock (performance.now()) always has an answer and carries the
+ * clock whenever the chosen source has none: in a gap between video items,
+ * while the video stalls, or while the AudioContext is suspended. The clock
+ * keeps the wall clock anchored to the source it follows, so a handover in
+ * either direction continues from the same position.
+ */
+
+export interface ClockSource {
+  readonly name: ClockSourceName;
+  /**
+   * Timeline position (ms) at a performance.now() timestamp, or null while the
+   * source cannot tell
+   */
+  getTime(now: number, rate: number): number | null;
+  /**
+   * Carry on from this position: the clock played, seeked, changed rate or
+   * hands over to the source
+   */
+  anchor(time: number, now: number): void;
+}
+
+export class WallClockSource implements ClockSource {
+  readonly name = 'wall';
+  private time = 0;
+  private at = 0;
+
+  getTime(now: number, rate: number): number {
+    return this.time + (now - this.at) * rate;
+  }
+
+  anchor(time: number, now: number): void {
+    this.time = time;
+    this.at = now;
+  }
+}
+
+// Reports older than this mean the video has stopped presenting frames
+const VIDEO_STALE_MS = 500;
+
+/**
+ * Position of the video layer that drives the clock, reported by its manager:
+ * presented frames (requestVideoFrameCallback) or, without those, currentTime
+ */
+export class VideoClockSource implements ClockSource {
+  readonly name = 'video';
+  private report: { time: number; at: number; isFrame: boolean } | null = null;
+
+  /**
+   * A frame of this master time is shown at displayTime (performance.now())
+   */
+  reportFrame(time: number, displayTime: number): void {
+    this.report = { time, at: displayTime, isFrame: true };
+  }
+
+  /**
+   * The element's currentTime as a master time; ignored while frames are reported
+   */
+  reportTime(time: number, now: number): void {
+    if (this.report?.isFrame && now - this.report.at < VIDEO_STALE_MS) return;
+    this.report = { time, at: now, isFrame: false };
+  }
+
+  /**
+   * Master time of the frame on screen, null until one is reported after an anchor
+   */
+  getDisplayedFrame(): { time: number; displayTime: number } | null {
+    return this.report?.isFrame ? { time: this.report.time, displayTime: this.report.at } : null;
+  }
+
+  getTime(now: number, rate: number): number | null {
+    if (!this.report || now - this.report.at > VIDEO_STALE_MS) {
+      return null;
+    }
+    return this.report.time + (now - this.report.at) * rate;
+  }
+
+  anchor(): void {
+    // The video cannot be moved from here; wait for a report from the new position
+    this.report = null;
+  }
+}
+
+/**
+ * The audio hardware clock: AudioContext.currentTime, mapped to the time the
+ * samples are heard where the browser reports output timestamps
+ */
+export class AudioClockSource implements ClockSource {
+  readonly name = 'audio';
+  private context: AudioContext | null = null;
+  private anchorPoint: { time: number; contextTime: number } | null = null;
+
+  setContext(context: AudioContext | null): void {
+    this.context = context;
+    this.anchorPoint = null;
+  }
+
+  getTime(now: number, rate: number): number | null {
+    if (!this.context || this.context.state !== 'running' || !this.anchorPoint) {
+      return null;
+    }
+    return this.anchorPoint.time + (this.getContextTime(this.context, now) - this.anchorPoint.contextTime) * 1000 * rate;
+  }
+
+  anchor(time: number, now: number): void {
+    this.anchorPoint = this.context ? { time, contextTime: this.getContextTime(this.context, now) } : null;
+  }
+
+  private getContextTime(context: AudioContext, now: number): number {
+    const stamp = typeof context.getOutputTimestamp === 'function' ? context.getOutputTimestamp() : null;
+    if (stamp?.contextTime !== undefined && stamp.performanceTime) {
+      return stamp.contextTime + (now - stamp.performanceTime) / 1000;
+    }
+    return context.currentTime;
+  }
+}
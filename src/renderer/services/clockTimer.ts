@@ -0,0 +1,28 @@
+/**
+ * Where the MasterClock gets the time and schedules its work.
+ *
+ * In the player this is the browser: performance.now(), animation frames and
+ * timers. A virtual timer (see testing/VirtualTimer) can stand in for it, so
+ * sync logic runs deterministically in Node without real playback.
+ */
+
+export interface ClockTimer {
+  // Milliseconds on the performance.now() timeline
+  now(): number;
+  requestFrame(callback: (now: number) => void): number;
+  cancelFrame(id: number): void;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+export const browserTimer: ClockTimer = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (id) => cancelAnimationFrame(id),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (id) => window.clearInterval(id),
+};
@@ -0,0 +1,345 @@
+import { ClockTimer } from '../services/clockTimer';
+
+/**
+ * Stand-in for an audio or video element, playing on a (virtual) timer.
+ *
+ * Implements the part of HTMLMediaElement the managers use: sources, play and
+ * pause, currentTime with seeking/seeked, playbackRate, readyState and the
+ * usual events, plus requestVideoFrameCallback. Loading, seeking and starting
+ * take configurable delays, and the media can be made to run fast or slow and
+ * to stall, so drift and its correction can be scripted. install() gives the
+ * media elements of a DOM such as jsdom the same behaviour, for Video.js.
+ */
+
+export interface FakeMediaOptions {
+  // Media length in seconds
+  duration: number;
+  // Time from load() to loadedmetadata, from a seek to seeked, and from play() to playing (ms)
+  loadDelay: number;
+  seekDelay: number;
+  startDelay: number;
+  // How much faster the media plays than asked, e.g. 0.01 to drift 10 ms per second
+  rateError: number;
+  // Video frames per media second, for requestVideoFrameCallback
+  frameRate: number;
+}
+
+const DEFAULT_OPTIONS: FakeMediaOptions = {
+  duration: 3600,
+  loadDelay: 20,
+  seekDelay: 20,
+  startDelay: 10,
+  rateError: 0,
+  frameRate: 30,
+};
+
+// What install() hands to the fake; the rest stays with the DOM element
+const INSTALLED_PROPERTIES = [
+  'currentTime', 'playbackRate', 'duration', 'readyState', 'paused', 'ended', 'seeking', 'error', 'preservesPitch',
+] as const;
+const INSTALLED_METHODS = [
+  'load', 'play', 'pause', 'requestVideoFrameCallback', 'cancelVideoFrameCallback',
+] as const;
+
+// Browsers fire timeupdate about every 250 ms while playing
+const TIMEUPDATE_INTERVAL = 250;
+
+export class FakeMediaElement extends EventTarget {
+  src = '';
+  preload = 'auto';
+  crossOrigin: string | null = null;
+  preservesPitch = true;
+  volume = 1;
+  muted = false;
+  readyState = 0;
+  paused = true;
+  ended = false;
+  seeking = false;
+  error: MediaError | null = null;
+  duration = NaN;
+  readonly options: FakeMediaOptions;
+
+  // Media position (s) when the element last started, stopped or seeked, and when (timer ms)
+  private position = 0;
+  private positionAt = 0;
+  private isAdvancing = false;
+  private rate = 1;
+  private timeupdateId: number | null = null;
+  private pendingIds = new Set<number>();
+  private frameCallbacks = new Map<number, VideoFrameRequestCallback>();
+  private frameTimerId: number | null = null;
+  private nextFrameHandle = 1;
+  private presentedFrames = 0;
+
+  /**
+   * @param element DOM element the fake plays for (see install); its events
+   * are fired on the element instead of the fake
+   */
+  constructor(
+    private readonly timer: ClockTimer,
+    options: Partial<FakeMediaOptions> = {},
+    private readonly element: HTMLMediaElement | null = null
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * An element factory for a manager (AudioManager's createElement); each
+   * element made is added to created, so a script can stall or inspect it
+   */
+  static factory(
+    timer: ClockTimer,
+    options: Partial<FakeMediaOptions> = {},
+    created: FakeMediaElement[] = []
+  ): () => HTMLAudioElement {
+    return () => {
+      const element = new FakeMediaElement(timer, options);
+      created.push(element);
+      return element as unknown as HTMLAudioElement;
+    };
+  }
+
+  /**
+   * Make every media element of a DOM (e.g. jsdom's HTMLMediaElement.prototype)
+   * play like a FakeMediaElement, for managers whose elements are made by a
+   * library such as Video.js. Each element made is added to created; src and
+   * the other attributes stay with the DOM.
+   */
+  static install(
+    prototype: HTMLMediaElement,
+    timer: ClockTimer,
+    options: Partial<FakeMediaOptions> = {},
+    created: FakeMediaElement[] = []
+  ): void {
+    const fakes = new WeakMap<object, FakeMediaElement>();
+    const fakeOf = (element: HTMLMediaElement) => {
+      let fake = fakes.get(element);
+      if (!fake) {
+        fake = new FakeMediaElement(timer, options, element);
+        fakes.set(element, fake);
+        created.push(fake);
+      }
+      return fake;
+    };
+
+    for (const name of INSTALLED_PROPERTIES) {
+      Object.defineProperty(prototype, name, {
+        configurable: true,
+        get(this: HTMLMediaElement) {
+          return fakeOf(this)[name];
+        },
+        set(this: HTMLMediaElement, value: unknown) {
+          Reflect.set(fakeOf(this), name, value);
+        },
+      });
+    }
+    for (const name of INSTALLED_METHODS) {
+      Object.defineProperty(prototype, name, {
+        configurable: true,
+        writable: true,
+        value(this: HTMLMediaElement, ...args: unknown[]) {
+          const fake = fakeOf(this);
+          return (fake[name] as (...args: unknown[]) => unknown).apply(fake, args);
+        },
+      });
+    }
+    // Whatever the type, the fake can play it
+    prototype.canPlayType = () => 'probably';
+  }
+
+  get currentTime(): number {
+    if (!this.isAdvancing) {
+      return this.position;
+    }
+    const elapsed = (this.timer.now() - this.positionAt) / 1000;
+    return Math.min(this.position + elapsed * this.rate * (1 + this.options.rateError), this.options.duration);
+  }
+
+  set currentTime(time: number) {
+    this.setPosition(Math.max(0, Math.min(time, this.options.duration)));
+    this.ended = false;
+    this.seeking = true;
+    this.fire('seeking');
+    this.later(this.options.seekDelay, () => {
+      this.seeking = false;
+      this.fire('seeked');
+      this.fire('timeupdate');
+    });
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  set playbackRate(rate: number) {
+    if (rate === this.rate) return;
+    this.setPosition(this.currentTime);
+    this.rate = rate;
+    // The next frame comes sooner or later at the new rate
+    if (this.frameTimerId !== null) {
+      this.timer.clearTimeout(this.frameTimerId);
+      this.frameTimerId = null;
+      this.scheduleFrame();
+    }
+    this.fire('ratechange');
+  }
+
+  load(): void {
+    this.cancelPending();
+    this.stopAdvancing();
+    this.paused = true;
+    this.ended = false;
+    this.readyState = 0;
+    this.position = 0;
+    this.fire('emptied');
+    this.later(this.options.loadDelay, () => {
+      this.duration = this.options.duration;
+      this.readyState = 4;
+      this.fire('loadedmetadata');
+      this.fire('loadeddata');
+      this.fire('canplay');
+    });
+  }
+
+  play(): Promise<void> {
+    if (this.paused) {
+      this.paused = false;
+      if (this.ended) {
+        this.ended = false;
+        this.position = 0;
+      }
+      this.fire('play');
+      this.later(this.options.startDelay, () => this.startAdvancing());
+    }
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.stopAdvancing();
+    this.paused = true;
+    this.fire('timeupdate');
+    this.fire('pause');
+  }
+
+  /**
+   * Stop presenting media for ms as if buffering, then carry on
+   */
+  stall(ms: number): void {
+    if (this.paused) return;
+    this.stopAdvancing();
+    this.readyState = 2;
+    this.fire('waiting');
+    this.later(ms, () => {
+      this.readyState = 4;
+      this.startAdvancing();
+    });
+  }
+
+  requestVideoFrameCallback(callback: VideoFrameRequestCallback): number {
+    const handle = this.nextFrameHandle++;
+    this.frameCallbacks.set(handle, callback);
+    this.scheduleFrame();
+    return handle;
+  }
+
+  cancelVideoFrameCallback(handle: number): void {
+    this.frameCallbacks.delete(handle);
+  }
+
+  remove(): void {
+    this.cancelPending();
+    this.stopAdvancing();
+    this.frameCallbacks.clear();
+  }
+
+  private startAdvancing(): void {
+    if (this.paused || this.isAdvancing) return;
+    this.positionAt = this.timer.now();
+    this.isAdvancing = true;
+    this.fire('playing');
+    this.timeupdateId = this.timer.setInterval(() => this.onTimeupdate(), TIMEUPDATE_INTERVAL);
+    this.scheduleFrame();
+  }
+
+  private stopAdvancing(): void {
+    this.setPosition(this.currentTime);
+    this.isAdvancing = false;
+    if (this.timeupdateId !== null) {
+      this.timer.clearInterval(this.timeupdateId);
+      this.timeupdateId = null;
+    }
+    if (this.frameTimerId !== null) {
+      this.timer.clearTimeout(this.frameTimerId);
+      this.frameTimerId = null;
+    }
+  }
+
+  private onTimeupdate(): void {
+    this.fire('timeupdate');
+    if (this.currentTime >= this.options.duration) {
+      this.stopAdvancing();
+      this.paused = true;
+      this.ended = true;
+      this.fire('pause');
+      this.fire('ended');
+    }
+  }
+
+  /**
+   * Present the next frame when its media time is reached
+   */
+  private scheduleFrame(): void {
+    if (!this.isAdvancing || this.frameTimerId !== null || this.frameCallbacks.size === 0) return;
+    const frameDuration = 1 / this.options.frameRate;
+    const nextFrame = (Math.floor(this.currentTime / frameDuration + 1e-6) + 1) * frameDuration;
+    const speed = this.rate * (1 + this.options.rateError);
+    const delay = speed > 0 ? ((nextFrame - this.currentTime) / speed) * 1000 : frameDuration * 1000;
+
+    this.frameTimerId = this.timer.setTimeout(() => {
+      this.frameTimerId = null;
+      const now = this.timer.now();
+      const callbacks = [...this.frameCallbacks.values()];
+      this.frameCallbacks.clear();
+      this.presentedFrames++;
+      const metadata = {
+        presentationTime: now,
+        expectedDisplayTime: now,
+        width: 1920,
+        height: 1080,
+        mediaTime: Math.floor(this.currentTime / frameDuration + 1e-6) * frameDuration,
+        presentedFrames: this.presentedFrames,
+      } as VideoFrameCallbackMetadata;
+      callbacks.forEach(callback => callback(now, metadata));
+    }, delay);
+  }
+
+  private setPosition(time: number): void {
+    this.position = time;
+    this.positionAt = this.timer.now();
+  }
+
+  private later(ms: number, callback: () => void): void {
+    const id = this.timer.setTimeout(() => {
+      this.pendingIds.delete(id);
+      callback();
+    }, ms);
+    this.pendingIds.add(id);
+  }
+
+  private cancelPending(): void {
+    this.pendingIds.forEach(id => this.timer.clearTimeout(id));
+    this.pendingIds.clear();
+  }
+
+  private fire(type: string): void {
+    if (this.element) {
+      // An event of the element's own DOM, which rejects any other
+      const ElementEvent = this.element.ownerDocument.defaultView?.Event ?? Event;
+      this.element.dispatchEvent(new ElementEvent(type));
+    } else {
+      this.dispatchEvent(new Event(type));
+    }
+  }
+}
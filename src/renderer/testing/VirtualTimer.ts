@@ -0,0 +1,113 @@
+import { ClockTimer } from '../services/clockTimer';
+
+/**
+ * A ClockTimer whose time only moves when told to.
+ *
+ * Give it to the MasterClock (masterClock.setTimer) and to FakeMediaElements
+ * and a play/seek/ratechange script runs the same way every time, in Node and
+ * faster than real time. Animation frames fire on a fixed frame grid.
+ */
+
+interface ScheduledTask {
+  at: number;
+  callback: (now: number) => void;
+  // Repeat period of an interval
+  interval?: number;
+}
+
+export class VirtualTimer implements ClockTimer {
+  private time: number;
+  private nextId = 1;
+  private tasks = new Map<number, ScheduledTask>();
+
+  constructor(startTime: number = 0, readonly frameInterval: number = 1000 / 60) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: (now: number) => void): number {
+    // The next frame strictly after now, with now on a frame counted as that frame
+    const at = (Math.floor(this.time / this.frameInterval + 1e-9) + 1) * this.frameInterval;
+    return this.schedule({ at, callback });
+  }
+
+  cancelFrame(id: number): void {
+    this.tasks.delete(id);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.schedule({ at: this.time + Math.max(0, ms), callback });
+  }
+
+  clearTimeout(id: number): void {
+    this.tasks.delete(id);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    const interval = Math.max(1, ms);
+    return this.schedule({ at: this.time + interval, callback, interval });
+  }
+
+  clearInterval(id: number): void {
+    this.tasks.delete(id);
+  }
+
+  /**
+   * Move time on by ms, running every frame and timer that falls due in order.
+   * Pending promise callbacks settle after each one, so async work such as a
+   * coordinated seek finishes before the next frame as it would in the player.
+   */
+  async advance(ms: number): Promise<void> {
+    const end = this.time + ms;
+    for (let next = this.nextDue(end); next; next = this.nextDue(end)) {
+      const [id, task] = next;
+      this.time = task.at;
+      if (task.interval !== undefined) {
+        task.at += task.interval;
+      } else {
+        this.tasks.delete(id);
+      }
+      task.callback(this.time);
+      await this.flush();
+    }
+    this.time = end;
+    await this.flush();
+  }
+
+  /**
+   * Let pending promise callbacks run without moving time
+   */
+  flush(): Promise<void> {
+    // A real macrotask: every microtask queued before it runs first
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  /**
+   * Frames and timers still scheduled
+   */
+  getPendingCount(): number {
+    return this.tasks.size;
+  }
+
+  private schedule(task: ScheduledTask): number {
+    const id = this.nextId++;
+    this.tasks.set(id, task);
+    return id;
+  }
+
+  /**
+   * Earliest task due by end; ties run in the order they were scheduled
+   */
+  private nextDue(end: number): [number, ScheduledTask] | null {
+    let next: [number, ScheduledTask] | null = null;
+    for (const entry of this.tasks) {
+      if (entry[1].at <= end && (!next || entry[1].at < next[1].at)) {
+        next = entry;
+      }
+    }
+    return next;
+  }
+}
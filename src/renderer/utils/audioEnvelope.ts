@@ -0,0 +1,117 @@
+/**
+ * Gain envelopes for audio items: fade_in_ms, fade_out_ms and volume keyframes
+ *
+ * Envelopes are piecewise linear curves over item time, in milliseconds from the
+ * item's start_ms on the timeline. Fades and keyframes are separate curves meant
+ * for two chained GainNodes, so each one is exact with linear ramps.
+ */
+
+import { TrackItem } from '../../types/index';
+import { calculateMasterTime, getItemMediaRange } from './timeUtils';
+
+export interface EnvelopePoint {
+  time: number; // item time in ms
+  gain: number;
+}
+
+export interface ItemEnvelope {
+  fades: EnvelopePoint[];
+  keyframes: EnvelopePoint[];
+}
+
+/**
+ * Build the envelope of an item
+ * mediaDuration (seconds) is used for the fade-out when the item has no length or out-point
+ */
+export function getItemEnvelope(item: TrackItem, mediaDuration?: number): ItemEnvelope {
+  const keyframes = (item.volume || [])
+    .map(keyframe => ({ time: keyframe.time_ms, gain: keyframe.value }))
+    .sort((a, b) => a.time - b.time);
+
+  return { fades: getFadeCurve(item, getAudibleLength(item, mediaDuration)), keyframes };
+}
+
+/**
+ * Time in ms from the item's start until its audio stops, or null if unknown
+ */
+function getAudibleLength(item: TrackItem, mediaDuration?: number): number | null {
+  const end = getItemMediaRange(item).end ?? (mediaDuration && isFinite(mediaDuration) ? mediaDuration : null);
+  return end === null ? null : calculateMasterTime(item, end) - item.start_ms;
+}
+
+function getFadeCurve(item: TrackItem, length: number | null): EnvelopePoint[] {
+  const fadeIn = item.fade_in_ms || 0;
+  const fadeOut = length !== null ? item.fade_out_ms || 0 : 0;
+  if (fadeIn <= 0 && fadeOut <= 0) {
+    return [];
+  }
+
+  // The lower of the two ramps wins where they overlap
+  const gainAt = (time: number) => Math.max(0, Math.min(
+    fadeIn > 0 ? time / fadeIn : 1,
+    fadeOut > 0 ? (length! - time) / fadeOut : 1,
+    1
+  ));
+
+  const times = [0, fadeIn];
+  if (fadeOut > 0) {
+    times.push(length! - fadeOut, length!);
+    if (fadeIn > 0) {
+      times.push(length! * fadeIn / (fadeIn + fadeOut));
+    }
+  }
+
+  const upper = length ?? fadeIn;
+  return [...new Set(times.map(time => Math.min(Math.max(time, 0), upper)))]
+    .sort((a, b) => a - b)
+    .map(time => ({ time, gain: gainAt(time) }));
+}
+
+/**
+ * Gain of a curve at an item time; an empty curve is unity gain
+ */
+export function getEnvelopeGain(points: EnvelopePoint[], time: number): number {
+  if (points.length === 0) {
+    return 1;
+  }
+  if (time <= points[0].time) {
+    return points[0].gain;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const next = points[i];
+    if (time < next.time) {
+      const previous = points[i - 1];
+      const ratio = (time - previous.time) / (next.time - previous.time);
+      return previous.gain + (next.gain - previous.gain) * ratio;
+    }
+  }
+
+  return points[points.length - 1].gain;
+}
+
+/**
+ * Replace the automation of a gain parameter with the curve from itemTime on,
+ * starting at contextTime. A playbackRate of 0 holds the current value (paused).
+ */
+export function scheduleEnvelope(
+  param: AudioParam,
+  points: EnvelopePoint[],
+  itemTime: number,
+  contextTime: number,
+  playbackRate: number
+): void {
+  param.cancelScheduledValues(contextTime);
+  param.setValueAtTime(getEnvelopeGain(points, itemTime), contextTime);
+
+  if (playbackRate <= 0) {
+    return;
+  }
+
+  // Timeline milliseconds pass faster or slower than context seconds at other rates
+  for (const point of points) {
+    if (point.time > itemTime) {
+      param.linearRampToValueAtTime(point.gain, contextTime + (point.time - itemTime) / 1000 / playbackRate);
+    }
+  }
+}
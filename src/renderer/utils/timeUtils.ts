@@ -29,6 +29,11 @@ export function findItemAtTime(items: TrackItem[], timeMs: number): TrackItem |
     // Check if time falls within this item's range
     // Use inclusive start, exclusive end for precise boundary handling
     if (clampedTime >= startTime && clampedTime < endTime) {
+      // Items overlap only during a transition; the incoming item wins
+      const next = items[mid + 1];
+      if (next && clampedTime >= next.start_ms) {
+        return next;
+      }
       return item;
     }
     
@@ -49,27 +54,79 @@ export function findItemAtTime(items: TrackItem[], timeMs: number): TrackItem |
 }
 
 /**
- * Calculate the relative time within an item for a given master time
- * Returns the time in seconds from the start of the item
+ * Get the part of the media file an item plays, in seconds
+ * end is null when neither an out-point nor an item length is known
+ */
+export function getItemMediaRange(item: TrackItem): { start: number; end: number | null } {
+  const start = (item.media_start_ms || 0) / 1000;
+  const timelineEnd = item.end_ms || (item.duration_ms ? item.start_ms + item.duration_ms : 0);
+  
+  let end = item.media_end_ms !== undefined ? item.media_end_ms / 1000 : null;
+  if (timelineEnd > item.start_ms) {
+    // The item never plays more media than its slot on the timeline
+    const slotEnd = start + (timelineEnd - item.start_ms) / 1000;
+    end = end === null ? slotEnd : Math.min(end, slotEnd);
+  }
+  
+  return { start, end };
+}
+
+/**
+ * Calculate the media time for a given master time
+ * Returns the position in seconds within the item's media file, honouring its in- and out-points
  */
 export function calculateItemRelativeTime(item: TrackItem, masterTimeMs: number): number {
+  const { start, end } = getItemMediaRange(item);
+  
   // Calculate relative time from item start
   const relativeMs = masterTimeMs - item.start_ms;
   
   // Handle negative times (before item start)
   if (relativeMs < 0) {
-    return 0;
+    return start;
   }
   
-  const relativeSeconds = relativeMs / 1000;
+  const mediaSeconds = start + relativeMs / 1000;
   
-  // Ensure we don't exceed the item's duration
-  if (item.duration_ms) {
-    const maxSeconds = item.duration_ms / 1000;
-    return Math.min(relativeSeconds, maxSeconds);
+  // Ensure we don't play past the out-point
+  if (end !== null) {
+    return Math.min(mediaSeconds, end);
   }
   
-  return relativeSeconds;
+  return mediaSeconds;
+}
+
+/**
+ * Calculate the master time in milliseconds for a position in the item's media file
+ * Inverse of calculateItemRelativeTime
+ */
+export function calculateMasterTime(item: TrackItem, mediaTimeSeconds: number): number {
+  return item.start_ms + mediaTimeSeconds * 1000 - (item.media_start_ms || 0);
+}
+
+/**
+ * Find the video transition in progress at a given master time
+ * from is the item being replaced, or null when the transition starts from black
+ */
+export function findTransitionAtTime(
+  items: TrackItem[],
+  timeMs: number
+): { from: TrackItem | null; to: TrackItem; progress: number } | null {
+  const to = findItemAtTime(items, timeMs);
+  if (!to?.transition || to.transition.duration_ms <= 0) {
+    return null;
+  }
+  
+  const elapsed = timeMs - to.start_ms;
+  if (elapsed >= to.transition.duration_ms) {
+    return null;
+  }
+  
+  // Only an item that reaches the incoming one is transitioned from
+  const previous = items[items.indexOf(to) - 1];
+  const from = previous && getItemBoundaries(previous).end >= to.start_ms ? previous : null;
+  
+  return { from, to, progress: Math.max(0, elapsed) / to.transition.duration_ms };
 }
 
 /**
@@ -0,0 +1,88 @@
+/**
+ * Language selection for audio and subtitle tracks
+ *
+ * Tracks declare settings.language (and optionally settings.label). Tracks of
+ * the same type and role that differ only in language are alternatives: one
+ * language of each is played. Tracks without a language always play.
+ */
+
+import { Track } from '../../types/index';
+
+export type LanguageTrackType = 'audio' | 'subtitle';
+
+export interface TrackLanguage {
+  language: string;
+  label: string;
+}
+
+/**
+ * Languages offered by the tracks of a type, in manifest order
+ */
+export function getTrackLanguages(tracks: Track[], type: LanguageTrackType): TrackLanguage[] {
+  const languages: TrackLanguage[] = [];
+  for (const track of tracks) {
+    const language = track.type === type ? track.settings.language : undefined;
+    if (language && !languages.some(entry => entry.language === language)) {
+      languages.push({ language, label: track.settings.label || getLanguageName(language) });
+    }
+  }
+  return languages;
+}
+
+/**
+ * The language of the tracks that best matches the preferred tags, tried in
+ * order: the same tag, then the same primary language ("en-US" matches "en").
+ * Falls back to the first language; null when no track declares one.
+ */
+export function resolveTrackLanguage(tracks: Track[], type: LanguageTrackType, preferred: (string | undefined)[]): string | null {
+  const available = getTrackLanguages(tracks, type).map(entry => entry.language);
+  if (available.length === 0) {
+    return null;
+  }
+
+  for (const tag of preferred) {
+    if (!tag) continue;
+    const match = available.find(language => language.toLowerCase() === tag.toLowerCase())
+      || available.find(language => getPrimaryLanguage(language) === getPrimaryLanguage(tag));
+    if (match) {
+      return match;
+    }
+  }
+  return available[0];
+}
+
+/**
+ * The tracks to play in a language: tracks without a language, and of each
+ * role the tracks in that language, or in the role's first language if it has
+ * none in it
+ */
+export function selectLanguageTracks(tracks: Track[], language: string | null): Track[] {
+  return tracks.filter(track => {
+    if (!track.settings.language) {
+      return true;
+    }
+    const alternatives = tracks.filter(other =>
+      other.type === track.type && other.settings.role === track.settings.role && other.settings.language
+    );
+    const played = alternatives.some(other => other.settings.language === language)
+      ? language
+      : alternatives[0].settings.language;
+    return track.settings.language === played;
+  });
+}
+
+/**
+ * Name of a language in that language ("English", "한국어"), or the tag itself
+ */
+export function getLanguageName(language: string): string {
+  try {
+    return new Intl.DisplayNames([language], { type: 'language' }).of(language) || language;
+  } catch {
+    // Malformed tag or no Intl.DisplayNames
+    return language;
+  }
+}
+
+function getPrimaryLanguage(tag: string): string {
+  return tag.split('-')[0].toLowerCase();
+}
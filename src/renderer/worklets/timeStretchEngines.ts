@@ -0,0 +1,324 @@
+/**
+ * Time-stretch engines for the time-stretch AudioWorklet
+ *
+ * The audio element plays at the clock's rate without pitch correction, so its
+ * output is sped up and pitched up (or down) by the same factor. An engine
+ * undoes the pitch change without changing the length of the stream: frames
+ * go in and out at the same rate, with some delay. The processor around the
+ * engines measures that delay and reports it as latency.
+ *
+ * To add an engine (e.g. a WASM Rubber Band build), implement
+ * TimeStretchEngine and register it in TIME_STRETCH_ENGINES.
+ */
+
+import { TimeStretchEngineName } from '../../types/index';
+
+// soundtouchjs has no type definitions
+const { SoundTouch } = require('soundtouchjs');
+
+export interface TimeStretchEngine {
+  /** Pitch factor to apply, 1 / playbackRate to undo the element's speed-up */
+  setPitch(pitch: number): void;
+  /** Append one block of input, one array per channel */
+  write(input: Float32Array[]): void;
+  /** Frames that can be read */
+  available(): number;
+  /** Move frames into output (one array per channel); returns the frames written */
+  read(output: Float32Array[], frames: number): number;
+  /** Drop everything buffered, e.g. after a seek */
+  reset(): void;
+}
+
+export type TimeStretchEngineFactory = (sampleRate: number, channels: number) => TimeStretchEngine;
+
+export const TIME_STRETCH_ENGINES: Record<Exclude<TimeStretchEngineName, 'native'>, TimeStretchEngineFactory> = {
+  wsola: (sampleRate, channels) => new WsolaEngine(sampleRate, channels),
+  soundtouch: (sampleRate, channels) => new SoundTouchEngine(channels),
+};
+
+/**
+ * Growable sample buffer of one channel
+ */
+class ChannelBuffer {
+  data = new Float32Array(4096);
+  length = 0;
+
+  append(samples: Float32Array, count: number = samples.length): void {
+    this.reserve(this.length + count);
+    this.data.set(samples.subarray(0, count), this.length);
+    this.length += count;
+  }
+
+  /** Append space for count samples and return it */
+  extend(count: number): Float32Array {
+    this.reserve(this.length + count);
+    this.length += count;
+    return this.data.subarray(this.length - count, this.length);
+  }
+
+  discard(count: number): void {
+    count = Math.min(count, this.length);
+    this.data.copyWithin(0, count, this.length);
+    this.length -= count;
+  }
+
+  private reserve(length: number): void {
+    if (length > this.data.length) {
+      const data = new Float32Array(Math.max(length, this.data.length * 2));
+      data.set(this.data.subarray(0, this.length));
+      this.data = data;
+    }
+  }
+}
+
+// Frame length, and how far a frame may move to line up with the previous one
+const WSOLA_FRAME_SECONDS = 0.04;
+const WSOLA_TOLERANCE_SECONDS = 0.01;
+// Every nth sample is used when comparing waveforms, and every nth position
+// in the first pass of the search
+const WSOLA_SEARCH_DECIMATION = 4;
+const WSOLA_COARSE_STEP = 4;
+
+/**
+ * Waveform-similarity overlap-add (WSOLA), followed by resampling.
+ *
+ * WSOLA changes the length of the stream by 1 / pitch without changing its
+ * pitch: Hann-windowed frames are taken from the input every hop / pitch
+ * samples and overlap-added every hop samples, each frame moved by up to the
+ * tolerance to where it best continues the previous one. Reading the result
+ * back at pitch samples per output sample restores the length and applies
+ * the pitch. Frames are lined up on the mix of all channels so they move
+ * together.
+ */
+export class WsolaEngine implements TimeStretchEngine {
+  private readonly frameLength: number;
+  private readonly hop: number;
+  private readonly tolerance: number;
+  private readonly window: Float32Array;
+  private readonly input: ChannelBuffer[];
+  private readonly stretched: ChannelBuffer[];
+  // Second half of the last frame, waiting for the next one to be added
+  private readonly tail: Float32Array[];
+  private readonly mix: ChannelBuffer = new ChannelBuffer();
+  private pitch = 1;
+  // Nominal start of the next frame in input, and actual start of the last one
+  private analysisPosition = 0;
+  private previousStart: number | null = null;
+  // Position in stretched of the next output sample
+  private readPosition = 0;
+
+  constructor(sampleRate: number, private readonly channels: number) {
+    this.hop = Math.round(sampleRate * WSOLA_FRAME_SECONDS / 2);
+    this.frameLength = this.hop * 2;
+    this.tolerance = Math.round(sampleRate * WSOLA_TOLERANCE_SECONDS);
+
+    // Periodic Hann windows at half overlap add up to exactly one
+    this.window = new Float32Array(this.frameLength);
+    for (let i = 0; i < this.frameLength; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frameLength);
+    }
+
+    this.input = Array.from({ length: channels }, () => new ChannelBuffer());
+    this.stretched = Array.from({ length: channels }, () => new ChannelBuffer());
+    this.tail = Array.from({ length: channels }, () => new Float32Array(this.hop));
+  }
+
+  setPitch(pitch: number): void {
+    this.pitch = Math.max(0.25, Math.min(4, pitch));
+  }
+
+  write(input: Float32Array[]): void {
+    const frames = input[0].length;
+    for (let channel = 0; channel < this.channels; channel++) {
+      this.input[channel].append(input[Math.min(channel, input.length - 1)]);
+    }
+
+    const mix = this.mix.extend(frames);
+    mix.fill(0);
+    for (const samples of input) {
+      for (let i = 0; i < frames; i++) {
+        mix[i] += samples[i];
+      }
+    }
+
+    while (this.canStretchFrame()) {
+      this.stretchFrame();
+    }
+    this.trimInput();
+  }
+
+  available(): number {
+    // Linear interpolation needs the sample after the read position too
+    const last = this.stretched[0].length - 2;
+    return last < this.readPosition ? 0 : Math.floor((last - this.readPosition) / this.pitch) + 1;
+  }
+
+  read(output: Float32Array[], frames: number): number {
+    frames = Math.min(frames, this.available());
+    for (let channel = 0; channel < this.channels; channel++) {
+      const source = this.stretched[channel].data;
+      const target = output[channel];
+      let position = this.readPosition;
+      for (let i = 0; i < frames; i++) {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        target[i] = source[index] + (source[index + 1] - source[index]) * fraction;
+        position += this.pitch;
+      }
+    }
+    this.readPosition += frames * this.pitch;
+
+    const consumed = Math.floor(this.readPosition);
+    this.stretched.forEach(buffer => buffer.discard(consumed));
+    this.readPosition -= consumed;
+    return frames;
+  }
+
+  reset(): void {
+    this.input.forEach(buffer => buffer.discard(buffer.length));
+    this.stretched.forEach(buffer => buffer.discard(buffer.length));
+    this.mix.discard(this.mix.length);
+    this.tail.forEach(tail => tail.fill(0));
+    this.analysisPosition = 0;
+    this.previousStart = null;
+    this.readPosition = 0;
+  }
+
+  private canStretchFrame(): boolean {
+    const searchEnd = Math.round(this.analysisPosition) + this.tolerance + this.frameLength;
+    const templateEnd = this.previousStart === null ? 0 : this.previousStart + this.hop * 2;
+    return Math.max(searchEnd, templateEnd) <= this.mix.length;
+  }
+
+  private stretchFrame(): void {
+    const start = this.findFrameStart();
+
+    for (let channel = 0; channel < this.channels; channel++) {
+      const source = this.input[channel].data;
+      const tail = this.tail[channel];
+      const output = this.stretched[channel].extend(this.hop);
+      for (let i = 0; i < this.hop; i++) {
+        output[i] = tail[i] + source[start + i] * this.window[i];
+        tail[i] = source[start + this.hop + i] * this.window[this.hop + i];
+      }
+    }
+
+    this.previousStart = start;
+    this.analysisPosition += this.hop / this.pitch;
+  }
+
+  /**
+   * The frame start within the tolerance of the nominal position whose first
+   * half best matches what followed the previous frame. Searched coarsely
+   * first, then sample by sample around the best coarse match.
+   */
+  private findFrameStart(): number {
+    const nominal = Math.round(this.analysisPosition);
+    if (this.previousStart === null) {
+      return nominal;
+    }
+
+    const template = this.previousStart + this.hop;
+    const coarse = this.searchAlignment(template, Math.max(0, nominal - this.tolerance), nominal + this.tolerance, WSOLA_COARSE_STEP);
+    return this.searchAlignment(
+      template,
+      Math.max(0, coarse - WSOLA_COARSE_STEP + 1),
+      Math.min(nominal + this.tolerance, coarse + WSOLA_COARSE_STEP - 1),
+      1
+    );
+  }
+
+  // Candidate with the highest normalized cross-correlation with the template
+  private searchAlignment(template: number, from: number, to: number, step: number): number {
+    const mix = this.mix.data;
+    let best = from;
+    let bestScore = -Infinity;
+    for (let candidate = from; candidate <= to; candidate += step) {
+      let correlation = 0;
+      let energy = 0;
+      for (let i = 0; i < this.hop; i += WSOLA_SEARCH_DECIMATION) {
+        const sample = mix[candidate + i];
+        correlation += sample * mix[template + i];
+        energy += sample * sample;
+      }
+      const score = energy > 0 ? correlation / Math.sqrt(energy) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  // Drop input that no later frame or template can reach
+  private trimInput(): void {
+    if (this.previousStart === null) {
+      return;
+    }
+    const keepFrom = Math.min(Math.round(this.analysisPosition) - this.tolerance, this.previousStart + this.hop);
+    if (keepFrom <= 0) {
+      return;
+    }
+    this.input.forEach(buffer => buffer.discard(keepFrom));
+    this.mix.discard(keepFrom);
+    this.analysisPosition -= keepFrom;
+    this.previousStart -= keepFrom;
+  }
+}
+
+/**
+ * soundtouchjs's streaming SoundTouch pipeline (WSOLA and a rate transposer),
+ * which works on interleaved stereo
+ */
+export class SoundTouchEngine implements TimeStretchEngine {
+  private readonly soundTouch = new SoundTouch();
+  private interleaved = new Float32Array(0);
+
+  constructor(private readonly channels: number) {}
+
+  setPitch(pitch: number): void {
+    this.soundTouch.pitch = pitch;
+  }
+
+  write(input: Float32Array[]): void {
+    const frames = input[0].length;
+    const samples = this.buffer(frames);
+    const right = input[Math.min(1, input.length - 1)];
+    for (let i = 0; i < frames; i++) {
+      samples[i * 2] = input[0][i];
+      samples[i * 2 + 1] = right[i];
+    }
+    this.soundTouch.inputBuffer.putSamples(samples, 0, frames);
+    this.soundTouch.process();
+  }
+
+  available(): number {
+    return this.soundTouch.outputBuffer.frameCount;
+  }
+
+  read(output: Float32Array[], frames: number): number {
+    frames = Math.min(frames, this.available());
+    const samples = this.buffer(frames);
+    this.soundTouch.outputBuffer.receiveSamples(samples, frames);
+    for (let channel = 0; channel < this.channels; channel++) {
+      const offset = Math.min(channel, 1);
+      for (let i = 0; i < frames; i++) {
+        output[channel][i] = samples[i * 2 + offset];
+      }
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.soundTouch.clear();
+    this.soundTouch.inputBuffer.clear();
+    this.soundTouch.outputBuffer.clear();
+  }
+
+  private buffer(frames: number): Float32Array {
+    if (this.interleaved.length < frames * 2) {
+      this.interleaved = new Float32Array(frames * 2);
+    }
+    return this.interleaved.subarray(0, frames * 2);
+  }
+}
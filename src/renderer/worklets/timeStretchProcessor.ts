@@ -0,0 +1,116 @@
+/**
+ * AudioWorklet processor that runs a time-stretch engine on the output of an
+ * audio element playing without pitch correction.
+ *
+ * Built as its own bundle (time-stretch-processor.js) and loaded with
+ * audioWorklet.addModule(). Messages on the port:
+ *   in:  { type: 'pitch', pitch }  { type: 'reset' }
+ *   out: { type: 'latency', seconds }  { type: 'error', message }
+ */
+
+import { TimeStretchEngine, TIME_STRETCH_ENGINES } from './timeStretchEngines';
+
+// AudioWorkletGlobalScope, which the DOM typings don't cover
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorClass: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+interface TimeStretchProcessorOptions {
+  processorOptions?: { engine?: keyof typeof TIME_STRETCH_ENGINES; channels?: number };
+}
+
+// Output starts once this much is buffered; beyond twice as much, the surplus is
+// dropped. Covers the bursts of WSOLA frames at rates up to 2x
+const PRIME_SECONDS = 0.05;
+// Latency changes smaller than this are not reported
+const LATENCY_REPORT_SECONDS = 0.002;
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  private engine: TimeStretchEngine | null = null;
+  private readonly channels: number;
+  private readonly primeFrames = Math.round(sampleRate * PRIME_SECONDS);
+  private primed = false;
+  // Frames of silence inserted minus frames dropped since the last reset
+  private delayFrames = 0;
+  private reportedLatency = -1;
+  private silence: Float32Array[] = [];
+
+  constructor(options: TimeStretchProcessorOptions) {
+    super(options);
+    const { engine = 'wsola', channels = 2 } = options.processorOptions || {};
+    this.channels = channels;
+
+    try {
+      this.engine = TIME_STRETCH_ENGINES[engine](sampleRate, channels);
+    } catch (error) {
+      this.port.postMessage({ type: 'error', message: `Cannot create ${engine} engine: ${(error as Error).message}` });
+    }
+
+    this.port.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'pitch') {
+        this.engine?.setPitch(message.pitch);
+      } else if (message.type === 'reset') {
+        this.engine?.reset();
+        this.primed = false;
+        this.delayFrames = 0;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    const frames = output[0].length;
+    if (!this.engine) {
+      // Without an engine the element's audio passes through unchanged
+      output.forEach((channel, index) => channel.set(inputs[0][index] || inputs[0][0] || new Float32Array(frames)));
+      return true;
+    }
+
+    // A paused element has no input channels; keep time running with silence
+    const input = inputs[0].length > 0 ? inputs[0] : this.getSilence(frames);
+    this.engine.write(input);
+
+    if (!this.primed && this.engine.available() >= this.primeFrames) {
+      this.primed = true;
+    }
+    if (this.primed && this.engine.available() > this.primeFrames * 2) {
+      this.delayFrames -= this.drop(this.engine.available() - this.primeFrames);
+    }
+
+    const written = this.primed ? this.engine.read(output, frames) : 0;
+    if (written < frames) {
+      output.forEach(channel => channel.fill(0, written));
+      this.delayFrames += frames - written;
+      this.primed = false;
+    }
+
+    this.reportLatency();
+    return true;
+  }
+
+  private drop(frames: number): number {
+    const scratch = Array.from({ length: this.channels }, () => new Float32Array(frames));
+    return this.engine!.read(scratch, frames);
+  }
+
+  private reportLatency(): void {
+    const seconds = Math.max(0, this.delayFrames) / sampleRate;
+    if (Math.abs(seconds - this.reportedLatency) >= LATENCY_REPORT_SECONDS) {
+      this.reportedLatency = seconds;
+      this.port.postMessage({ type: 'latency', seconds });
+    }
+  }
+
+  private getSilence(frames: number): Float32Array[] {
+    if (this.silence.length !== this.channels || this.silence[0].length !== frames) {
+      this.silence = Array.from({ length: this.channels }, () => new Float32Array(frames));
+    }
+    return this.silence;
+  }
+}
+
+registerProcessor('time-stretch-processor', TimeStretchProcessor);
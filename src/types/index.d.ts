@@ -9,25 +9,192 @@ export interface Manifest {
     author?: string;
     created?: string;
   };
+  // What the master clock follows; 'video' when omitted
+  clock_source?: ClockSourceName;
   tracks: Track[];
 }
 
 export interface Track {
   id: string;
   type: 'video' | 'audio' | 'html' | 'subtitle';
+  settings: TrackSettings;
   items: TrackItem[];
 }
 
+// Per-track defaults, explicit since manifest version 2.0
+export interface TrackSettings {
+  enabled: boolean;
+  volume: number;
+  // Muted tracks keep their volume for when they are unmuted
+  muted: boolean;
+  // Audio only: music is ducked while narration plays
+  role?: AudioTrackRole;
+  // Audio and subtitle tracks: BCP 47 tag such as "en" or "ko"; tracks of the
+  // same type and role with different languages are alternatives
+  language?: string;
+  // Shown in the language picker instead of the language's name
+  label?: string;
+  // Audio only: how the pitch is kept when the playback rate changes
+  time_stretch?: TimeStretchEngineName;
+}
+
+export type AudioTrackRole = 'narration' | 'music' | 'sfx';
+
+// native: the element's own pitch correction; the others run in an AudioWorklet
+export type TimeStretchEngineName = 'native' | 'wsola' | 'soundtouch';
+
+// Time source of the master clock: performance.now(), the video layer that
+// drives the clock, or the AudioContext's currentTime
+export type ClockSourceName = 'wall' | 'video' | 'audio';
+
+// How managers bring drifting media back onto the clock: a hard seek, or a
+// temporary nudge of the playback rate with seeks kept for large drift
+export type DriftCorrectionStrategy = 'seek' | 'rate';
+
+// Mixer strip of one audio track
+export interface AudioChannelState {
+  trackId: string;
+  role?: AudioTrackRole;
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+  enabled: boolean;
+  ducked: boolean;
+}
+
 export interface TrackItem {
   id: string;
   file: string;
   start_ms: number;
   duration_ms?: number;
   end_ms?: number;
+  // Trim points within the media file; the item plays media_start_ms..media_end_ms
+  media_start_ms?: number;
+  media_end_ms?: number;
   layer?: number;
+  // Video only: how this item replaces the one before it on its layer
+  transition?: VideoTransition;
+  // Audio only: gain envelope, times in ms from the item's start_ms
+  fade_in_ms?: number;
+  fade_out_ms?: number;
+  volume?: VolumeKeyframe[];
   metadata?: any;
 }
 
+// Item gain (0 to 1) at a point of the item; linear between keyframes, held before the first and after the last
+export interface VolumeKeyframe {
+  time_ms: number;
+  value: number;
+}
+
+export type VideoTransitionType = 'fade-through-black' | 'cross-dissolve' | 'wipe';
+
+// Runs over the first duration_ms of the item; the previous item stays on screen
+// under it, playing if the items overlap and frozen on its last frame otherwise
+export interface VideoTransition {
+  type: VideoTransitionType;
+  duration_ms: number;
+}
+
+// Placement of a video item on the stage (item metadata.layout); x, y, width
+// and height are fractions of the stage, the default is the full stage
+export interface VideoLayout {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  opacity?: number;
+}
+
+// A single schema violation in manifest.json
+export interface ManifestValidationIssue {
+  pointer: string; // JSON pointer, e.g. /tracks/0/items/2/start_ms
+  line: number; // 1-based
+  column: number; // 1-based
+  keyword: string; // Failing schema keyword, or 'syntax'
+  message: string;
+}
+
+// A semantic timeline problem found by the manifest linter
+export interface ManifestLintFinding {
+  level: 'error' | 'warning';
+  code: string; // e.g. overlap, gap, out-of-range, duration-conflict, missing-file
+  message: string;
+  pointer: string; // JSON pointer of the offending track or item
+  trackId?: string;
+  itemId?: string;
+}
+
+// Integrity state of a content package from its signature.json
+export interface PackageSignatureStatus {
+  state: 'verified' | 'unverified' | 'tampered';
+  reason: string;
+  keyId?: string;
+  signer?: string;
+  problems: string[]; // Per-file mismatches when tampered
+}
+
+// Encrypted package that needs a key before it can be opened
+export interface PackageLockInfo {
+  packagePath: string;
+  keyKind: 'keyfile' | 'passphrase';
+  keyId?: string;
+}
+
+// Result of opening or unlocking a content package
+export interface ContentPackageResult {
+  success: boolean;
+  manifest?: Manifest;
+  basePath?: string;
+  error?: string;
+  validationErrors?: ManifestValidationIssue[];
+  lintFindings?: ManifestLintFinding[];
+  signature?: PackageSignatureStatus;
+  encrypted?: boolean;
+  locked?: PackageLockInfo;
+  packageId?: number; // Registry id of the mounted package
+  session?: PackageSession; // Where the learner left this package last time
+}
+
+// Playback state saved per package so reopening it resumes
+export interface PackageSession {
+  positionMs: number;
+  playbackRate: number;
+  enabledTracks: string[]; // Track ids
+  savedAt?: number;
+}
+
+// App-wide preferences (preferences.json in userData)
+export interface UserPreferences {
+  audioLanguage?: string;
+  subtitleLanguage?: string;
+  driftCorrection?: DriftCorrectionStrategy;
+}
+
+// Item files of a watched package that changed on disk
+export interface PackageAssetChange {
+  packageId: number;
+  files: string[]; // content:// URLs as used in the manifest
+}
+
+// Entry of the File > Open Recent menu (recent-packages.json in userData)
+export interface RecentPackage {
+  packagePath: string;
+  title: string;
+  openedAt: number;
+  session?: PackageSession;
+}
+
+// A mounted package as listed in the package switcher
+export interface PackageSummary {
+  id: number;
+  packagePath: string;
+  title: string;
+  encrypted: boolean;
+  signatureState?: PackageSignatureStatus['state'];
+  active: boolean;
+}
+
 export interface TrackManager {
   load(items: TrackItem[], basePath?: string): Promise<void>;
   sync(masterTime: number, playbackRate: number): void;
@@ -45,27 +212,65 @@ export interface SyncMetrics {
   corrections: number;
   averageDrift: number;
   maxDrift: number;
+  // Item boundaries crossed, and how long after each boundary the new item was playing (ms)
+  transitions?: number;
+  lastTransitionLatency?: number;
+  averageTransitionLatency?: number;
+  maxTransitionLatency?: number;
+  // Output delay of a time-stretch engine, compensated for in the drift (ms)
+  latency?: number;
+  // Video frames measured with requestVideoFrameCallback, how long one stays on screen (ms),
+  // and how many of them triggered a correction, the last one by presented frame number
+  frames?: number;
+  frameDuration?: number;
+  correctedFrames?: number;
+  lastCorrectedFrame?: number;
+  // Drift correction in use: corrections counts seeks, nudges the times the
+  // rate was nudged, and rateNudge is the current nudge (0.02 = 2% faster)
+  strategy?: DriftCorrectionStrategy;
+  nudges?: number;
+  rateNudge?: number;
+  // Buffering stalls during playback and their total length (ms)
+  stalls?: number;
+  stallTime?: number;
+  // Coordinated seeks, and how long each took until the media was in place (ms)
+  seeks?: number;
+  lastSeekLatency?: number;
+  averageSeekLatency?: number;
+  maxSeekLatency?: number;
+}
+
+export type SyncReportFormat = 'csv' | 'json';
+
+// Sync metrics of one media manager: a video layer or an audio track
+export interface TrackSyncMetrics {
+  // Track id, with the layer appended for video layers other than 0 ("main:1")
+  id: string;
+  type: 'video' | 'audio';
+  metrics: SyncMetrics;
 }
 
 // Electron API exposed to renderer
 declare global {
   interface Window {
     electronAPI: {
-      openContentPackage: () => Promise<{
-        success: boolean;
-        manifest?: Manifest;
-        basePath?: string;
-        error?: string;
-      }>;
-      loadLocalManifest: (manifestPath: string) => Promise<{
-        success: boolean;
-        manifest?: Manifest;
-        basePath?: string;
-        error?: string;
-      }>;
-      getFileUrl: (filePath: string) => Promise<string>;
-      getVideoUrl: (filePath: string) => Promise<string>;
-      getAudioUrl: (filePath: string) => Promise<string>;
+      openContentPackage: () => Promise<ContentPackageResult>;
+      openDroppedPackage: (packagePath: string) => Promise<ContentPackageResult>;
+      unlockContentPackage: (packagePath: string, passphrase?: string) => Promise<ContentPackageResult>;
+      loadLocalManifest: (manifestPath: string) => Promise<ContentPackageResult>;
+      listPackages: () => Promise<PackageSummary[]>;
+      switchPackage: (packageId: number) => Promise<ContentPackageResult>;
+      closePackage: (packageId: number) => Promise<boolean>;
+      openRecentPackage: (packagePath: string) => Promise<ContentPackageResult>;
+      savePackageSession: (packageId: number, session: PackageSession) => void;
+      getPreferences: () => Promise<UserPreferences>;
+      setPreferences: (changes: UserPreferences) => Promise<UserPreferences>;
+      // Asks where to save; resolves to the saved path, or null when cancelled
+      saveSyncReport: (content: string, format: SyncReportFormat) => Promise<string | null>;
+      onMenuOpenContent: (callback: () => void) => () => void;
+      onMenuOpenRecent: (callback: (packagePath: string) => void) => () => void;
+      onManifestChanged: (callback: (result: ContentPackageResult) => void) => () => void;
+      onAssetChanged: (callback: (change: PackageAssetChange) => void) => () => void;
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { afterEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { masterClock } from '../src/renderer/services/MasterClock';
+import { AudioManager } from '../src/renderer/managers/AudioManager';
+import { FakeMediaElement, FakeMediaOptions } from '../src/renderer/testing/FakeMediaElement';
+import { VirtualTimer } from '../src/renderer/testing/VirtualTimer';
+import { connect, loadSampleManifest, settle, startClock, trackItems } from './support/harness';
+
+// No Electron API: files are loaded by URL
+Object.defineProperty(globalThis, 'window', { value: globalThis, configurable: true, writable: true });
+
+const manifest = loadSampleManifest();
+const narration = trackItems(manifest, 'audio');
+let cleanup: (() => void) | null = null;
+
+async function playNarration(options: Partial<FakeMediaOptions> = {}) {
+  const timer = startClock(manifest.duration_ms);
+  const elements: FakeMediaElement[] = [];
+  const audio = new AudioManager(1, null, 'native', {}, FakeMediaElement.factory(timer, options, elements));
+  await settle(timer, audio.load(narration));
+  const unsubscribe = connect(audio);
+  cleanup = () => {
+    unsubscribe();
+    audio.destroy();
+  };
+  masterClock.play();
+  return { timer, audio, elements };
+}
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = null;
+});
+
+test('plays the narration item at each point of the timeline', async () => {
+  const { timer, audio, elements } = await playNarration();
+
+  await timer.advance(10000);
+  assert.equal(audio.getCurrentItem()?.id, 'intro-narration');
+  assert.ok(Math.abs(elements[0].currentTime - 10) < 0.05, `intro narration at ${elements[0].currentTime} s`);
+  assert.ok(audio.getSyncMetrics().drift < 50);
+
+  await timer.advance(25000);
+  assert.equal(audio.getCurrentItem()?.id, 'lesson-narration');
+  assert.equal(elements.length, 2);
+  assert.ok(Math.abs(elements[1].currentTime - 5) < 0.05, `lesson narration at ${elements[1].currentTime} s`);
+  assert.ok(audio.getSyncMetrics().drift < 50);
+});
+
+test('seeks into another item', async () => {
+  const { timer, audio, elements } = await playNarration();
+  await timer.advance(5000);
+
+  await settle(timer, masterClock.seek(65000));
+  assert.equal(audio.getCurrentItem()?.id, 'outro-narration');
+
+  await timer.advance(2000);
+  const element = elements[elements.length - 1];
+  assert.ok(Math.abs(element.currentTime - 7) < 0.1, `outro narration at ${element.currentTime} s`);
+  assert.ok(audio.getSyncMetrics().drift < 50);
+});
+
+test('follows a rate change', async () => {
+  const { timer, audio, elements } = await playNarration();
+  await timer.advance(4000);
+
+  masterClock.setPlaybackRate(1.5);
+  await timer.advance(4000);
+  const element = elements[elements.length - 1];
+  assert.ok(Math.abs(element.playbackRate - 1.5) <= 1.5 * 0.03, `playing at ${element.playbackRate}`);
+  assert.ok(Math.abs(masterClock.getState().currentTime - 10000) <= 50);
+  assert.equal(audio.getCurrentItem()?.id, 'intro-narration');
+  assert.ok(audio.getSyncMetrics().drift < 50);
+});
+
+test('runs the headless example of the README', async () => {
+  const timer = new VirtualTimer(masterClock.now());
+  masterClock.setTimer(timer);
+  masterClock.setSource('wall');
+  masterClock.initialize(manifest.duration_ms);
+  const elements: FakeMediaElement[] = [];
+  const audio = new AudioManager(1, null, 'native', {}, FakeMediaElement.factory(timer, { rateError: 0.02 }, elements));
+
+  let isLoaded = false;
+  audio.load(narration).then(() => { isLoaded = true; });
+  while (!isLoaded) await timer.advance(10);
+
+  const unsubscribe = masterClock.subscribe(event => {
+    if (event.type === 'play') audio.play();
+    if (event.type === 'sync') audio.sync(event.time, event.playbackRate);
+  });
+  cleanup = () => {
+    unsubscribe();
+    audio.destroy();
+  };
+  masterClock.play();
+  await timer.advance(10000);
+
+  assert.equal(audio.getCurrentItem()?.id, 'intro-narration');
+  const metrics = audio.getSyncMetrics();
+  assert.equal(metrics.corrections, 0);
+  assert.ok(metrics.drift < 50, `drift ${metrics.drift} ms`);
+  assert.ok(Math.abs((metrics.rateNudge ?? 0) + 0.02) < 0.005, `nudged by ${metrics.rateNudge}`);
+});
+
+test('holds audio that runs 2% fast inside the tolerance', async () => {
+  const { timer, audio } = await playNarration({ rateError: 0.02 });
+
+  // Past the first drift, which the offset still has to learn
+  await timer.advance(10000);
+  let maxDrift = 0;
+  for (let elapsed = 0; elapsed < 18000; elapsed += 500) {
+    await timer.advance(500);
+    maxDrift = Math.max(maxDrift, audio.getSyncMetrics().drift);
+  }
+  assert.ok(maxDrift < 50, `drift up to ${maxDrift} ms`);
+  assert.equal(audio.getSyncMetrics().corrections, 0);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DriftCorrectionOptions, DriftCorrector } from '../src/renderer/managers/DriftCorrector';
+
+/**
+ * Play media that runs skew faster than the clock for durationMs, correcting
+ * every interval ms; the drift after each update
+ */
+function playSkewed(skew: number, interval: number, durationMs: number, options: Partial<DriftCorrectionOptions> = {}) {
+  const corrector = new DriftCorrector(options);
+  const drifts: number[] = [];
+  let drift = 0;
+  let rate = 1;
+  for (let now = 0; now <= durationMs; now += interval) {
+    drift += (rate * (1 + skew) - 1) * interval;
+    const correction = corrector.update(drift, 1, now);
+    assert.equal(correction.seek, false);
+    rate = correction.rate;
+    drifts.push(drift);
+  }
+  return { corrector, drifts };
+}
+
+test('brings audio that runs 2% fast inside the tolerance', () => {
+  const { corrector, drifts } = playSkewed(0.02, 500, 60000, { tolerance: 50, seekThreshold: 750, maxNudge: 0.03 });
+
+  const settled = drifts.slice(drifts.length / 2);
+  assert.ok(settled.every(drift => Math.abs(drift) <= 50), `drift up to ${Math.max(...settled.map(Math.abs))} ms`);
+  assert.ok(Math.abs((corrector.getMetrics().rateNudge ?? 0) + 0.02) < 0.002);
+});
+
+test('brings video that runs 3% slow inside the tolerance, frame by frame', () => {
+  const { corrector, drifts } = playSkewed(-0.03, 1000 / 30, 60000);
+
+  const settled = drifts.slice(drifts.length / 2);
+  assert.ok(settled.every(drift => Math.abs(drift) <= 50), `drift up to ${Math.max(...settled.map(Math.abs))} ms`);
+  assert.ok(Math.abs((corrector.getMetrics().rateNudge ?? 0) - 0.03 / 0.97) < 0.003);
+});
+
+test('keeps the learned offset over a seek', () => {
+  const { corrector } = playSkewed(0.02, 500, 60000, { maxNudge: 0.03 });
+  const learned = corrector.getMetrics().rateNudge ?? 0;
+
+  corrector.reset();
+  const held = corrector.getMetrics().rateNudge ?? 0;
+  assert.ok(Math.abs(held - learned) < 0.001, `held ${held} of ${learned}`);
+  assert.ok(Math.abs(corrector.getRate(1.5) - 1.5 * (1 + held)) < 1e-9);
+});
+
+test('leaves drift inside the tolerance alone', () => {
+  const corrector = new DriftCorrector();
+
+  assert.deepEqual(corrector.update(40, 1, 0), { seek: false, rate: 1 });
+  assert.deepEqual(corrector.getMetrics(), { strategy: 'rate', nudges: 0, rateNudge: 0 });
+});
+
+test('seeks drift past the seek threshold, or past the tolerance with the seek strategy', () => {
+  assert.equal(new DriftCorrector().update(1200, 1, 0).seek, true);
+  assert.equal(new DriftCorrector({ strategy: 'seek' }).update(60, 1, 0).seek, true);
+  assert.equal(new DriftCorrector({ strategy: 'seek' }).update(40, 1, 0).seek, false);
+});
@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { FakeMediaElement } from '../src/renderer/testing/FakeMediaElement';
+import { VirtualTimer } from '../src/renderer/testing/VirtualTimer';
+
+function record(element: EventTarget, types: string[]): string[] {
+  const events: string[] = [];
+  types.forEach(type => element.addEventListener(type, () => events.push(type)));
+  return events;
+}
+
+async function loaded(options: ConstructorParameters<typeof FakeMediaElement>[1] = {}) {
+  const timer = new VirtualTimer();
+  const element = new FakeMediaElement(timer, options);
+  element.load();
+  await timer.advance(element.options.loadDelay);
+  return { timer, element };
+}
+
+test('loads after the load delay', async () => {
+  const timer = new VirtualTimer();
+  const element = new FakeMediaElement(timer, { duration: 30, loadDelay: 50 });
+  const events = record(element, ['loadedmetadata', 'canplay']);
+
+  element.load();
+  await timer.advance(40);
+  assert.equal(element.readyState, 0);
+
+  await timer.advance(10);
+  assert.equal(element.readyState, 4);
+  assert.equal(element.duration, 30);
+  assert.deepEqual(events, ['loadedmetadata', 'canplay']);
+});
+
+test('plays from the start delay on, off by the rate error', async () => {
+  const { timer, element } = await loaded({ startDelay: 10, rateError: 0.02 });
+  const events = record(element, ['play', 'playing']);
+
+  await element.play();
+  await timer.advance(1010);
+  assert.deepEqual(events, ['play', 'playing']);
+  assert.ok(Math.abs(element.currentTime - 1.02) < 1e-9);
+
+  element.pause();
+  await timer.advance(1000);
+  assert.ok(Math.abs(element.currentTime - 1.02) < 1e-9);
+});
+
+test('seeks with seeking and seeked', async () => {
+  const { timer, element } = await loaded({ seekDelay: 30 });
+  const events = record(element, ['seeking', 'seeked']);
+
+  element.currentTime = 12;
+  assert.equal(element.seeking, true);
+  assert.deepEqual(events, ['seeking']);
+
+  await timer.advance(30);
+  assert.equal(element.seeking, false);
+  assert.equal(element.currentTime, 12);
+  assert.deepEqual(events, ['seeking', 'seeked']);
+});
+
+test('keeps its position across a rate change', async () => {
+  const { timer, element } = await loaded({ startDelay: 0 });
+  const events = record(element, ['ratechange']);
+  await element.play();
+  await timer.advance(1000);
+
+  element.playbackRate = 2;
+  await timer.advance(1000);
+  assert.deepEqual(events, ['ratechange']);
+  assert.ok(Math.abs(element.currentTime - 3) < 1e-9);
+});
+
+test('holds its position while stalled', async () => {
+  const { timer, element } = await loaded({ startDelay: 0 });
+  const events = record(element, ['waiting', 'playing']);
+  await element.play();
+  await timer.advance(1000);
+
+  element.stall(500);
+  await timer.advance(500);
+  assert.ok(Math.abs(element.currentTime - 1) < 1e-9);
+
+  await timer.advance(500);
+  assert.ok(Math.abs(element.currentTime - 1.5) < 1e-9);
+  assert.deepEqual(events, ['playing', 'waiting', 'playing']);
+});
+
+test('reports presented frames on the frame grid', async () => {
+  const { timer, element } = await loaded({ startDelay: 0, frameRate: 25 });
+  const mediaTimes: number[] = [];
+  const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+    mediaTimes.push(Math.round(metadata.mediaTime * 1000));
+    element.requestVideoFrameCallback(onFrame);
+  };
+  element.requestVideoFrameCallback(onFrame);
+  await element.play();
+
+  await timer.advance(130);
+  assert.deepEqual(mediaTimes, [40, 80, 120]);
+});
+
+test('makes the media elements of a DOM play like fakes', async () => {
+  const { window } = new JSDOM('<!DOCTYPE html><body></body>');
+  const timer = new VirtualTimer();
+  const created: FakeMediaElement[] = [];
+  FakeMediaElement.install(window.HTMLMediaElement.prototype, timer, { startDelay: 0 }, created);
+
+  const video = window.document.createElement('video');
+  const events = record(video, ['loadedmetadata', 'playing']);
+  video.src = 'videos/intro.mp4';
+  video.load();
+  await timer.advance(20);
+  await video.play();
+  await timer.advance(500);
+
+  assert.equal(video.canPlayType('video/mp4'), 'probably');
+  assert.equal(video.getAttribute('src'), 'videos/intro.mp4');
+  assert.equal(video.currentTime, 0.5);
+  assert.deepEqual(events, ['loadedmetadata', 'playing']);
+  assert.equal(created.length, 1);
+});
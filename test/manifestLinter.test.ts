@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentLoader } from '../src/main/contentLoader';
+
+test('names a missing file as the manifest does, not by its content:// URL', async (t) => {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-lint-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  await fs.writeFile(path.join(folder, 'manifest.json'), JSON.stringify({
+    version: '1.0',
+    duration_ms: 10000,
+    tracks: [
+      {
+        id: 'narration',
+        type: 'audio',
+        items: [{ id: 'narration-audio', file: 'audio/narration.mp3', start_ms: 0, duration_ms: 10000 }],
+      },
+    ],
+  }));
+  const loader = new ContentLoader();
+  await loader.loadPackage(folder);
+
+  const missing = loader.getLintFindings().filter(finding => finding.code === 'missing-file');
+  assert.deepEqual(missing.map(finding => finding.message), ['File not found: audio/narration.mp3']);
+  assert.equal(missing[0].pointer, '/tracks/0/items/0');
+});
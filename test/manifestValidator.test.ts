@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentLoader } from '../src/main/contentLoader';
+import { ManifestValidationError, MANIFEST_SCHEMA_ID } from '../src/main/manifestValidator';
+
+const MANIFEST_1_0 = {
+  version: '1.0',
+  duration_ms: 10000,
+  tracks: [
+    {
+      id: 'narration',
+      type: 'audio',
+      items: [{ id: 'narration-audio', file: 'audio/narration.mp3', start_ms: 0, duration_ms: 10000 }],
+    },
+  ],
+};
+
+async function loadManifest(t: { after(fn: () => Promise<void>): void }, manifest: unknown) {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-schema-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  await fs.writeFile(path.join(folder, 'manifest.json'), JSON.stringify(manifest));
+  const loader = new ContentLoader();
+  const loading = loader.loadPackage(folder);
+  return { loader, loading };
+}
+
+test('reports the schema of the version a manifest declares, not the current one', async (t) => {
+  const { loader, loading } = await loadManifest(t, MANIFEST_1_0);
+  const manifest = await loading;
+
+  assert.equal(loader.getSchemaId(), 'urn:cbt-multimedia-sync:schema:manifest:1.0');
+  assert.notEqual(loader.getSchemaId(), MANIFEST_SCHEMA_ID);
+  // Migrated on load all the same
+  assert.notEqual(manifest.version, '1.0');
+});
+
+test('reports the schema a manifest failed against', async (t) => {
+  const { loader, loading } = await loadManifest(t, { ...MANIFEST_1_0, duration_ms: 'long' });
+
+  await assert.rejects(loading, ManifestValidationError);
+  assert.equal(loader.getSchemaId(), 'urn:cbt-multimedia-sync:schema:manifest:1.0');
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ClockEvent, MasterClock } from '../src/renderer/services/MasterClock';
+import { VirtualTimer } from '../src/renderer/testing/VirtualTimer';
+
+function wallClock(durationMs: number) {
+  const timer = new VirtualTimer();
+  const clock = new MasterClock(timer);
+  clock.setSource('wall');
+  clock.initialize(durationMs);
+  const events: ClockEvent[] = [];
+  clock.subscribe(event => events.push(event));
+  return { timer, clock, events };
+}
+
+test('runs on the timer at the playback rate', async () => {
+  const { timer, clock } = wallClock(60000);
+
+  clock.play();
+  await timer.advance(1000);
+  assert.ok(Math.abs(clock.getState().currentTime - 1000) <= 17);
+
+  clock.setPlaybackRate(2);
+  await timer.advance(1000);
+  assert.ok(Math.abs(clock.getState().currentTime - 3000) <= 34);
+
+  clock.pause();
+  const pausedAt = clock.getState().currentTime;
+  await timer.advance(1000);
+  assert.equal(clock.getState().currentTime, pausedAt);
+});
+
+test('emits sync every 500 ms while playing', async () => {
+  const { timer, clock, events } = wallClock(60000);
+
+  clock.play();
+  await timer.advance(2000);
+  clock.pause();
+  await timer.advance(2000);
+
+  assert.equal(events.filter(event => event.type === 'sync').length, 4);
+});
+
+test('seeks every registered manager before emitting seek', async () => {
+  const { timer, clock, events } = wallClock(60000);
+  const seeks: number[] = [];
+  clock.registerManager({
+    seek: (timeMs: number) => new Promise<void>(resolve => timer.setTimeout(() => {
+      seeks.push(timeMs);
+      resolve();
+    }, 200)),
+  });
+
+  const seek = clock.seek(45000);
+  await timer.advance(100);
+  assert.deepEqual(seeks, []);
+  assert.equal(events.some(event => event.type === 'seek'), false);
+
+  await timer.advance(100);
+  await seek;
+  assert.deepEqual(seeks, [45000]);
+  assert.equal(events.find(event => event.type === 'seek')?.time, 45000);
+  assert.equal(clock.getState().currentTime, 45000);
+});
+
+test('gives up on a manager that does not finish its seek', async () => {
+  const { timer, clock, events } = wallClock(60000);
+  clock.registerManager({ seek: () => new Promise<void>(() => {}) });
+
+  const seek = clock.seek(10000);
+  await timer.advance(3000);
+  await seek;
+  assert.equal(events.find(event => event.type === 'seek')?.time, 10000);
+});
+
+test('ends at the duration', async () => {
+  const { timer, clock, events } = wallClock(5000);
+
+  clock.play();
+  await timer.advance(6000);
+  assert.equal(clock.getState().isPlaying, false);
+  assert.equal(clock.getState().currentTime, 5000);
+  assert.equal(events.filter(event => event.type === 'ended').length, 1);
+});
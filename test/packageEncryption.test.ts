@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  PackageCipher,
+  PackageEncryptor,
+  PackageKeyError,
+  parseEncryptionHeader,
+} from '../src/main/packageEncryption';
+
+function encryptedHeader(passphrase: string) {
+  const encryptor = new PackageEncryptor({ passphrase });
+  encryptor.encryptEntry('manifest.json', Buffer.from('{}'));
+  return encryptor.createHeader();
+}
+
+test('unlocks a passphrase package with the right passphrase only', async () => {
+  const header = parseEncryptionHeader(Buffer.from(JSON.stringify(encryptedHeader('secret'))));
+
+  const cipher = await PackageCipher.unlock('test.pak', header, { passphrase: 'secret' });
+  assert.deepEqual(cipher.entryNames, ['manifest.json']);
+  await assert.rejects(PackageCipher.unlock('test.pak', header, { passphrase: 'wrong' }), PackageKeyError);
+});
+
+test('refuses scrypt parameters that would take too much memory or work', () => {
+  const header = encryptedHeader('secret');
+  const withKey = (key: Record<string, unknown>) =>
+    Buffer.from(JSON.stringify({ ...header, key: { ...header.key, ...key } }));
+
+  for (const key of [
+    { N: 2 ** 30 },
+    { N: 2 ** 20, r: 8 },
+    { N: 32767 },
+    { r: 1000 },
+    { p: 1000 },
+    { N: '32768' },
+    { r: 0 },
+    { salt: undefined },
+  ]) {
+    assert.throws(() => parseEncryptionHeader(withKey(key)), /unsupported scrypt parameters/, JSON.stringify(key));
+  }
+  assert.doesNotThrow(() => parseEncryptionHeader(withKey({ N: 65536, r: 8, p: 2 })));
+});
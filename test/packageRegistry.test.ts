@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PackageRegistry } from '../src/main/packageRegistry';
+
+const MANIFEST = {
+  version: '1.0',
+  duration_ms: 10000,
+  tracks: [
+    {
+      id: 'narration',
+      type: 'audio',
+      items: [{ id: 'narration-audio', file: 'audio/narration.mp3', start_ms: 0, duration_ms: 10000 }],
+    },
+  ],
+};
+
+test('watches a package folder but not the folder of a loose manifest', async (t) => {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-registry-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  await fs.mkdir(path.join(folder, 'package'));
+  await fs.writeFile(path.join(folder, 'package', 'manifest.json'), JSON.stringify(MANIFEST));
+  await fs.writeFile(path.join(folder, 'loose.json'), JSON.stringify(MANIFEST));
+  const registry = new PackageRegistry();
+  t.after(() => registry.unmountAll());
+
+  const packageFolder = await registry.mount(path.join(folder, 'package'));
+  const looseManifest = await registry.mount(path.join(folder, 'loose.json'));
+
+  assert.equal(registry.watch(packageFolder.id, () => {}), true);
+  assert.equal(registry.watch(looseManifest.id, () => {}), false);
+  assert.equal(looseManifest.watcher, undefined);
+});
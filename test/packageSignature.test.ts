@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentLoader } from '../src/main/contentLoader';
+import { computeKeyId, createSignature, hashEntries, SIGNATURE_FILE } from '../src/main/packageSignature';
+
+const MANIFEST = {
+  version: '1.0',
+  duration_ms: 10000,
+  tracks: [
+    {
+      id: 'narration',
+      type: 'audio',
+      items: [{ id: 'narration-audio', file: 'audio/narration.mp3', start_ms: 0, duration_ms: 10000 }],
+    },
+  ],
+};
+
+/**
+ * An unpacked package folder signed with a new key, and a loader that trusts the key
+ */
+async function createSignedFolder(t: { after(fn: () => Promise<void>): void }) {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-signature-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  await fs.mkdir(path.join(folder, 'audio'));
+  await fs.writeFile(path.join(folder, 'manifest.json'), JSON.stringify(MANIFEST, null, 2));
+  await fs.writeFile(path.join(folder, 'audio', 'narration.mp3'), 'narration');
+  await fs.writeFile(path.join(folder, 'notes.txt'), 'shipped but not referenced');
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const signer = new ContentLoader();
+  const manifest = await signer.loadPackage(folder);
+  const signature = createSignature(await hashEntries(signer.getSignatureSource(manifest)), privateKey, 'test');
+  await fs.writeFile(path.join(folder, SIGNATURE_FILE), JSON.stringify(signature, null, 2));
+  await signer.cleanup();
+
+  const loader = new ContentLoader();
+  loader.setTrustedKeys([{ keyId: computeKeyId(publicKey), name: 'test', key: publicKey }]);
+  t.after(() => loader.cleanup());
+  return { folder, loader, manifest: await loader.loadPackage(folder) };
+}
+
+test('a signed folder is verified when loaded', async (t) => {
+  const { loader } = await createSignedFolder(t);
+
+  assert.equal(loader.getSignatureStatus()?.state, 'verified');
+  assert.equal(loader.isSigned(), true);
+});
+
+test('a signed folder is tampered once a referenced file changes', async (t) => {
+  const { folder, loader, manifest } = await createSignedFolder(t);
+
+  assert.equal((await loader.reverifySignature(manifest)).state, 'verified');
+  await fs.writeFile(path.join(folder, 'audio', 'narration.mp3'), 'replaced narration');
+
+  assert.equal((await loader.reverifySignature(manifest)).state, 'tampered');
+});
+
+test('a signed folder covers files the manifest does not reference', async (t) => {
+  const { folder, loader, manifest } = await createSignedFolder(t);
+
+  await fs.writeFile(path.join(folder, 'notes.txt'), 'edited notes');
+  const edited = await loader.reverifySignature(manifest);
+  assert.equal(edited.state, 'tampered');
+  assert.deepEqual(edited.problems, ['Content does not match signature: notes.txt']);
+
+  await fs.writeFile(path.join(folder, 'notes.txt'), 'shipped but not referenced');
+  await fs.writeFile(path.join(folder, 'audio', 'extra.mp3'), 'added after signing');
+  const added = await loader.reverifySignature(manifest);
+  assert.equal(added.state, 'tampered');
+  assert.deepEqual(added.problems, ['Not covered by the signature: audio/extra.mp3']);
+});
+
+test('a signed loose manifest covers only itself and the files it references', async (t) => {
+  const { folder } = await createSignedFolder(t);
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const signer = new ContentLoader();
+  const manifestPath = path.join(folder, 'manifest.json');
+  const manifest = await signer.loadPackage(manifestPath);
+  const hashes = await hashEntries(signer.getSignatureSource(manifest));
+  assert.deepEqual(Object.keys(hashes), ['audio/narration.mp3', 'manifest.json']);
+  await fs.writeFile(path.join(folder, SIGNATURE_FILE), JSON.stringify(createSignature(hashes, privateKey)));
+  await signer.cleanup();
+
+  // Files next to the manifest are none of the package's business
+  await fs.writeFile(path.join(folder, 'unrelated.txt'), 'downloaded later');
+  const loader = new ContentLoader();
+  loader.setTrustedKeys([{ keyId: computeKeyId(publicKey), name: 'test', key: publicKey }]);
+  t.after(() => loader.cleanup());
+  await loader.loadPackage(manifestPath);
+
+  assert.equal(loader.getSignatureStatus()?.state, 'verified');
+});
+
+test('an unsigned folder is not signed', async (t) => {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-signature-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  await fs.writeFile(path.join(folder, 'manifest.json'), JSON.stringify(MANIFEST));
+  const loader = new ContentLoader();
+  await loader.loadPackage(folder);
+
+  assert.equal(loader.getSignatureStatus()?.state, 'unverified');
+  assert.equal(loader.isSigned(), false);
+});
@@ -0,0 +1,44 @@
+import { JSDOM } from 'jsdom';
+import { masterClock } from '../../src/renderer/services/MasterClock';
+import { VirtualTimer } from '../../src/renderer/testing/VirtualTimer';
+
+/**
+ * A jsdom window as the global window, for managers that need a DOM
+ * (VideoJsManager). Import it before anything that loads Video.js, which
+ * takes the window when it loads.
+ *
+ * The window's timers and animation frames run on the master clock's timer,
+ * so Video.js runs on the same virtual time as the managers. The clock starts
+ * on a virtual timer, as the browser timer would call back into the window.
+ */
+
+const { window } = new JSDOM('<!DOCTYPE html><body></body>');
+
+const GLOBALS = [
+  'document', 'navigator', 'Node', 'Element', 'HTMLElement', 'HTMLMediaElement', 'HTMLVideoElement',
+  'HTMLAudioElement', 'Event', 'EventTarget', 'CustomEvent',
+] as const;
+
+Object.defineProperty(globalThis, 'window', { value: window, configurable: true, writable: true });
+for (const name of GLOBALS) {
+  Object.defineProperty(globalThis, name, { value: window[name], configurable: true, writable: true });
+}
+
+masterClock.setTimer(new VirtualTimer());
+Object.assign(window, {
+  setTimeout: (callback: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+    masterClock.getTimer().setTimeout(() => callback(...args), ms ?? 0),
+  clearTimeout: (id: number) => masterClock.getTimer().clearTimeout(id),
+  setInterval: (callback: (...args: unknown[]) => void, ms?: number, ...args: unknown[]) =>
+    masterClock.getTimer().setInterval(() => callback(...args), ms ?? 0),
+  clearInterval: (id: number) => masterClock.getTimer().clearInterval(id),
+  requestAnimationFrame: (callback: (now: number) => void) => masterClock.getTimer().requestFrame(callback),
+  cancelAnimationFrame: (id: number) => masterClock.getTimer().cancelFrame(id),
+  // Video.js lays out text tracks differently without CSS inset support
+  CSS: { supports: () => true },
+});
+
+// Stylesheets imported by the managers
+require.extensions['.css'] = () => undefined;
+
+export { window };
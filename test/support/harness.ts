@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClockSourceName, Manifest, TrackItem, TrackManager } from '../../src/types/index';
+import { masterClock } from '../../src/renderer/services/MasterClock';
+import { VirtualTimer } from '../../src/renderer/testing/VirtualTimer';
+
+// Compiled to dist/test/test/support
+const REPO_ROOT = path.resolve(__dirname, '..', '..', '..', '..');
+
+export function loadSampleManifest(): Manifest {
+  const manifestPath = path.join(REPO_ROOT, 'content', 'sample-package', 'manifest.json');
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as Manifest;
+}
+
+/**
+ * Items of the manifest's first track of this type
+ */
+export function trackItems(manifest: Manifest, type: 'video' | 'audio'): TrackItem[] {
+  const track = manifest.tracks.find(candidate => candidate.type === type);
+  if (!track) {
+    throw new Error(`Manifest has no ${type} track`);
+  }
+  return track.items;
+}
+
+/**
+ * Put the master clock on a new virtual timer, stopped at 0. The timer starts
+ * where the last one stopped, so the clock's seek bookkeeping stays in order.
+ */
+export function startClock(durationMs: number, source: ClockSourceName = 'wall'): VirtualTimer {
+  masterClock.pause();
+  const timer = new VirtualTimer(masterClock.now());
+  masterClock.setTimer(timer);
+  masterClock.setSource(source);
+  masterClock.initialize(durationMs);
+  return timer;
+}
+
+/**
+ * Drive a manager from the clock's events the way App does; seeks reach it
+ * through masterClock.registerManager
+ */
+export function connect(manager: TrackManager): () => void {
+  return masterClock.subscribe(event => {
+    switch (event.type) {
+      case 'play':
+        manager.play();
+        break;
+      case 'pause':
+        manager.pause();
+        break;
+      case 'ratechange':
+        manager.setPlaybackRate(event.playbackRate);
+        break;
+      case 'sync':
+        manager.sync(event.time, event.playbackRate);
+        break;
+    }
+  });
+}
+
+/**
+ * Advance the timer until the promise settles; loads and seeks wait on the
+ * timer, so awaiting them alone would never return
+ */
+export async function settle<T>(timer: VirtualTimer, promise: Promise<T>, limitMs: number = 10000): Promise<T> {
+  let isSettled = false;
+  promise.then(() => { isSettled = true; }, () => { isSettled = true; });
+  for (let elapsed = 0; !isSettled && elapsed < limitMs; elapsed += 10) {
+    await timer.advance(10);
+  }
+  if (!isSettled) {
+    throw new Error(`Still pending after ${limitMs} ms`);
+  }
+  return promise;
+}
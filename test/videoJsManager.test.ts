@@ -0,0 +1,85 @@
+import { window } from './support/dom';
+import { afterEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { masterClock } from '../src/renderer/services/MasterClock';
+import { VideoJsManager } from '../src/renderer/managers/VideoJsManager';
+import { FakeMediaElement, FakeMediaOptions } from '../src/renderer/testing/FakeMediaElement';
+import { connect, loadSampleManifest, settle, startClock, trackItems } from './support/harness';
+
+const manifest = loadSampleManifest();
+const videos = trackItems(manifest, 'video');
+let cleanup: (() => void) | null = null;
+
+async function playVideos(options: Partial<FakeMediaOptions> = {}) {
+  const timer = startClock(manifest.duration_ms);
+  const elements: FakeMediaElement[] = [];
+  FakeMediaElement.install(window.HTMLMediaElement.prototype, timer, options, elements);
+  const container = window.document.body.appendChild(window.document.createElement('div'));
+  const video = new VideoJsManager(container);
+  await settle(timer, video.load(videos));
+  const unsubscribe = connect(video);
+  cleanup = () => {
+    unsubscribe();
+    video.destroy();
+    container.remove();
+  };
+  masterClock.play();
+  return { timer, video, elements };
+}
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = null;
+});
+
+test('plays the video item at each point of the timeline', async () => {
+  const { timer, video } = await playVideos();
+
+  await timer.advance(10000);
+  assert.equal(video.getCurrentItem()?.id, 'intro-video');
+
+  await timer.advance(25000);
+  assert.equal(video.getCurrentItem()?.id, 'lesson-video');
+  const metrics = video.getSyncMetrics();
+  assert.equal(metrics.transitions, 1);
+  assert.ok(metrics.drift < 50, `drift ${metrics.drift} ms`);
+});
+
+test('seeks into another item', async () => {
+  const { timer, video } = await playVideos();
+  await timer.advance(5000);
+
+  await settle(timer, masterClock.seek(65000));
+  assert.equal(video.getCurrentItem()?.id, 'outro-video');
+
+  await timer.advance(6000);
+  const metrics = video.getSyncMetrics();
+  assert.equal(video.getCurrentItem()?.id, 'outro-video');
+  assert.ok(metrics.drift < 50, `drift ${metrics.drift} ms`);
+});
+
+test('follows a rate change', async () => {
+  const { timer, video, elements } = await playVideos();
+  await timer.advance(4000);
+
+  masterClock.setPlaybackRate(2);
+  await timer.advance(4000);
+  const element = elements[elements.length - 1];
+  assert.ok(Math.abs(element.playbackRate - 2) <= 2 * 0.05, `playing at ${element.playbackRate}`);
+  assert.equal(video.getCurrentItem()?.id, 'intro-video');
+  assert.ok(video.getSyncMetrics().drift < 50);
+});
+
+test('holds video that runs 3% slow inside the tolerance', async () => {
+  const { timer, video } = await playVideos({ rateError: -0.03 });
+
+  // Past the first drift, which the offset still has to learn
+  await timer.advance(10000);
+  let maxDrift = 0;
+  for (let elapsed = 0; elapsed < 18000; elapsed += 500) {
+    await timer.advance(500);
+    maxDrift = Math.max(maxDrift, video.getSyncMetrics().drift);
+  }
+  assert.ok(maxDrift < 50, `drift up to ${maxDrift} ms`);
+  assert.equal(video.getSyncMetrics().corrections, 0);
+});
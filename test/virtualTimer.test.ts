@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { VirtualTimer } from '../src/renderer/testing/VirtualTimer';
+
+test('runs timeouts and intervals in time order and stops at the end', async () => {
+  const timer = new VirtualTimer();
+  const calls: string[] = [];
+  timer.setTimeout(() => calls.push(`timeout@${timer.now()}`), 250);
+  const intervalId = timer.setInterval(() => calls.push(`interval@${timer.now()}`), 100);
+
+  await timer.advance(320);
+  assert.deepEqual(calls, ['interval@100', 'interval@200', 'timeout@250', 'interval@300']);
+  assert.equal(timer.now(), 320);
+
+  timer.clearInterval(intervalId);
+  await timer.advance(1000);
+  assert.equal(calls.length, 4);
+  assert.equal(timer.getPendingCount(), 0);
+});
+
+test('runs animation frames on the frame grid', async () => {
+  const timer = new VirtualTimer(0, 20);
+  const frames: number[] = [];
+  const onFrame = (now: number) => {
+    frames.push(now);
+    timer.requestFrame(onFrame);
+  };
+  timer.requestFrame(onFrame);
+
+  await timer.advance(70);
+  assert.deepEqual(frames, [20, 40, 60]);
+});
+
+test('lets promises settle between timers', async () => {
+  const timer = new VirtualTimer();
+  const calls: number[] = [];
+  const wait = (ms: number) => new Promise<void>(resolve => timer.setTimeout(resolve, ms));
+
+  const script = (async () => {
+    await wait(100);
+    calls.push(timer.now());
+    await wait(100);
+    calls.push(timer.now());
+  })();
+
+  await timer.advance(250);
+  await script;
+  assert.deepEqual(calls, [100, 200]);
+});
+
+test('leaves cleared timers out', async () => {
+  const timer = new VirtualTimer();
+  let fired = false;
+  const id = timer.setTimeout(() => { fired = true; }, 10);
+  assert.equal(timer.getPendingCount(), 1);
+
+  timer.clearTimeout(id);
+  await timer.advance(100);
+  assert.equal(fired, false);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ZipArchive } from '../src/main/zipArchive';
+
+interface EntryLayout {
+  method: number;
+  data: Buffer;
+  size: number;
+  // Compressed size recorded in the central directory; defaults to the data length
+  compressedSize?: number;
+}
+
+/**
+ * A one-entry archive (entry.txt) whose sizes can disagree with its data
+ */
+function createZip({ method, data, size, compressedSize = data.length }: EntryLayout): Buffer {
+  const name = Buffer.from('entry.txt');
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(method, 8);
+  local.writeUInt32LE(compressedSize, 18);
+  local.writeUInt32LE(size, 22);
+  local.writeUInt16LE(name.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(method, 10);
+  central.writeUInt32LE(compressedSize, 20);
+  central.writeUInt32LE(size, 24);
+  central.writeUInt16LE(name.length, 28);
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + name.length, 12);
+  eocd.writeUInt32LE(local.length + name.length + data.length, 16);
+  return Buffer.concat([local, name, data, central, name, eocd]);
+}
+
+async function openZip(t: { after(fn: () => Promise<void>): void }, layout: EntryLayout): Promise<ZipArchive> {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cbt-zip-test-'));
+  t.after(() => fs.rm(folder, { recursive: true, force: true }));
+  const zipPath = path.join(folder, 'test.zip');
+  await fs.writeFile(zipPath, createZip(layout));
+  return ZipArchive.open(zipPath);
+}
+
+test('reads stored and deflated entries', async (t) => {
+  const text = Buffer.from('hello '.repeat(100));
+  const stored = await openZip(t, { method: 0, data: text, size: text.length });
+  t.after(() => stored.close());
+  const deflated = await openZip(t, { method: 8, data: zlib.deflateRawSync(text), size: text.length });
+  t.after(() => deflated.close());
+
+  assert.deepEqual(await stored.readEntry(stored.getEntry('entry.txt')!), text);
+  assert.deepEqual(await deflated.readEntry(deflated.getEntry('entry.txt')!), text);
+});
+
+test('refuses to inflate an entry past its declared size', async (t) => {
+  const bomb = zlib.deflateRawSync(Buffer.alloc(1024 * 1024, ' '));
+  const archive = await openZip(t, { method: 8, data: bomb, size: 100 });
+  t.after(() => archive.close());
+
+  await assert.rejects(archive.readEntry(archive.getEntry('entry.txt')!), /inflates beyond its declared size/);
+});
+
+test('refuses an entry that inflates to less than its declared size', async (t) => {
+  const archive = await openZip(t, { method: 8, data: zlib.deflateRawSync(Buffer.from('short')), size: 100 });
+  t.after(() => archive.close());
+
+  await assert.rejects(archive.readEntry(archive.getEntry('entry.txt')!), /does not inflate to its declared size/);
+});
+
+test('refuses an entry whose data is cut short', async (t) => {
+  // The central directory claims more compressed data than the archive holds before it
+  const text = Buffer.from('hello');
+  const archive = await openZip(t, { method: 8, data: zlib.deflateRawSync(text), size: text.length, compressedSize: 1000 });
+  t.after(() => archive.close());
+
+  await assert.rejects(archive.readEntry(archive.getEntry('entry.txt')!), /Entry is truncated/);
+});
+
+test('refuses a stored entry whose sizes disagree', async (t) => {
+  const text = Buffer.from('hello');
+  await assert.rejects(openZip(t, { method: 0, data: text, size: 1000 }), /Stored entry size does not match its data/);
+});
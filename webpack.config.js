@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const nodeExternals = require('webpack-node-externals');
 
@@ -70,6 +71,21 @@ const preloadConfig = {
   },
 };
 
+// Headless package CLI configuration
+const cliConfig = {
+  ...commonConfig,
+  entry: './src/cli/index.ts',
+  target: 'node',
+  externals: [nodeExternals()],
+  output: {
+    filename: 'index.js',
+    path: path.resolve(__dirname, 'dist/cli'),
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true }),
+  ],
+};
+
 // Renderer process configuration
 const rendererConfig = {
   ...commonConfig,
@@ -90,4 +106,17 @@ const rendererConfig = {
   },
 };
 
-module.exports = [mainConfig, preloadConfig, rendererConfig];
\ No newline at end of file
+// Time-stretch AudioWorklet, loaded by the renderer with audioWorklet.addModule()
+const workletConfig = {
+  ...commonConfig,
+  entry: './src/renderer/worklets/timeStretchProcessor.ts',
+  target: 'webworker',
+  output: {
+    filename: 'time-stretch-processor.js',
+    path: path.resolve(__dirname, 'dist/renderer'),
+    // Worklet scopes have no self or window
+    globalObject: 'globalThis',
+  },
+};
+
+module.exports = [mainConfig, preloadConfig, cliConfig, rendererConfig, workletConfig];
\ No newline at end of file